@@ -1,4 +1,4 @@
-import {Directory, DirectoryContent, File, ShallowDirectory, SimpleStats} from './model';
+import {Directory, DirectoryContent, File, FileContent, ShallowDirectory, SimpleStats} from './model';
 
 export interface FileSystemEvent {
     type: keyof Events;
@@ -13,12 +13,12 @@ export interface UnexpectedErrorEvent extends FileSystemEvent {
 
 export interface FileCreatedEvent extends FileSystemEvent {
     type: 'fileCreated';
-    newContent: string;
+    newContent: FileContent;
 }
 
 export interface FileChangedEvent extends FileSystemEvent {
     type: 'fileChanged';
-    newContent: string;
+    newContent: FileContent;
 }
 
 export interface FileDeletedEvent extends FileSystemEvent {
@@ -33,6 +33,16 @@ export interface DirectoryDeletedEvent extends FileSystemEvent {
     type: 'directoryDeleted';
 }
 
+export interface FileRenamedEvent extends FileSystemEvent {
+    type: 'fileRenamed';
+    oldFullPath: string;
+}
+
+export interface DirectoryRenamedEvent extends FileSystemEvent {
+    type: 'directoryRenamed';
+    oldFullPath: string;
+}
+
 export interface Disposable {
     dispose(): void;
 }
@@ -43,6 +53,23 @@ export function isDisposable(fs: any): fs is Disposable {
 
 export type ListenerFn<T> = (event: T) => any;
 
+export type WatchListener = ListenerFn<Events[keyof Events]>;
+
+export interface WatchHandle extends Disposable {
+    /**
+     * resolves once changes in the scope of the watch are reported
+     */
+    ready: Promise<void>;
+}
+
+export interface WatchOptions {
+    /**
+     * also report events in sub-directories of the watched path (or of the directories the glob matches)
+     * default : false
+     */
+    recursive?: boolean;
+}
+
 export type Events = {
     unexpectedError: UnexpectedErrorEvent;
     fileCreated: FileCreatedEvent;
@@ -50,13 +77,123 @@ export type Events = {
     fileDeleted: FileDeletedEvent;
     directoryCreated: DirectoryCreatedEvent;
     directoryDeleted: DirectoryDeletedEvent;
-
+    fileRenamed: FileRenamedEvent;
+    directoryRenamed: DirectoryRenamedEvent;
 };
-export const fileSystemEventNames: Array<keyof Events> = ['unexpectedError', 'fileCreated', 'fileChanged', 'fileDeleted', 'directoryCreated', 'directoryDeleted'];
-export const fileSystemAsyncMethods: Array<keyof FileSystem> = ['saveFile', 'deleteFile', 'deleteDirectory', 'loadTextFile', 'loadDirectoryTree', 'ensureDirectory', 'loadDirectoryChildren', 'stat'];
+export const fileSystemEventNames: Array<keyof Events> = ['unexpectedError', 'fileCreated', 'fileChanged', 'fileDeleted', 'directoryCreated', 'directoryDeleted', 'fileRenamed', 'directoryRenamed'];
+export type FileSystemAsyncMethod = 'saveFile' | 'saveBinaryFile' | 'deleteFile' | 'deleteDirectory' | 'loadTextFile' | 'loadBinaryFile' | 'loadDirectoryTree' | 'ensureDirectory' | 'loadDirectoryChildren' | 'stat' | 'move' | 'copyFile' | 'copyDirectory' | 'loadTextFileWithVersion' | 'findFiles' | 'searchText' | 'batch';
+export const fileSystemAsyncMethods: FileSystemAsyncMethod[] = ['saveFile', 'saveBinaryFile', 'deleteFile', 'deleteDirectory', 'loadTextFile', 'loadBinaryFile', 'loadDirectoryTree', 'ensureDirectory', 'loadDirectoryChildren', 'stat', 'move', 'copyFile', 'copyDirectory', 'loadTextFileWithVersion', 'findFiles', 'searchText', 'batch'];
 
 export type Correlation = string;
 
+export interface CopyDirectoryOptions {
+    /**
+     * merge into an existing target directory, replacing files that exist in both
+     * default : false
+     */
+    overwrite?: boolean;
+}
+
+export interface WriteOptions {
+    /**
+     * only write if the file exists and its current version (see FileSystem.loadTextFileWithVersion) is this one.
+     * otherwise, reject with a ConflictError.
+     * the check and the write are atomic only among writes made through the file system, not against changes made
+     * from outside of it (e.g. by other processes writing to the disk)
+     */
+    ifMatch?: string;
+}
+
+export interface FindFilesOptions {
+    /**
+     * directory that the patterns are relative to
+     * default : the root of the file system
+     */
+    cwd?: string;
+    /**
+     * glob patterns of files and directories to exclude (relative to cwd). ignored directories are not searched
+     */
+    ignore?: string | string[];
+}
+
+export interface SearchTextOptions {
+    /**
+     * glob patterns of the files to search
+     * default : all files
+     */
+    glob?: string | string[];
+    /**
+     * treat the query as a regular expression
+     * default : false
+     */
+    regex?: boolean;
+    /**
+     * default : false
+     */
+    caseSensitive?: boolean;
+    /**
+     * stop searching after this many matches
+     */
+    maxResults?: number;
+}
+
+export interface TextSearchMatch {
+    fullPath: string;
+    /**
+     * 1-based line number
+     */
+    line: number;
+    /**
+     * 1-based column of the start of the match
+     */
+    column: number;
+    /**
+     * the text of the matching line
+     */
+    preview: string;
+}
+
+export interface SaveFileOperation {
+    type: 'saveFile';
+    fullPath: string;
+    newContent: string;
+    options?: WriteOptions;
+}
+
+export interface SaveBinaryFileOperation {
+    type: 'saveBinaryFile';
+    fullPath: string;
+    newContent: Uint8Array;
+    options?: WriteOptions;
+}
+
+export interface DeleteFileOperation {
+    type: 'deleteFile';
+    fullPath: string;
+    options?: WriteOptions;
+}
+
+export interface DeleteDirectoryOperation {
+    type: 'deleteDirectory';
+    fullPath: string;
+    recursive?: boolean;
+}
+
+export interface EnsureDirectoryOperation {
+    type: 'ensureDirectory';
+    fullPath: string;
+}
+
+export type BatchOperation = SaveFileOperation | SaveBinaryFileOperation | DeleteFileOperation | DeleteDirectoryOperation | EnsureDirectoryOperation;
+
+export interface VersionedTextFile {
+    content: string;
+    /**
+     * identifies the content of the file, changes whenever the content does
+     */
+    version: string;
+}
+
 export interface EventEmitter {
     listeners<S extends keyof Events>(event: S, exists: boolean): Array<ListenerFn<Events[S]>> | boolean;
 
@@ -82,21 +219,71 @@ export interface FileSystem {
     readonly events: EventEmitter;
     readonly baseUrl: string;
 
-    saveFile(fullPath: string, newContent: string, correlation?: Correlation): Promise<Correlation>;
+    saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
 
-    deleteFile(fullPath: string, correlation?: Correlation): Promise<Correlation>;
+    saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+
+    deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
 
     deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation>;
 
     ensureDirectory(fullPath: string, correlation?: Correlation): Promise<Correlation>;
 
+    /**
+     * move (rename) a file or a directory. missing parent directories of the target are created.
+     * fails if the source does not exist or if the target already exists.
+     */
+    move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+
+    /**
+     * copy a file, replacing the target file if it exists.
+     */
+    copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+
+    /**
+     * copy a directory and all of its content.
+     * fails if the target already exists, unless the overwrite option is set.
+     */
+    copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation>;
+
+    /**
+     * apply the operations in order, all of their events carry the same correlation.
+     * file systems that can (e.g. in memory) apply all of them or, if one fails, none of them
+     */
+    batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation>;
+
     loadTextFile(fullPath: string): Promise<string>;
 
+    /**
+     * load a text file along with its version, to be used with the ifMatch option of later writes
+     */
+    loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile>;
+
+    loadBinaryFile(fullPath: string): Promise<Uint8Array>;
+
     loadDirectoryTree(fullPath?: string): Promise<Directory>;
 
     loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]>;
 
     stat(fullPath: string): Promise<SimpleStats>;
+
+    /**
+     * find the files that match any of the glob patterns (`*`, `?`, `[...]`, `{a,b}` and `**`)
+     * @returns sorted full paths of the matching files
+     */
+    findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]>;
+
+    /**
+     * search the content of text files, line by line. binary files are skipped
+     * @returns matches ordered by path, line and column
+     */
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]>;
+
+    /**
+     * listen to the events of a path (and its children) or of the paths that match a glob.
+     * renames are reported if either the old or the new path is watched
+     */
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle;
 }
 
 
@@ -104,6 +291,8 @@ export interface FileSystemReadSync extends FileSystem {
 
     loadTextFileSync(fullPath: string): string;
 
+    loadBinaryFileSync(fullPath: string): Uint8Array;
+
     loadDirectoryTreeSync(fullPath?: string): Directory;
 
     loadDirectoryContentSync(fullPath?: string): DirectoryContent;
@@ -115,6 +304,7 @@ export interface FileSystemReadSync extends FileSystem {
 
 export function isFileSystemReadSync(fs: FileSystem): fs is FileSystemReadSync {
     return typeof (fs as any).loadTextFileSync === 'function' &&
+        typeof (fs as any).loadBinaryFileSync === 'function' &&
         typeof (fs as any).loadDirectoryTreeSync === 'function' &&
         typeof (fs as any).loadDirectoryContentSync === 'function' &&
         typeof (fs as any).loadDirectoryChildrenSync === 'function' &&
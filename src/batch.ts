@@ -0,0 +1,27 @@
+import {BatchOperation, Correlation, FileSystem} from './api';
+import {makeCorrelationId} from './utils';
+
+export function applyOperation(fs: FileSystem, operation: BatchOperation, correlation: Correlation): Promise<Correlation> {
+    switch (operation.type) {
+        case 'saveFile':
+            return fs.saveFile(operation.fullPath, operation.newContent, correlation, operation.options);
+        case 'saveBinaryFile':
+            return fs.saveBinaryFile(operation.fullPath, operation.newContent, correlation, operation.options);
+        case 'deleteFile':
+            return fs.deleteFile(operation.fullPath, correlation, operation.options);
+        case 'deleteDirectory':
+            return fs.deleteDirectory(operation.fullPath, operation.recursive, correlation);
+        case 'ensureDirectory':
+            return fs.ensureDirectory(operation.fullPath, correlation);
+    }
+}
+
+/**
+ * apply a batch one operation after the other, for file systems that can't undo. stops at the first failure
+ */
+export async function applyBatch(fs: FileSystem, operations: BatchOperation[], correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+    for (const operation of operations) {
+        await applyOperation(fs, operation, correlation);
+    }
+    return correlation;
+}
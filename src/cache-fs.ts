@@ -1,15 +1,39 @@
 import {
-    Correlation, FileChangedEvent, FileCreatedEvent,
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation, DirectoryRenamedEvent, FileChangedEvent, FileCreatedEvent, FileRenamedEvent,
     FileSystem,
     FileSystemReadSync,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
     isDisposable,
     isFileSystemReadSync,
-    UnexpectedErrorEvent
+    UnexpectedErrorEvent,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
 } from './api';
-import {Directory, DirectoryContent, File, FileSystemNode, isDir, isFile, ShallowDirectory, SimpleStats} from './model';
+import {
+    Directory,
+    DirectoryContent,
+    File,
+    FileContent,
+    FileSystemNode,
+    isBinaryContent,
+    isDir,
+    isFile,
+    pathSeparator,
+    ShallowDirectory,
+    SimpleStats
+} from './model';
 
 import {MemoryFileSystem} from './memory-fs';
-import {getPathNodes, InternalEventsEmitter, splitPathToDirAndFile} from './utils';
+import {createFileMatcher, findFilesInTree} from './glob';
+import {watchEvents} from './watch';
+import {getPathNodes, InternalEventsEmitter, normalizePathNodes, splitPathToDirAndFile} from './utils';
 
 enum CacheLevel {
     FILE_FULL,
@@ -36,10 +60,22 @@ function isCachedDirContent(cached: CacheLevel | undefined) {
     return cached === CacheLevel.DIR_CONTENT || cached === CacheLevel.GONE;
 }
 
+/**
+ * text with replacement characters may have been decoded from bytes that are not UTF-8. the bytes themselves are
+ * cached for it, so that versions of the cached content are the same as those of the underlying file system
+ */
+function mayBeDecodedLossily(text: string) {
+    return text.indexOf('\uFFFD') !== -1;
+}
+
 type PathInCache = {
     [path: string]: undefined | CacheLevel
 };
 
+type StatsInCache = {
+    [path: string]: undefined | SimpleStats
+};
+
 interface FileSystemNodesMap {
     [key: string]: FileSystemNode;
 }
@@ -123,9 +159,21 @@ class MemFsForCache extends MemoryFileSystem {
             }
         });
 
-        toChange.forEach(fullPath => this.loadTextFile(fullPath).then(newContent => {
-            this.events.emit('fileChanged', {type: 'fileChanged', fullPath, newContent});
-        }));
+        toChange.forEach(fullPath => {
+            const node = this.findNode(fullPath);
+            if (isFile(node) && node.content !== undefined) {
+                this.events.emit('fileChanged', {type: 'fileChanged', fullPath, newContent: node.content});
+            }
+        });
+    }
+
+    hasNodeSync(fullPath: string): boolean {
+        try {
+            this.findNode(fullPath);
+            return true;
+        } catch (e) {
+            return false;
+        }
     }
 
     replaceChildrenSync(fullPath: string, newChildren: (File | Directory)[]) {
@@ -200,6 +248,7 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
     private cache: MemFsForCache = new MemFsForCache();
     public readonly events: InternalEventsEmitter = this.cache.events;
     private pathsInCache: PathInCache = {};
+    private statsInCache: StatsInCache = {};
     private onFsError = ({stack}: Error | UnexpectedErrorEvent) => {
         this.options.reSyncOnError ?
             this.reSyncOnError() :
@@ -220,7 +269,8 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
 
         const fileChangeCreatedHandler = (event: FileChangedEvent | FileCreatedEvent) => {
             try {
-                this.cacheTextFile(event.fullPath, event.newContent, event.correlation);
+                this.cacheFile(event.fullPath, event.newContent, event.correlation);
+                this.cacheStatsChanged(event.fullPath);
             } catch (e) {
                 this.onFsError(e);
             }
@@ -250,15 +300,29 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
                 this.onFsError(e);
             }
         });
+
+        const renamedHandler = (event: FileRenamedEvent | DirectoryRenamedEvent) => {
+            try {
+                this.cacheMove(event.oldFullPath, event.fullPath, event.correlation, event);
+            } catch (e) {
+                this.onFsError(e);
+            }
+        };
+        this.fs.events.on('fileRenamed', renamedHandler);
+        this.fs.events.on('directoryRenamed', renamedHandler);
     }
 
     private isPropagateSyncRead(): this is HasInnerFileSystemReadSync {
         return this.options.propagateSyncRead || false;
     }
 
-    private cacheTextFile(fullPath: string, newContent: string, correlation?: Correlation) {
+    private cacheFile(fullPath: string, newContent: FileContent, correlation?: Correlation) {
         this.pathsInCache[fullPath] = CacheLevel.FILE_FULL;
-        this.cache.saveFileSync(fullPath, newContent, correlation);
+        if (isBinaryContent(newContent)) {
+            this.cache.saveBinaryFileSync(fullPath, newContent, correlation);
+        } else {
+            this.cache.saveFileSync(fullPath, newContent, correlation);
+        }
     }
 
     private cacheDirTree(fullPath: string, newTree: Directory) {
@@ -279,12 +343,51 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
     }
 
     private cacheStat(fullPath: string, newStat: SimpleStats) {
-        this.pathsInCache[fullPath] = CacheLevel.STATS;
-        if (newStat.type === 'file') {
-            this.cache.saveFileSync(fullPath, '');
-        } else if (newStat.type === 'dir') {
-            this.cache.ensureDirectorySync(fullPath);
+        if (this.pathsInCache[fullPath] === undefined) {
+            this.pathsInCache[fullPath] = CacheLevel.STATS;
+            if (newStat.type === 'file') {
+                this.cache.saveFileSync(fullPath, '');
+            } else if (newStat.type === 'dir') {
+                this.cache.ensureDirectorySync(fullPath);
+            }
         }
+        this.statsInCache[fullPath] = newStat;
+    }
+
+    /**
+     * update the stats of a path that was written, and ask the underlying fs for them in the background.
+     * until it answers, the times are approximated by the time the cache learned of the change
+     */
+    private cacheStatsChanged(fullPath: string) {
+        const stats = this.cache.statSync(fullPath);
+        const {size, mtime, ctime} = stats;
+        const knownStats = this.statsInCache[fullPath];
+        const approximation = this.statsInCache[fullPath] = knownStats ? {...knownStats, size, mtime, ctime} : stats;
+        delete this.statsInCache[splitPathToDirAndFile(fullPath).parentPath];
+        // the answer is dropped if the path changed again (or is gone) meanwhile, its events tell the rest
+        this.fs.stat(fullPath).then(newStats => {
+            if (this.statsInCache[fullPath] === approximation) {
+                this.statsInCache[fullPath] = newStats;
+            }
+        }, () => undefined);
+    }
+
+    /**
+     * forget the stats of a path, everything under it and its parent.
+     * there is nothing under files, so looking for it is skipped when the path is known to be a file
+     */
+    private invalidateStats(fullPath: string, isFilePath = false) {
+        if (isFilePath) {
+            delete this.statsInCache[fullPath];
+        } else {
+            const prefix = fullPath + pathSeparator;
+            Object.keys(this.statsInCache).forEach(p => {
+                if (p === fullPath || p.startsWith(prefix)) {
+                    delete this.statsInCache[p];
+                }
+            });
+        }
+        delete this.statsInCache[splitPathToDirAndFile(fullPath).parentPath];
     }
 
     private cacheDirectoryGone(recursive: boolean, fullPath: string, correlation?: Correlation) {
@@ -298,6 +401,7 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
             this.pathsInCache[fullPath] = CacheLevel.GONE;
         }
         this.cache.deleteDirectorySync(fullPath, recursive, correlation);
+        this.invalidateStats(fullPath);
     }
 
     private cacheDirectoryExists(fullPath: string, correlation?: Correlation) {
@@ -305,28 +409,81 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
             this.pathsInCache[fullPath] = CacheLevel.DIR_DEEP;
         }
         this.cache.ensureDirectorySync(fullPath, correlation);
+        if (!this.statsInCache[fullPath]) {
+            this.cacheStatsChanged(fullPath);
+        }
     }
 
     private cacheFileGone(fullPath: string, correlation?: Correlation) {
         this.pathsInCache[fullPath] = CacheLevel.GONE;
         this.cache.deleteFileSync(fullPath, correlation);
+        this.invalidateStats(fullPath, true);
+    }
+
+    /**
+     * @param event the underlying event to forward, if the moved node is unknown to the cache
+     */
+    private cacheMove(fromPath: string, toPath: string, correlation?: Correlation, event?: FileRenamedEvent | DirectoryRenamedEvent) {
+        this.invalidateStats(fromPath);
+        this.invalidateStats(toPath);
+        if (this.cache.hasNodeSync(fromPath)) {
+            const fromPrefix = fromPath + pathSeparator;
+            Object.keys(this.pathsInCache).forEach(p => {
+                if (p === fromPath || p.startsWith(fromPrefix)) {
+                    this.pathsInCache[toPath + p.substr(fromPath.length)] = this.pathsInCache[p];
+                    this.pathsInCache[p] = CacheLevel.GONE;
+                }
+            });
+            this.cache.moveSync(fromPath, toPath, correlation);
+        } else if (!this.cache.hasNodeSync(toPath)) {
+            this.pathsInCache[fromPath] = CacheLevel.GONE;
+            this.invalidateCache(toPath);
+            if (event) {
+                this.emit(event.type, event);
+            }
+        }
+    }
+
+    /**
+     * forget what is known about a path and everything under it, as well as the listings of its ancestors
+     */
+    private invalidateCache(fullPath: string) {
+        const prefix = fullPath + pathSeparator;
+        Object.keys(this.pathsInCache).forEach(p => {
+            if (p === fullPath || p.startsWith(prefix)) {
+                delete this.pathsInCache[p];
+            }
+        });
+        const pathArr = getPathNodes(fullPath);
+        for (let i = 0; i < pathArr.length; i++) {
+            delete this.pathsInCache[normalizePathNodes(pathArr.slice(0, i))];
+        }
+        this.invalidateStats(fullPath);
+    }
+
+    async saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        correlation = await this.fs.saveFile(fullPath, newContent, correlation, options);
+        this.cacheFile(fullPath, newContent, correlation);
+        this.cacheStatsChanged(fullPath);
+        return correlation;
     }
 
-    async saveFile(fullPath: string, newContent: string, correlation?: Correlation): Promise<Correlation> {
-        correlation = await this.fs.saveFile(fullPath, newContent, correlation);
-        this.cacheTextFile(fullPath, newContent, correlation);
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        correlation = await this.fs.saveBinaryFile(fullPath, newContent, correlation, options);
+        this.cacheFile(fullPath, newContent, correlation);
+        this.cacheStatsChanged(fullPath);
         return correlation;
     }
 
-    async deleteFile(fullPath: string, correlation?: Correlation): Promise<Correlation> {
-        correlation = await this.fs.deleteFile(fullPath, correlation);
+    async deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        correlation = await this.fs.deleteFile(fullPath, correlation, options);
         this.cacheFileGone(fullPath, correlation);
         return correlation;
     }
 
     async deleteDirectory(fullPath: string, recursive: boolean = false, correlation?: Correlation): Promise<Correlation> {
         correlation = await this.fs.deleteDirectory(fullPath, recursive, correlation);
-        this.cacheDirectoryGone(recursive, fullPath);
+        this.cacheDirectoryGone(recursive, fullPath, correlation);
         return correlation;
     }
 
@@ -336,20 +493,95 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
         return correlation;
     }
 
+    async move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        correlation = await this.fs.move(fromPath, toPath, correlation);
+        this.cacheMove(fromPath, toPath, correlation);
+        return correlation;
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        correlation = await this.fs.copyFile(fromPath, toPath, correlation);
+        if (this.pathsInCache[fromPath] === CacheLevel.FILE_FULL) {
+            this.pathsInCache[toPath] = CacheLevel.FILE_FULL;
+            this.cache.copyFileSync(fromPath, toPath, correlation);
+            this.cacheStatsChanged(toPath);
+        } else {
+            this.invalidateCache(toPath);
+        }
+        return correlation;
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation> {
+        correlation = await this.fs.copyDirectory(fromPath, toPath, options, correlation);
+        this.invalidateCache(toPath);
+        return correlation;
+    }
+
+    /**
+     * the cache is only updated once the whole batch succeeds
+     */
+    async batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation> {
+        const batchCorrelation = await this.fs.batch(operations, correlation);
+        operations.forEach(operation => {
+            switch (operation.type) {
+                case 'saveFile':
+                case 'saveBinaryFile':
+                    this.cacheFile(operation.fullPath, operation.newContent, batchCorrelation);
+                    this.cacheStatsChanged(operation.fullPath);
+                    break;
+                case 'deleteFile':
+                    this.cacheFileGone(operation.fullPath, batchCorrelation);
+                    break;
+                case 'deleteDirectory':
+                    this.cacheDirectoryGone(!!operation.recursive, operation.fullPath, batchCorrelation);
+                    break;
+                case 'ensureDirectory':
+                    this.cacheDirectoryExists(operation.fullPath, batchCorrelation);
+                    break;
+            }
+        });
+        return batchCorrelation;
+    }
+
     async loadTextFile(fullPath: string): Promise<string> {
         if (!isCachedFile(this.pathsInCache[fullPath])) {
-            this.cacheTextFile(fullPath, await this.fs.loadTextFile(fullPath));
+            const text = await this.fs.loadTextFile(fullPath);
+            this.cacheFile(fullPath, mayBeDecodedLossily(text) ? await this.fs.loadBinaryFile(fullPath) : text);
         }
         return this.cache.loadTextFileSync(fullPath);
     }
 
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        if (isCachedFile(this.pathsInCache[fullPath])) {
+            return this.cache.loadTextFileWithVersionSync(fullPath);
+        }
+        const versionedFile = await this.fs.loadTextFileWithVersion(fullPath);
+        this.cacheFile(fullPath, mayBeDecodedLossily(versionedFile.content) ? await this.fs.loadBinaryFile(fullPath) : versionedFile.content);
+        return versionedFile;
+    }
+
     loadTextFileSync(fullPath: string): string {
         if (this.isPropagateSyncRead() && !isCachedFile(this.pathsInCache[fullPath])) {
-            this.cacheTextFile(fullPath, this.fs.loadTextFileSync(fullPath));
+            const text = this.fs.loadTextFileSync(fullPath);
+            this.cacheFile(fullPath, mayBeDecodedLossily(text) ? this.fs.loadBinaryFileSync(fullPath) : text);
         }
         return this.cache.loadTextFileSync(fullPath);
     }
 
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        if (!isCachedFile(this.pathsInCache[fullPath])) {
+            this.cacheFile(fullPath, await this.fs.loadBinaryFile(fullPath));
+        }
+        return this.cache.loadBinaryFileSync(fullPath);
+    }
+
+    loadBinaryFileSync(fullPath: string): Uint8Array {
+        if (this.isPropagateSyncRead() && !isCachedFile(this.pathsInCache[fullPath])) {
+            this.cacheFile(fullPath, this.fs.loadBinaryFileSync(fullPath));
+        }
+        return this.cache.loadBinaryFileSync(fullPath);
+    }
+
     async loadDirectoryTree(fullPath: string = ''): Promise<Directory> {
         if (!isCachedDirDeep(this.pathsInCache[fullPath])) {
             this.cacheDirTree(fullPath, await this.fs.loadDirectoryTree(fullPath));
@@ -388,18 +620,49 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
         return this.cache.loadDirectoryChildrenSync(fullPath);
     }
 
+    /**
+     * right after a change, the times are approximated by the time the cache learned of it, until the underlying fs
+     * reports them
+     */
     async stat(fullPath: string): Promise<SimpleStats> {
-        if (this.pathsInCache[fullPath] === undefined) {
+        if (this.statsInCache[fullPath] === undefined && this.pathsInCache[fullPath] !== CacheLevel.GONE) {
             this.cacheStat(fullPath, await this.fs.stat(fullPath));
         }
-        return this.cache.stat(fullPath);
+        return this.getCachedStats(fullPath);
     }
 
     statSync(fullPath: string): SimpleStats {
-        if (this.isPropagateSyncRead() && this.pathsInCache[fullPath] === undefined) {
+        if (this.isPropagateSyncRead() && this.statsInCache[fullPath] === undefined && this.pathsInCache[fullPath] !== CacheLevel.GONE) {
             this.cacheStat(fullPath, this.fs.statSync(fullPath));
         }
-        return this.cache.statSync(fullPath);
+        return this.getCachedStats(fullPath);
+    }
+
+    async findFiles(patterns: string | string[], options: FindFilesOptions = {}): Promise<string[]> {
+        const cwd = options.cwd || '';
+        if (isCachedDirDeep(this.pathsInCache[cwd])) {
+            return findFilesInTree(this.cache.loadDirectoryTreeSync(cwd), createFileMatcher(patterns, options.ignore));
+        }
+        return this.fs.findFiles(patterns, options);
+    }
+
+    async searchText(query: string, options: SearchTextOptions = {}): Promise<TextSearchMatch[]> {
+        if (isCachedDirDeep(this.pathsInCache[''])) {
+            const fullPaths = await this.findFiles(options.glob || '**');
+            if (fullPaths.every(fullPath => isCachedFile(this.pathsInCache[fullPath]))) {
+                return this.cache.searchTextSync(query, options);
+            }
+        }
+        return this.fs.searchText(query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return watchEvents(this.events, pathOrGlob, listener, options);
+    }
+
+    private getCachedStats(fullPath: string): SimpleStats {
+        const stats = this.statsInCache[fullPath];
+        return stats ? {...stats} : this.cache.statSync(fullPath);
     }
 
     dispose() {
@@ -409,6 +672,7 @@ export class CacheFileSystem implements FileSystemReadSync, FileSystem {
     private async reSyncOnError() {
         let oldPathsInCache = this.pathsInCache;
         this.pathsInCache = {};
+        this.statsInCache = {};
         Object.keys(oldPathsInCache).forEach(p => {
             if (oldPathsInCache[p] === CacheLevel.FILE_FULL) {
                 this.loadTextFile(p);
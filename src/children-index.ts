@@ -0,0 +1,77 @@
+import {Directory, File} from './model';
+
+interface ChildrenIndex {
+    children: Array<Directory | File>;
+    length: number;
+    byName: Map<string, Directory | File>;
+    positions: Map<Directory | File, number>;
+}
+
+// kept aside so that directories keep their public shape
+const indexes = new WeakMap<Directory, ChildrenIndex>();
+
+/**
+ * the index of the children of a directory by name, and of their positions. it is rebuilt when the children array is
+ * replaced or changes its length. other changes made in place (e.g. replacing an element) are not noticed, so changes
+ * made from outside should replace the array, or only add to it
+ */
+function getIndex(dir: Directory): ChildrenIndex {
+    let index = indexes.get(dir);
+    if (!index || index.children !== dir.children || index.length !== dir.children.length) {
+        const byName = new Map<string, Directory | File>();
+        const positions = new Map<Directory | File, number>();
+        dir.children.forEach((child, position) => {
+            byName.has(child.name) || byName.set(child.name, child);
+            positions.set(child, position);
+        });
+        index = {children: dir.children, length: dir.children.length, byName, positions};
+        indexes.set(dir, index);
+    }
+    return index;
+}
+
+export function getChild(dir: Directory, name: string): Directory | File | undefined {
+    return getIndex(dir).byName.get(name);
+}
+
+export function addChild(dir: Directory, child: Directory | File) {
+    const index = getIndex(dir);
+    index.positions.set(child, dir.children.length);
+    dir.children.push(child);
+    index.length++;
+    if (!index.byName.has(child.name)) {
+        index.byName.set(child.name, child);
+    }
+}
+
+/**
+ * the last child takes the place of the removed one, so the order of the children changes
+ */
+export function removeChild(dir: Directory, child: Directory | File) {
+    const index = getIndex(dir);
+    const position = index.positions.get(child);
+    if (position !== undefined) {
+        const last = dir.children.pop()!;
+        if (last !== child) {
+            dir.children[position] = last;
+            index.positions.set(last, position);
+        }
+        index.positions.delete(child);
+        index.length--;
+        if (index.byName.get(child.name) === child) {
+            index.byName.delete(child.name);
+        }
+    }
+}
+
+export function replaceChild(dir: Directory, child: Directory | File, replacement: Directory | File) {
+    const index = getIndex(dir);
+    const position = index.positions.get(child);
+    if (position !== undefined) {
+        dir.children[position] = replacement;
+        index.positions.delete(child);
+        index.positions.set(replacement, position);
+        index.byName.delete(child.name);
+        index.byName.set(replacement.name, replacement);
+    }
+}
@@ -1,2 +1,5 @@
 export const wampRealmPrefix = 'com.kissfs.';
 export const wampRealm = `${wampRealmPrefix}driver`;
+// http headers of httpServerOverFs(). they tie calls to the events stream of their client
+export const httpEventsStreamHeader = 'x-kissfs-events-stream';
+export const httpEventsSentHeader = 'x-kissfs-events-sent';
@@ -0,0 +1,211 @@
+import {FileContent, isBinaryContent, SimpleStats} from './model';
+
+// global in browsers and in nodejs (since version 11), but not declared by lib es2017. see getUtf8Codec()
+declare const TextEncoder: new () => { encode(text: string): Uint8Array };
+declare const TextDecoder: new (label: string, options: { fatal?: boolean, ignoreBOM?: boolean }) => { decode(data: Uint8Array): string };
+declare function btoa(data: string): string;
+declare function atob(encoded: string): string;
+
+interface Utf8Codec {
+    encode(text: string): Uint8Array;
+    decode(data: Uint8Array): string;
+    /**
+     * @returns null if the data is not valid UTF-8
+     */
+    decodeStrict(data: Uint8Array): string | null;
+}
+
+function createTextCodec(): Utf8Codec {
+    const encoder = new TextEncoder();
+    // a BOM is content too, like in nodejs buffers
+    const decoder = new TextDecoder('utf-8', {ignoreBOM: true});
+    const strictDecoder = new TextDecoder('utf-8', {fatal: true, ignoreBOM: true});
+    return {
+        encode: text => encoder.encode(text),
+        decode: data => decoder.decode(data),
+        decodeStrict: data => {
+            try {
+                return strictDecoder.decode(data);
+            } catch (e) {
+                return null;
+            }
+        }
+    };
+}
+
+// for nodejs versions without TextEncoder
+function createBufferCodec(): Utf8Codec {
+    const toBuffer = (data: Uint8Array) => Buffer.from(data.buffer as ArrayBuffer, data.byteOffset, data.byteLength);
+    return {
+        encode: text => new Uint8Array(Buffer.from(text, 'utf8')),
+        decode: data => toBuffer(data).toString('utf8'),
+        decodeStrict: data => {
+            const buffer = toBuffer(data);
+            const text = buffer.toString('utf8');
+            // malformed sequences are replaced when decoding, so they don't survive the round trip
+            return Buffer.from(text, 'utf8').equals(buffer) ? text : null;
+        }
+    };
+}
+
+let utf8Codec: Utf8Codec | undefined;
+
+function getUtf8Codec(): Utf8Codec {
+    if (!utf8Codec) {
+        utf8Codec = typeof TextEncoder === 'function' ? createTextCodec() : createBufferCodec();
+    }
+    return utf8Codec;
+}
+
+export interface SerializedBinary {
+    base64: string;
+}
+
+export function encodeUtf8(text: string): Uint8Array {
+    return getUtf8Codec().encode(text);
+}
+
+/**
+ * decode UTF-8 bytes, replacing malformed sequences with U+FFFD
+ */
+export function decodeUtf8(data: Uint8Array): string {
+    return getUtf8Codec().decode(data);
+}
+
+export function isUtf8(data: Uint8Array): boolean {
+    return getUtf8Codec().decodeStrict(data) !== null;
+}
+
+/**
+ * @returns the text in the data if it is valid UTF-8, otherwise the data itself
+ */
+export function binaryToFileContent(data: Uint8Array): FileContent {
+    const text = getUtf8Codec().decodeStrict(data);
+    return text === null ? data : text;
+}
+
+export function fileContentToBinary(content: FileContent): Uint8Array {
+    return isBinaryContent(content) ? new Uint8Array(content) : encodeUtf8(content);
+}
+
+export function fileContentToText(content: FileContent): string {
+    return isBinaryContent(content) ? decodeUtf8(content) : content;
+}
+
+export function isSameContent(content: FileContent, otherContent: FileContent): boolean {
+    if (typeof content === 'string' && typeof otherContent === 'string') {
+        return content === otherContent;
+    }
+    const data = isBinaryContent(content) ? content : encodeUtf8(content);
+    const otherData = isBinaryContent(otherContent) ? otherContent : encodeUtf8(otherContent);
+    if (data.length !== otherData.length) {
+        return false;
+    }
+    for (let i = 0; i < data.length; i++) {
+        if (data[i] !== otherData[i]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * a short fingerprint of the content (not cryptographic), the same for text and for its UTF-8 bytes
+ */
+export function getContentVersion(content: FileContent): string {
+    const data = isBinaryContent(content) ? content : encodeUtf8(content);
+    // cyrb53
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < data.length; i++) {
+        h1 = Math.imul(h1 ^ data[i], 2654435761);
+        h2 = Math.imul(h2 ^ data[i], 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+    return `${data.length.toString(16)}-${hash.toString(16)}`;
+}
+
+export function encodeBase64(data: Uint8Array): string {
+    if (typeof Buffer === 'function') {
+        return Buffer.from(data.buffer as ArrayBuffer, data.byteOffset, data.byteLength).toString('base64');
+    }
+    let binary = '';
+    for (let i = 0; i < data.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, data.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+export function decodeBase64(encoded: string): Uint8Array {
+    if (typeof Buffer === 'function') {
+        return new Uint8Array(Buffer.from(encoded, 'base64'));
+    }
+    const binary = atob(encoded);
+    const result = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        result[i] = binary.charCodeAt(i);
+    }
+    return result;
+}
+
+function isSerializedBinary(value: any): value is SerializedBinary {
+    return !!value && typeof value === 'object' && typeof value.base64 === 'string' && Object.keys(value).length === 1;
+}
+
+/**
+ * replace binary data with a JSON-safe representation, for transports that can't carry binary data
+ */
+export function serializeBinary<T>(value: T | Uint8Array): T | SerializedBinary {
+    return isBinaryContent(value) ? {base64: encodeBase64(value)} : value;
+}
+
+export function deserializeBinary<T>(value: T | SerializedBinary): T | Uint8Array {
+    return isSerializedBinary(value) ? decodeBase64(value.base64) : value;
+}
+
+/**
+ * apply serializeBinary() to the content of an event (or of a batch operation), if it has any
+ */
+export function serializeEvent<E extends object>(event: E): E {
+    const newContent = (event as any).newContent;
+    return isBinaryContent(newContent) ? {...event as any, newContent: serializeBinary(newContent)} : event;
+}
+
+export function deserializeEvent<E extends object>(event: E): E {
+    const newContent = (event as any).newContent;
+    return isSerializedBinary(newContent) ? {...event as any, newContent: deserializeBinary(newContent)} : event;
+}
+
+/**
+ * restore the arguments of a FileSystem call that went through JSON: skipped (undefined) arguments turned into null,
+ * and only the content of saveBinaryFile() and of batch operations is binary
+ */
+export function deserializeArguments(method: string, args: any[]): any[] {
+    return args.map((arg, index) => {
+        if (arg === null) {
+            return undefined;
+        } else if (method === 'saveBinaryFile' && index === 1) {
+            return deserializeBinary(arg);
+        } else if (method === 'batch' && index === 0 && Array.isArray(arg)) {
+            return arg.map(deserializeEvent);
+        }
+        return arg;
+    });
+}
+
+/**
+ * restore the dates of stats that went through JSON
+ */
+export function deserializeStats(stats: SimpleStats): SimpleStats {
+    if (!stats || typeof stats !== 'object') {
+        return stats;
+    }
+    return {
+        ...stats,
+        mtime: new Date(stats.mtime),
+        ctime: new Date(stats.ctime),
+        birthtime: new Date(stats.birthtime)
+    };
+}
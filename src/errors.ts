@@ -0,0 +1,131 @@
+export type FileSystemErrorCode = 'ENOENT' | 'ENOTDIR' | 'EISDIR' | 'ENOTEMPTY' | 'EEXIST' | 'EINVAL' | 'ETIMEDOUT' | 'ECONFLICT' | 'EROFS';
+
+const fileSystemErrorCodes: FileSystemErrorCode[] = ['ENOENT', 'ENOTDIR', 'EISDIR', 'ENOTEMPTY', 'EEXIST', 'EINVAL', 'ETIMEDOUT', 'ECONFLICT', 'EROFS'];
+
+/**
+ * base class of errors thrown by file systems. branch on `code`, messages are for humans
+ */
+export class FileSystemError extends Error {
+    constructor(message: string, public readonly code: FileSystemErrorCode, public readonly path?: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class FileNotFoundError extends FileSystemError {
+    constructor(path: string, message = `No such file or directory '${path}'`) {
+        super(message, 'ENOENT', path);
+    }
+}
+
+export class NotADirectoryError extends FileSystemError {
+    constructor(path: string, message = `Not a directory '${path}'`) {
+        super(message, 'ENOTDIR', path);
+    }
+}
+
+export class IsADirectoryError extends FileSystemError {
+    constructor(path: string, message = `Is a directory '${path}'`) {
+        super(message, 'EISDIR', path);
+    }
+}
+
+export class DirectoryNotEmptyError extends FileSystemError {
+    constructor(path: string, message = `Directory not empty '${path}'`) {
+        super(message, 'ENOTEMPTY', path);
+    }
+}
+
+export class AlreadyExistsError extends FileSystemError {
+    constructor(path: string, message = `Already exists '${path}'`) {
+        super(message, 'EEXIST', path);
+    }
+}
+
+export class InvalidArgumentError extends FileSystemError {
+    constructor(path: string, message = `Invalid argument '${path}'`) {
+        super(message, 'EINVAL', path);
+    }
+}
+
+export class TimeoutError extends FileSystemError {
+    constructor(message: string, path?: string) {
+        super(message, 'ETIMEDOUT', path);
+    }
+}
+
+/**
+ * a write precondition (e.g. ifMatch) did not hold
+ */
+export class ConflictError extends FileSystemError {
+    constructor(path: string, message = `File was changed '${path}'`) {
+        super(message, 'ECONFLICT', path);
+    }
+}
+
+/**
+ * the file system does not accept writes
+ */
+export class ReadOnlyError extends FileSystemError {
+    constructor(path: string, message = `Read-only file system '${path}'`) {
+        super(message, 'EROFS', path);
+    }
+}
+
+export function isFileSystemErrorCode(code: any): code is FileSystemErrorCode {
+    return fileSystemErrorCodes.indexOf(code) !== -1;
+}
+
+export function isFileSystemError(error: any, code?: FileSystemErrorCode): error is FileSystemError {
+    return error instanceof FileSystemError && (!code || error.code === code);
+}
+
+export function createFileSystemError(code: FileSystemErrorCode, path: string, message?: string): FileSystemError {
+    switch (code) {
+        case 'ENOENT':
+            return new FileNotFoundError(path, message);
+        case 'ENOTDIR':
+            return new NotADirectoryError(path, message);
+        case 'EISDIR':
+            return new IsADirectoryError(path, message);
+        case 'ENOTEMPTY':
+            return new DirectoryNotEmptyError(path, message);
+        case 'EEXIST':
+            return new AlreadyExistsError(path, message);
+        case 'EINVAL':
+            return new InvalidArgumentError(path, message);
+        case 'ETIMEDOUT':
+            return new TimeoutError(message || `timed out '${path}'`, path);
+        case 'ECONFLICT':
+            return new ConflictError(path, message);
+        case 'EROFS':
+            return new ReadOnlyError(path, message);
+    }
+}
+
+export interface SerializedError {
+    message: string;
+    code?: FileSystemErrorCode;
+    path?: string;
+}
+
+/**
+ * JSON-safe representation of an error, for transports
+ */
+export function serializeError(error: any): SerializedError {
+    if (isFileSystemError(error)) {
+        const {message, code, path} = error;
+        return {message, code, path};
+    }
+    return {message: error && error.message !== undefined ? error.message : String(error)};
+}
+
+export function deserializeError(error: SerializedError | string): Error {
+    if (typeof error === 'string') {
+        return new Error(error);
+    }
+    if (isFileSystemErrorCode(error.code)) {
+        return createFileSystemError(error.code, error.path || '', error.message);
+    }
+    return new Error(error.message);
+}
@@ -0,0 +1,262 @@
+import {Directory, File, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Disposable,
+    Events,
+    FileSystem,
+    fileSystemEventNames,
+    FindFilesOptions,
+    isDisposable,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {createFileSystemError, FileSystemErrorCode} from './errors';
+import {matchGlob} from './glob';
+import {delayedPromise} from './promise-utils';
+import {InternalEventsEmitter, makeEventsEmitter} from './utils';
+import {getEventPaths, watchEvents} from './watch';
+
+export namespace FaultInjectingFileSystem {
+    /**
+     * milliseconds, or a [min, max] range to pick a random number of milliseconds from
+     */
+    export type Delay = number | [number, number];
+
+    export interface Fault {
+        /**
+         * default : all methods
+         */
+        methods?: Array<keyof FileSystem>;
+        /**
+         * globs of the paths a call is about. calls with no path (findFiles, searchText) match no globs
+         * default : all paths
+         */
+        paths?: string | string[];
+        /**
+         * added before the call is made
+         */
+        latency?: Delay;
+        /**
+         * chance (0 to 1) that the call fails instead of being made
+         * default : 0
+         */
+        failureRate?: number;
+        /**
+         * code of the FileSystemError of failed calls
+         * default : failed calls reject with a plain Error
+         */
+        errorCode?: FileSystemErrorCode;
+    }
+
+    export interface EventFault {
+        /**
+         * default : all events
+         */
+        types?: Array<keyof Events>;
+        /**
+         * globs of the paths an event is about
+         * default : all paths
+         */
+        paths?: string | string[];
+        /**
+         * chance (0 to 1) that an event is not emitted
+         * default : 0
+         */
+        dropRate?: number;
+        /**
+         * chance (0 to 1) that an event is emitted twice
+         * default : 0
+         */
+        duplicateRate?: number;
+        /**
+         * events are emitted synchronously unless delayed. random delays reorder events
+         */
+        delay?: Delay;
+    }
+
+    export interface Options {
+        faults?: Fault[];
+        eventFaults?: EventFault[];
+        /**
+         * runs with the same seed (and the same calls and events) inject the same faults
+         * default : a random seed
+         */
+        seed?: number;
+    }
+}
+
+/**
+ * mulberry32, a small seeded random numbers generator
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function matchPaths(patterns: string | string[] | undefined, paths: string[]): boolean {
+    return !patterns || paths.some(path => matchGlob(patterns, path));
+}
+
+/**
+ * wraps a file system with latency, failures and unreliable events, for testing how its users cope with them
+ */
+export class FaultInjectingFileSystem implements FileSystem, Disposable {
+    public readonly events: InternalEventsEmitter = makeEventsEmitter();
+    private readonly random: () => number;
+    private readonly eventTimers = new Set<NodeJS.Timer>();
+
+    constructor(private readonly fs: FileSystem, private readonly options: FaultInjectingFileSystem.Options = {}) {
+        this.random = createRandom(options.seed === undefined ? Math.floor(Math.random() * 4294967296) : options.seed);
+        fileSystemEventNames.forEach(type => this.fs.events.on(type, this.onEvent));
+    }
+
+    get baseUrl(): string {
+        return this.fs.baseUrl;
+    }
+
+    saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.call('saveFile', [fullPath], () => this.fs.saveFile(fullPath, newContent, correlation, options));
+    }
+
+    saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.call('saveBinaryFile', [fullPath], () => this.fs.saveBinaryFile(fullPath, newContent, correlation, options));
+    }
+
+    deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.call('deleteFile', [fullPath], () => this.fs.deleteFile(fullPath, correlation, options));
+    }
+
+    deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation> {
+        return this.call('deleteDirectory', [fullPath], () => this.fs.deleteDirectory(fullPath, recursive, correlation));
+    }
+
+    ensureDirectory(fullPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.call('ensureDirectory', [fullPath], () => this.fs.ensureDirectory(fullPath, correlation));
+    }
+
+    move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.call('move', [fromPath, toPath], () => this.fs.move(fromPath, toPath, correlation));
+    }
+
+    copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.call('copyFile', [fromPath, toPath], () => this.fs.copyFile(fromPath, toPath, correlation));
+    }
+
+    copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation> {
+        return this.call('copyDirectory', [fromPath, toPath], () => this.fs.copyDirectory(fromPath, toPath, options, correlation));
+    }
+
+    batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation> {
+        return this.call('batch', operations.map(({fullPath}) => fullPath), () => this.fs.batch(operations, correlation));
+    }
+
+    loadTextFile(fullPath: string): Promise<string> {
+        return this.call('loadTextFile', [fullPath], () => this.fs.loadTextFile(fullPath));
+    }
+
+    loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return this.call('loadTextFileWithVersion', [fullPath], () => this.fs.loadTextFileWithVersion(fullPath));
+    }
+
+    loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return this.call('loadBinaryFile', [fullPath], () => this.fs.loadBinaryFile(fullPath));
+    }
+
+    loadDirectoryTree(fullPath?: string): Promise<Directory> {
+        return this.call('loadDirectoryTree', [fullPath || ''], () => this.fs.loadDirectoryTree(fullPath));
+    }
+
+    loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]> {
+        return this.call('loadDirectoryChildren', [fullPath], () => this.fs.loadDirectoryChildren(fullPath));
+    }
+
+    stat(fullPath: string): Promise<SimpleStats> {
+        return this.call('stat', [fullPath], () => this.fs.stat(fullPath));
+    }
+
+    findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]> {
+        return this.call('findFiles', [], () => this.fs.findFiles(patterns, options));
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return this.call('searchText', [], () => this.fs.searchText(query, options));
+    }
+
+    /**
+     * watches see the events after their faults
+     */
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return watchEvents(this.events, pathOrGlob, listener, options);
+    }
+
+    /**
+     * delayed events that were not emitted yet are dropped
+     */
+    dispose() {
+        fileSystemEventNames.forEach(type => this.fs.events.removeListener(type, this.onEvent));
+        this.eventTimers.forEach(timer => clearTimeout(timer));
+        this.eventTimers.clear();
+        if (isDisposable(this.fs)) this.fs.dispose();
+    }
+
+    private async call<T>(method: keyof FileSystem, paths: string[], makeCall: () => Promise<T>): Promise<T> {
+        const faults = (this.options.faults || []).filter(fault =>
+            (!fault.methods || fault.methods.indexOf(method) !== -1) && matchPaths(fault.paths, paths));
+        for (const fault of faults) {
+            const latency = this.pickDelay(fault.latency);
+            if (latency) {
+                await delayedPromise(latency);
+            }
+            if (fault.failureRate && this.random() < fault.failureRate) {
+                const message = `Injected failure of ${method}(${paths.map(path => `'${path}'`).join(', ')})`;
+                throw fault.errorCode ? createFileSystemError(fault.errorCode, paths[0] || '', message) : new Error(message);
+            }
+        }
+        return makeCall();
+    }
+
+    private onEvent = (event: Events[keyof Events]) => {
+        const paths = getEventPaths(event);
+        const faults = (this.options.eventFaults || []).filter(fault =>
+            (!fault.types || fault.types.indexOf(event.type) !== -1) && matchPaths(fault.paths, paths));
+        let copies = 1;
+        let delay = 0;
+        for (const fault of faults) {
+            if (fault.dropRate && this.random() < fault.dropRate) {
+                return;
+            }
+            if (fault.duplicateRate && this.random() < fault.duplicateRate) {
+                copies++;
+            }
+            delay += this.pickDelay(fault.delay);
+        }
+        for (let i = 0; i < copies; i++) {
+            if (delay) {
+                const timer = setTimeout(() => {
+                    this.eventTimers.delete(timer);
+                    this.events.emit(event.type, event);
+                }, delay);
+                this.eventTimers.add(timer);
+            } else {
+                this.events.emit(event.type, event);
+            }
+        }
+    };
+
+    private pickDelay(delay: FaultInjectingFileSystem.Delay = 0): number {
+        return typeof delay === 'number' ? delay : delay[0] + this.random() * (delay[1] - delay[0]);
+    }
+}
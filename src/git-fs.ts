@@ -0,0 +1,308 @@
+import {execFile} from 'child_process';
+import {Directory, File, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Disposable,
+    Events,
+    FileSystem,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {FileNotFoundError, InvalidArgumentError, IsADirectoryError, NotADirectoryError, ReadOnlyError} from './errors';
+import {binaryToFileContent, decodeUtf8, getContentVersion} from './encoding';
+import {getPathNodes, InternalEventsEmitter, makeCorrelationId, makeEventsEmitter, normalizePathNodes} from './utils';
+import {createFileMatcher, findFilesInTree} from './glob';
+import {searchTextInFileSystem} from './search';
+import {watchEvents} from './watch';
+
+interface GitEntry {
+    type: 'file' | 'dir';
+    /**
+     * object id of the blob, tree or (for submodules) commit
+     */
+    id: string;
+    size: number;
+}
+
+interface Revision {
+    ref: string;
+    treeId: string;
+    time: Date;
+    entries: Map<string, GitEntry>;
+    children: Map<string, string[]>;
+}
+
+function runGit(cwd: string, args: string[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, {cwd, encoding: 'buffer', maxBuffer: 1024 * 1024 * 1024}, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(`git ${args.join(' ')} failed: ${stderr.toString().trim() || error.message}`));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * parses the output of `git ls-tree -r -t -l -z`
+ */
+function parseTreeListing(listing: Buffer): Revision['entries'] {
+    const entries: Revision['entries'] = new Map();
+    entries.set('', {type: 'dir', id: '', size: 0});
+    listing.toString('utf8').split('\0').filter(line => line).forEach(line => {
+        const tab = line.indexOf('\t');
+        const [, objectType, id, size] = line.slice(0, tab).split(/\s+/);
+        entries.set(line.slice(tab + 1), {
+            // submodules (commits) are shown as empty directories
+            type: objectType === 'blob' ? 'file' : 'dir',
+            id,
+            size: objectType === 'blob' ? parseInt(size, 10) : 0
+        });
+    });
+    return entries;
+}
+
+function getParentPath(fullPath: string): string {
+    return normalizePathNodes(getPathNodes(fullPath).slice(0, -1));
+}
+
+/**
+ * a read-only file system of a commit, branch or tree of a local git repository, read with the git binary
+ */
+export class GitFileSystem implements FileSystem, Disposable {
+    public readonly events: InternalEventsEmitter = makeEventsEmitter();
+    private revision: Revision | null = null;
+    private pendingCheckout: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @param baseUrl path of the repository (or of any directory in its working tree)
+     * @param ref anything git can resolve to a tree: commit, branch, tag or tree id
+     */
+    constructor(public readonly baseUrl: string, private readonly initialRef: string = 'HEAD') {
+    }
+
+    get ref(): string {
+        return this.revision ? this.revision.ref : this.initialRef;
+    }
+
+    async init(): Promise<this> {
+        this.revision = await this.loadRevision(this.initialRef);
+        return this;
+    }
+
+    /**
+     * switch to another revision, emitting the differences as events
+     */
+    checkout(ref: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const result = this.pendingCheckout.then(async () => {
+            const previous = this.getRevision();
+            const next = await this.loadRevision(ref);
+            this.revision = next;
+            for (const event of await this.diff(previous, next, correlation)) {
+                this.events.emit(event.type, event);
+            }
+            return correlation;
+        });
+        this.pendingCheckout = result.catch(() => undefined);
+        return result;
+    }
+
+    dispose() {
+        this.events.removeAllListeners();
+    }
+
+    saveFile(fullPath: string, _newContent: string, _correlation?: Correlation, _options?: WriteOptions): Promise<Correlation> {
+        return this.rejectWrite(fullPath);
+    }
+
+    saveBinaryFile(fullPath: string, _newContent: Uint8Array, _correlation?: Correlation, _options?: WriteOptions): Promise<Correlation> {
+        return this.rejectWrite(fullPath);
+    }
+
+    deleteFile(fullPath: string, _correlation?: Correlation, _options?: WriteOptions): Promise<Correlation> {
+        return this.rejectWrite(fullPath);
+    }
+
+    deleteDirectory(fullPath: string, _recursive?: boolean, _correlation?: Correlation): Promise<Correlation> {
+        return this.rejectWrite(fullPath);
+    }
+
+    ensureDirectory(fullPath: string, _correlation?: Correlation): Promise<Correlation> {
+        return this.rejectWrite(fullPath);
+    }
+
+    move(fromPath: string, _toPath: string, _correlation?: Correlation): Promise<Correlation> {
+        return this.rejectWrite(fromPath);
+    }
+
+    copyFile(_fromPath: string, toPath: string, _correlation?: Correlation): Promise<Correlation> {
+        return this.rejectWrite(toPath);
+    }
+
+    copyDirectory(_fromPath: string, toPath: string, _options?: CopyDirectoryOptions, _correlation?: Correlation): Promise<Correlation> {
+        return this.rejectWrite(toPath);
+    }
+
+    batch(operations: BatchOperation[], _correlation?: Correlation): Promise<Correlation> {
+        return this.rejectWrite(operations.length ? operations[0].fullPath : '');
+    }
+
+    async loadTextFile(fullPath: string): Promise<string> {
+        return decodeUtf8(await this.loadBinaryFile(fullPath));
+    }
+
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        const data = await this.loadBinaryFile(fullPath);
+        return {content: decodeUtf8(data), version: getContentVersion(data)};
+    }
+
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        const entry = this.getEntry(fullPath);
+        if (entry.type === 'dir') {
+            throw new IsADirectoryError(fullPath);
+        }
+        return new Uint8Array(await runGit(this.baseUrl, ['cat-file', 'blob', entry.id]));
+    }
+
+    async loadDirectoryTree(fullPath: string = ''): Promise<Directory> {
+        const dirPath = this.getDirectoryPath(fullPath);
+        const revision = this.getRevision();
+        const build = (path: string): Directory => new Directory(getPathNodes(path).pop() || '', path,
+            this.getChildPaths(revision, path).map(childPath => revision.entries.get(childPath)!.type === 'dir' ?
+                build(childPath) :
+                new File(getPathNodes(childPath).pop()!, childPath)));
+        return build(dirPath);
+    }
+
+    async loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]> {
+        const dirPath = this.getDirectoryPath(fullPath);
+        const revision = this.getRevision();
+        return this.getChildPaths(revision, dirPath).map(childPath => {
+            const name = getPathNodes(childPath).pop()!;
+            return revision.entries.get(childPath)!.type === 'dir' ? new ShallowDirectory(name, childPath) : new File(name, childPath);
+        });
+    }
+
+    async stat(fullPath: string): Promise<SimpleStats> {
+        const {type, size} = this.getEntry(fullPath);
+        const {time} = this.getRevision();
+        return {type, size, mtime: time, ctime: time, birthtime: time};
+    }
+
+    async findFiles(patterns: string | string[], options: FindFilesOptions = {}): Promise<string[]> {
+        return findFilesInTree(await this.loadDirectoryTree(options.cwd || ''), createFileMatcher(patterns, options.ignore));
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return searchTextInFileSystem(this, query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return watchEvents(this.events, pathOrGlob, listener, options);
+    }
+
+    private rejectWrite(fullPath: string): Promise<Correlation> {
+        return Promise.reject(new ReadOnlyError(fullPath, `Git revision '${this.ref}' is read-only '${fullPath}'`));
+    }
+
+    private getRevision(): Revision {
+        if (!this.revision) {
+            throw new Error(`GitFileSystem of '${this.baseUrl}' is used before init()`);
+        }
+        return this.revision;
+    }
+
+    private getEntry(fullPath: string): GitEntry {
+        const entry = this.getRevision().entries.get(normalizePathNodes(getPathNodes(fullPath)));
+        if (!entry) {
+            throw new FileNotFoundError(fullPath);
+        }
+        return entry;
+    }
+
+    private getDirectoryPath(fullPath: string): string {
+        if (this.getEntry(fullPath).type !== 'dir') {
+            throw new NotADirectoryError(fullPath);
+        }
+        return normalizePathNodes(getPathNodes(fullPath));
+    }
+
+    private getChildPaths(revision: Revision, dirPath: string): string[] {
+        return revision.children.get(dirPath) || [];
+    }
+
+    private async loadRevision(ref: string): Promise<Revision> {
+        let treeId: string;
+        try {
+            if (ref.startsWith('-')) {
+                throw new Error('not a revision');
+            }
+            treeId = (await runGit(this.baseUrl, ['rev-parse', '--verify', `${ref}^{tree}`])).toString().trim();
+        } catch (e) {
+            throw new InvalidArgumentError(ref, `Unknown git revision '${ref}'`);
+        }
+        let time = new Date();
+        try {
+            const commitTime = (await runGit(this.baseUrl, ['log', '-1', '--format=%ct', `${ref}^{commit}`])).toString().trim();
+            time = new Date(parseInt(commitTime, 10) * 1000);
+        } catch (e) {
+            // a tree has no commit time
+        }
+        const entries = parseTreeListing(await runGit(this.baseUrl, ['ls-tree', '-r', '-t', '-l', '-z', treeId]));
+        const children: Revision['children'] = new Map();
+        Array.from(entries.keys()).sort().forEach(fullPath => {
+            if (fullPath) {
+                const parentPath = getParentPath(fullPath);
+                children.set(parentPath, (children.get(parentPath) || []).concat(fullPath));
+            }
+        });
+        return {ref, treeId, time, entries, children};
+    }
+
+    private async diff(previous: Revision, next: Revision, correlation: Correlation): Promise<Array<Events[keyof Events]>> {
+        const events: Array<Events[keyof Events]> = [];
+        const isReplaced = (fullPath: string) => {
+            const oldEntry = previous.entries.get(fullPath);
+            const newEntry = next.entries.get(fullPath);
+            return !!oldEntry && (!newEntry || newEntry.type !== oldEntry.type);
+        };
+        Array.from(previous.entries.keys()).sort().forEach(fullPath => {
+            if (fullPath && isReplaced(fullPath)) {
+                if (previous.entries.get(fullPath)!.type === 'dir') {
+                    events.push({type: 'directoryDeleted', fullPath, correlation});
+                } else {
+                    events.push({type: 'fileDeleted', fullPath, correlation});
+                }
+            }
+        });
+        for (const fullPath of Array.from(next.entries.keys()).sort()) {
+            const newEntry = next.entries.get(fullPath)!;
+            const oldEntry = previous.entries.get(fullPath);
+            if (!fullPath || (oldEntry && oldEntry.type === newEntry.type && oldEntry.id === newEntry.id)) {
+                continue;
+            }
+            if (newEntry.type === 'dir') {
+                if (!oldEntry || oldEntry.type !== 'dir') {
+                    events.push({type: 'directoryCreated', fullPath, correlation});
+                }
+                continue;
+            }
+            const newContent = binaryToFileContent(new Uint8Array(await runGit(this.baseUrl, ['cat-file', 'blob', newEntry.id])));
+            if (oldEntry && oldEntry.type === 'file') {
+                events.push({type: 'fileChanged', fullPath, newContent, correlation});
+            } else {
+                events.push({type: 'fileCreated', fullPath, newContent, correlation});
+            }
+        }
+        return events;
+    }
+}
@@ -0,0 +1,195 @@
+import {Directory, isDir, isFile} from './model';
+import {getPathNodes} from './utils';
+
+// minimal glob support: `*`, `?`, `[...]`, `{a,b}` and `**` (zero or more directories).
+// dot files are not treated specially.
+
+const GLOBSTAR = '**';
+
+type Segment = RegExp | typeof GLOBSTAR;
+
+export interface FileMatcher {
+    /**
+     * @param relativePath path of a file, relative to the directory the patterns are relative to
+     */
+    matchFile(relativePath: string): boolean;
+
+    /**
+     * can files inside this directory match? false for ignored directories
+     */
+    matchDirectory(relativePath: string): boolean;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+}
+
+function findClosingBrace(pattern: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < pattern.length; i++) {
+        if (pattern[i] === '{') {
+            depth++;
+        } else if (pattern[i] === '}' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function splitAlternatives(body: string): string[] {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < body.length; i++) {
+        if (body[i] === '{') {
+            depth++;
+        } else if (body[i] === '}') {
+            depth--;
+        } else if (body[i] === ',' && depth === 0) {
+            alternatives.push(body.slice(start, i));
+            start = i + 1;
+        }
+    }
+    alternatives.push(body.slice(start));
+    return alternatives;
+}
+
+/**
+ * expand `{a,b}` alternatives, as they may contain path separators
+ */
+export function expandBraces(pattern: string): string[] {
+    for (let start = pattern.indexOf('{'); start !== -1; start = pattern.indexOf('{', start + 1)) {
+        const end = findClosingBrace(pattern, start);
+        if (end === -1) {
+            break;
+        }
+        const alternatives = splitAlternatives(pattern.slice(start + 1, end));
+        if (alternatives.length > 1) {
+            const prefix = pattern.slice(0, start);
+            const suffixes = expandBraces(pattern.slice(end + 1));
+            const result: string[] = [];
+            alternatives.forEach(alternative => expandBraces(alternative).forEach(expanded =>
+                suffixes.forEach(suffix => result.push(prefix + expanded + suffix))));
+            return result;
+        }
+    }
+    return [pattern];
+}
+
+function segmentToRegExp(segment: string): RegExp {
+    let source = '';
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+        if (char === '*') {
+            source += '.*';
+        } else if (char === '?') {
+            source += '.';
+        } else if (char === '[' && segment.indexOf(']', i + 2) !== -1) {
+            const end = segment.indexOf(']', i + 2);
+            const body = segment.slice(i + 1, end).replace(/\\/g, '\\\\');
+            source += body[0] === '!' ? `[^${body.slice(1)}]` : `[${body}]`;
+            i = end;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function compilePattern(pattern: string): Segment[] {
+    return getPathNodes(pattern)
+        .filter(segment => segment !== '.')
+        .map(segment => segment === GLOBSTAR ? GLOBSTAR : segmentToRegExp(segment));
+}
+
+function matchSegments(pattern: Segment[], path: string[], patternIndex = 0, pathIndex = 0): boolean {
+    if (patternIndex === pattern.length) {
+        return pathIndex === path.length;
+    }
+    const segment = pattern[patternIndex];
+    if (segment === GLOBSTAR) {
+        for (let i = pathIndex; i <= path.length; i++) {
+            if (matchSegments(pattern, path, patternIndex + 1, i)) {
+                return true;
+            }
+        }
+        return false;
+    }
+    return pathIndex < path.length && segment.test(path[pathIndex]) && matchSegments(pattern, path, patternIndex + 1, pathIndex + 1);
+}
+
+/**
+ * can the pattern match a path that starts with the given directory path?
+ */
+function matchSegmentsPrefix(pattern: Segment[], path: string[]): boolean {
+    for (let i = 0; i < path.length; i++) {
+        const segment = pattern[i];
+        if (segment === GLOBSTAR) {
+            return true;
+        }
+        if (!segment || !segment.test(path[i])) {
+            return false;
+        }
+    }
+    return pattern.length > path.length;
+}
+
+function compilePatterns(patterns: string | string[]): Segment[][] {
+    const result: Segment[][] = [];
+    (typeof patterns === 'string' ? [patterns] : patterns).forEach(pattern =>
+        expandBraces(pattern).forEach(expanded => result.push(compilePattern(expanded))));
+    return result;
+}
+
+export function matchGlob(patterns: string | string[], path: string): boolean {
+    const pathNodes = getPathNodes(path);
+    return compilePatterns(patterns).some(pattern => matchSegments(pattern, pathNodes));
+}
+
+/**
+ * @param ignore patterns of files and directories to exclude. a file is excluded if any of its parent directories is
+ */
+export function createFileMatcher(patterns: string | string[], ignore: string | string[] = []): FileMatcher {
+    const include = compilePatterns(patterns);
+    const exclude = compilePatterns(ignore);
+    const isIgnored = (pathNodes: string[]) => {
+        for (let length = 1; length <= pathNodes.length; length++) {
+            const subPath = pathNodes.slice(0, length);
+            if (exclude.some(pattern => matchSegments(pattern, subPath))) {
+                return true;
+            }
+        }
+        return false;
+    };
+    return {
+        matchFile(relativePath: string) {
+            const pathNodes = getPathNodes(relativePath);
+            return include.some(pattern => matchSegments(pattern, pathNodes)) && !isIgnored(pathNodes);
+        },
+        matchDirectory(relativePath: string) {
+            const pathNodes = getPathNodes(relativePath);
+            return include.some(pattern => matchSegmentsPrefix(pattern, pathNodes)) && !isIgnored(pathNodes);
+        }
+    };
+}
+
+/**
+ * @returns the full paths of the files in the directory tree that the matcher matches, sorted
+ */
+export function findFilesInTree(directory: Directory, matcher: FileMatcher): string[] {
+    const result: string[] = [];
+    const visit = (dir: Directory, relativePath: string) => {
+        dir.children.forEach(child => {
+            const childPath = relativePath ? `${relativePath}/${child.name}` : child.name;
+            if (isFile(child)) {
+                if (matcher.matchFile(childPath)) {
+                    result.push(child.fullPath);
+                }
+            } else if (isDir(child) && matcher.matchDirectory(childPath)) {
+                visit(child, childPath);
+            }
+        });
+    };
+    visit(directory, '');
+    return result.sort();
+}
@@ -0,0 +1,438 @@
+import {Directory, File, FileContent, isBinaryContent, isDir, pathSeparator, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Disposable,
+    EventEmitter,
+    FileSystem,
+    FindFilesOptions,
+    isDisposable,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {isFileSystemError} from './errors';
+import {binaryToFileContent, isSameContent} from './encoding';
+import {getPathNodes, makeCorrelationId, normalizePathNodes} from './utils';
+
+export namespace HistoryFileSystem {
+    /**
+     * a file with its content, a directory with everything in it, or nothing
+     */
+    export type NodeState =
+        { type: 'file', content: FileContent } |
+        { type: 'dir', children: { [name: string]: NodeState } } |
+        null;
+
+    export type Change = StateChange | MoveChange;
+
+    export interface StateChange {
+        type: 'state';
+        fullPath: string;
+        before: NodeState;
+        after: NodeState;
+    }
+
+    /**
+     * moves are recorded as such, rather than by the content they moved
+     */
+    export interface MoveChange {
+        type: 'move';
+        fromPath: string;
+        toPath: string;
+        /**
+         * the highest parent directory of the target that the move created
+         */
+        createdDirectory: string | null;
+    }
+
+    /**
+     * the changes of all the mutations that shared a correlation
+     */
+    export interface Step {
+        correlation: Correlation;
+        changes: Change[];
+    }
+
+    export interface Options {
+        /**
+         * the number of steps that can be undone
+         * default : 100
+         */
+        limit?: number;
+    }
+}
+
+type NodeState = HistoryFileSystem.NodeState;
+
+function isInDirectory(fullPath: string, directoryPath: string): boolean {
+    return !directoryPath || (fullPath + pathSeparator).startsWith(directoryPath + pathSeparator);
+}
+
+function isSameState(a: NodeState, b: NodeState): boolean {
+    if (!a || !b) {
+        return a === b;
+    } else if (a.type === 'file' || b.type === 'file') {
+        return a.type === 'file' && b.type === 'file' && isSameContent(a.content, b.content);
+    }
+    const names = Object.keys(a.children);
+    return names.length === Object.keys(b.children).length &&
+        names.every(name => name in b.children && isSameState(a.children[name], b.children[name]));
+}
+
+async function getNodeType(fs: FileSystem, fullPath: string): Promise<'file' | 'dir' | null> {
+    if (!getPathNodes(fullPath).length) {
+        return 'dir';
+    }
+    try {
+        return (await fs.stat(fullPath)).type;
+    } catch (e) {
+        if (isFileSystemError(e, 'ENOENT') || isFileSystemError(e, 'ENOTDIR')) {
+            return null;
+        }
+        throw e;
+    }
+}
+
+async function captureState(fs: FileSystem, fullPath: string): Promise<NodeState> {
+    const type = await getNodeType(fs, fullPath);
+    if (!type) {
+        return null;
+    } else if (type === 'file') {
+        return {type: 'file', content: binaryToFileContent(await fs.loadBinaryFile(fullPath))};
+    }
+    const children: { [name: string]: NodeState } = {};
+    for (const child of await fs.loadDirectoryChildren(fullPath)) {
+        children[child.name] = await captureState(fs, child.fullPath);
+    }
+    return {type: 'dir', children};
+}
+
+async function writeState(fs: FileSystem, fullPath: string, current: NodeState, target: NodeState, correlation: Correlation) {
+    if (isSameState(current, target)) {
+        return;
+    }
+    if (current && (!target || current.type !== target.type)) {
+        if (current.type === 'dir') {
+            await fs.deleteDirectory(fullPath, true, correlation);
+        } else {
+            await fs.deleteFile(fullPath, correlation);
+        }
+        current = null;
+    }
+    if (!target) {
+        return;
+    } else if (target.type === 'file') {
+        if (isBinaryContent(target.content)) {
+            await fs.saveBinaryFile(fullPath, target.content, correlation);
+        } else {
+            await fs.saveFile(fullPath, target.content, correlation);
+        }
+    } else {
+        if (!current) {
+            await fs.ensureDirectory(fullPath, correlation);
+        }
+        const currentChildren = current && current.type === 'dir' ? current.children : {};
+        for (const name of Object.keys(currentChildren)) {
+            if (!(name in target.children)) {
+                await writeState(fs, normalizePathNodes([fullPath, name]), currentChildren[name], null, correlation);
+            }
+        }
+        for (const name of Object.keys(target.children)) {
+            await writeState(fs, normalizePathNodes([fullPath, name]), currentChildren[name] || null, target.children[name], correlation);
+        }
+    }
+}
+
+/**
+ * records the mutations made through it, so that they can be undone and redone.
+ * mutations that share a correlation are undone together. mutations made directly on the wrapped file system are not
+ * recorded, and are overridden by undo and redo of the paths they share with recorded mutations
+ */
+export class HistoryFileSystem implements FileSystem, Disposable {
+    private readonly undoSteps: HistoryFileSystem.Step[] = [];
+    private readonly redoSteps: HistoryFileSystem.Step[] = [];
+    // mutations are recorded one at a time, so that the states of one don't include changes of another
+    private queue: Promise<any> = Promise.resolve();
+
+    constructor(private readonly fs: FileSystem, private readonly options: HistoryFileSystem.Options = {}) {
+    }
+
+    get events(): EventEmitter {
+        return this.fs.events;
+    }
+
+    get baseUrl(): string {
+        return this.fs.baseUrl;
+    }
+
+    /**
+     * the steps that can be undone, oldest first
+     */
+    get history(): ReadonlyArray<HistoryFileSystem.Step> {
+        return this.undoSteps;
+    }
+
+    get canUndo(): boolean {
+        return this.undoSteps.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoSteps.length > 0;
+    }
+
+    /**
+     * restore the state before the last step, with the events of the restoring mutations
+     */
+    undo(correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        return this.enqueue(async () => {
+            const step = this.undoSteps[this.undoSteps.length - 1];
+            if (!step) {
+                throw new Error(`Nothing to undo`);
+            }
+            for (const change of step.changes.slice().reverse()) {
+                if (change.type === 'move') {
+                    await this.fs.move(change.toPath, change.fromPath, correlation);
+                    if (change.createdDirectory) {
+                        await this.fs.deleteDirectory(change.createdDirectory, true, correlation);
+                    }
+                } else {
+                    await writeState(this.fs, change.fullPath, await captureState(this.fs, change.fullPath), change.before, correlation);
+                }
+            }
+            this.undoSteps.pop();
+            this.redoSteps.push(step);
+            return correlation;
+        });
+    }
+
+    redo(correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        return this.enqueue(async () => {
+            const step = this.redoSteps[this.redoSteps.length - 1];
+            if (!step) {
+                throw new Error(`Nothing to redo`);
+            }
+            for (const change of step.changes) {
+                if (change.type === 'move') {
+                    await this.fs.move(change.fromPath, change.toPath, correlation);
+                } else {
+                    await writeState(this.fs, change.fullPath, await captureState(this.fs, change.fullPath), change.after, correlation);
+                }
+            }
+            this.redoSteps.pop();
+            this.undoSteps.push(step);
+            return correlation;
+        });
+    }
+
+    saveFile(fullPath: string, newContent: string, correlation: Correlation = makeCorrelationId(), options?: WriteOptions): Promise<Correlation> {
+        return this.record(correlation, () => [this.getWriteRoot(fullPath)], () => this.fs.saveFile(fullPath, newContent, correlation, options));
+    }
+
+    saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation: Correlation = makeCorrelationId(), options?: WriteOptions): Promise<Correlation> {
+        return this.record(correlation, () => [this.getWriteRoot(fullPath)], () => this.fs.saveBinaryFile(fullPath, newContent, correlation, options));
+    }
+
+    deleteFile(fullPath: string, correlation: Correlation = makeCorrelationId(), options?: WriteOptions): Promise<Correlation> {
+        return this.record(correlation, () => [this.getDeletionRoot(fullPath, 'file')], () => this.fs.deleteFile(fullPath, correlation, options));
+    }
+
+    deleteDirectory(fullPath: string, recursive?: boolean, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        return this.record(correlation, () => [this.getDeletionRoot(fullPath, 'dir', recursive)], () => this.fs.deleteDirectory(fullPath, recursive, correlation));
+    }
+
+    ensureDirectory(fullPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        return this.record(correlation, () => [this.getWriteRoot(fullPath)], () => this.fs.ensureDirectory(fullPath, correlation));
+    }
+
+    move(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        return this.enqueue(async () => {
+            const toPathArr = getPathNodes(toPath);
+            const parentPath = normalizePathNodes(toPathArr.slice(0, toPathArr.length - 1));
+            const createdDirectory = await getNodeType(this.fs, parentPath) ? null : await this.getWriteRoot(parentPath);
+            const result = await this.fs.move(fromPath, toPath, correlation);
+            this.addChanges(correlation, [{
+                type: 'move',
+                fromPath: normalizePathNodes(getPathNodes(fromPath)),
+                toPath: normalizePathNodes(toPathArr),
+                createdDirectory
+            }]);
+            return result;
+        });
+    }
+
+    copyFile(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        return this.record(correlation, () => [this.getWriteRoot(toPath)], () => this.fs.copyFile(fromPath, toPath, correlation));
+    }
+
+    copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        return this.record(correlation, () => this.getCopyRoots(fromPath, toPath), () => this.fs.copyDirectory(fromPath, toPath, options, correlation));
+    }
+
+    batch(operations: BatchOperation[], correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const getRoots = () => operations.map(operation => {
+            switch (operation.type) {
+                case 'deleteFile':
+                    return this.getDeletionRoot(operation.fullPath, 'file');
+                case 'deleteDirectory':
+                    return this.getDeletionRoot(operation.fullPath, 'dir', operation.recursive);
+                default:
+                    return this.getWriteRoot(operation.fullPath);
+            }
+        });
+        return this.record(correlation, getRoots, () => this.fs.batch(operations, correlation));
+    }
+
+    loadTextFile(fullPath: string): Promise<string> {
+        return this.fs.loadTextFile(fullPath);
+    }
+
+    loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return this.fs.loadTextFileWithVersion(fullPath);
+    }
+
+    loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return this.fs.loadBinaryFile(fullPath);
+    }
+
+    loadDirectoryTree(fullPath?: string): Promise<Directory> {
+        return this.fs.loadDirectoryTree(fullPath);
+    }
+
+    loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]> {
+        return this.fs.loadDirectoryChildren(fullPath);
+    }
+
+    stat(fullPath: string): Promise<SimpleStats> {
+        return this.fs.stat(fullPath);
+    }
+
+    findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]> {
+        return this.fs.findFiles(patterns, options);
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return this.fs.searchText(query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return this.fs.watch(pathOrGlob, listener, options);
+    }
+
+    dispose() {
+        if (isDisposable(this.fs)) this.fs.dispose();
+    }
+
+    private enqueue<T>(action: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(action);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * what a write of a file or a directory to the path may change: the highest directory it creates, or the path itself.
+     * null when the path is an existing directory, which such writes don't change
+     */
+    private async getWriteRoot(fullPath: string): Promise<string | null> {
+        const pathArr = getPathNodes(fullPath);
+        let root = normalizePathNodes(pathArr);
+        const type = await getNodeType(this.fs, root);
+        if (type) {
+            return type === 'dir' ? null : root;
+        }
+        for (let length = pathArr.length - 1; length > 0; length--) {
+            const parentPath = normalizePathNodes(pathArr.slice(0, length));
+            if (await getNodeType(this.fs, parentPath)) {
+                break;
+            }
+            root = parentPath;
+        }
+        return root;
+    }
+
+    /**
+     * the path, if a deletion can succeed there
+     */
+    private async getDeletionRoot(fullPath: string, type: 'file' | 'dir', recursive?: boolean): Promise<string | null> {
+        if (await getNodeType(this.fs, fullPath) !== type) {
+            return null;
+        } else if (type === 'dir' && !recursive && (await this.fs.loadDirectoryChildren(fullPath)).length) {
+            return null;
+        }
+        return fullPath;
+    }
+
+    /**
+     * the write roots of the files (and empty directories) of the source in the target, which is all that a copy changes
+     */
+    private async getCopyRoots(fromPath: string, toPath: string): Promise<Array<Promise<string | null>>> {
+        let source: Directory;
+        try {
+            source = await this.fs.loadDirectoryTree(fromPath);
+        } catch (e) {
+            // the copy fails too
+            return [];
+        }
+        const targetPaths: string[] = [];
+        const collect = (directory: Directory, targetPath: string) => {
+            if (!directory.children.length) {
+                targetPaths.push(targetPath);
+            }
+            directory.children.forEach(child => {
+                const childPath = normalizePathNodes([targetPath, child.name]);
+                if (isDir(child)) {
+                    collect(child, childPath);
+                } else {
+                    targetPaths.push(childPath);
+                }
+            });
+        };
+        collect(source, normalizePathNodes(getPathNodes(toPath)));
+        return targetPaths.map(fullPath => this.getWriteRoot(fullPath));
+    }
+
+    /**
+     * @param getRoots paths that the mutation may change. only their states are kept
+     */
+    private record(correlation: Correlation,
+                   getRoots: () => Array<Promise<string | null>> | Promise<Array<Promise<string | null>>>,
+                   mutate: () => Promise<Correlation>): Promise<Correlation> {
+        return this.enqueue(async () => {
+            const allPaths = (await Promise.all(await getRoots()))
+                .filter((path): path is string => path !== null)
+                .map(path => normalizePathNodes(getPathNodes(path)));
+            // nested paths are covered by the states of their directories
+            const roots = allPaths.filter((path, index) =>
+                allPaths.every((other, otherIndex) => other === path ? otherIndex >= index : !isInDirectory(path, other)));
+            const before = await Promise.all(roots.map(fullPath => captureState(this.fs, fullPath)));
+            const result = await mutate();
+            const after = await Promise.all(roots.map(fullPath => captureState(this.fs, fullPath)));
+            const changes = roots
+                .map((fullPath, index): HistoryFileSystem.Change => ({type: 'state', fullPath, before: before[index], after: after[index]}))
+                .filter(change => change.type === 'state' && !isSameState(change.before, change.after));
+            if (changes.length) {
+                this.addChanges(correlation, changes);
+            }
+            return result;
+        });
+    }
+
+    private addChanges(correlation: Correlation, changes: HistoryFileSystem.Change[]) {
+        this.redoSteps.length = 0;
+        const lastStep = this.undoSteps[this.undoSteps.length - 1];
+        if (lastStep && lastStep.correlation === correlation) {
+            lastStep.changes.push(...changes);
+        } else {
+            this.undoSteps.push({correlation, changes});
+            const {limit = 100} = this.options;
+            if (this.undoSteps.length > limit) {
+                this.undoSteps.splice(0, this.undoSteps.length - limit);
+            }
+        }
+    }
+}
@@ -0,0 +1,284 @@
+import {ClientRequest, IncomingMessage, request} from 'http';
+import {parse} from 'url';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    FileSystem,
+    fileSystemEventNames,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {InternalEventsEmitter, makeCorrelationId, makeEventsEmitter} from './utils';
+import {httpEventsSentHeader, httpEventsStreamHeader} from './constants';
+import {deserializeBinary, deserializeEvent, deserializeStats, serializeBinary, serializeEvent} from './encoding';
+import {timeoutPromise} from './promise-utils';
+import {deserializeError} from './errors';
+import {Directory, File, ShallowDirectory, SimpleStats} from './model';
+
+export const noHttpConnectionError = `HttpClientFileSystem hasn't opened its events stream yet (forgot to init()?).`;
+
+function readResponse(response: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => body += chunk);
+        response.on('end', () => {
+            try {
+                resolve(JSON.parse(body));
+            } catch (e) {
+                reject(new Error(`Unexpected response (${response.statusCode}): ${body}`));
+            }
+        });
+        response.on('error', reject);
+    });
+}
+
+/**
+ * open a Server-Sent Events stream. resolves once the server accepts it, with its response (to read its headers) and
+ * its request (to abort() it)
+ */
+function openEventStream(url: string, onEvent: (type: string, data: any) => void, onEnd: (error: Error, streamRequest: ClientRequest) => void)
+    : Promise<{ streamRequest: ClientRequest, response: IncomingMessage }> {
+    return new Promise((resolve, reject) => {
+        const streamRequest = request({...parse(url), headers: {'Accept': 'text/event-stream'}}, response => {
+            if (response.statusCode !== 200) {
+                readResponse(response).then(error => reject(deserializeError(error)), reject);
+                return;
+            }
+            resolve({streamRequest, response});
+            let buffer = '';
+            response.setEncoding('utf8');
+            response.on('data', (chunk: string) => {
+                buffer += chunk;
+                let end = buffer.indexOf('\n\n');
+                while (end !== -1) {
+                    let type = 'message';
+                    const data: string[] = [];
+                    buffer.slice(0, end).split('\n').forEach(line => {
+                        if (line.startsWith('event:')) {
+                            type = line.slice(6).trim();
+                        } else if (line.startsWith('data:')) {
+                            data.push(line.slice(5).replace(/^ /, ''));
+                        }
+                    });
+                    buffer = buffer.slice(end + 2);
+                    end = buffer.indexOf('\n\n');
+                    if (data.length) {
+                        onEvent(type, JSON.parse(data.join('\n')));
+                    }
+                }
+            });
+            response.on('end', () => onEnd(new Error(`Event stream ${url} ended`), streamRequest));
+        });
+        streamRequest.on('error', error => {
+            reject(error);
+            onEnd(error, streamRequest);
+        });
+        streamRequest.end();
+    });
+}
+
+/**
+ * a client of httpServerOverFs()
+ */
+export class HttpClientFileSystem implements FileSystem {
+    public readonly events: InternalEventsEmitter = makeEventsEmitter();
+    private eventStream?: ClientRequest;
+    private streamId?: string;
+    private received = 0;
+    // calls that wait for the events sent before their result
+    private pendingResults: Array<{ sent: number, resolve: () => void }> = [];
+    private watches = new Map<string, WatchListener>();
+
+    constructor(public baseUrl: string, private initTimeout: number = 5000) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    async init(): Promise<HttpClientFileSystem> {
+        const {baseUrl, initTimeout} = this;
+        const {streamRequest, response} = await timeoutPromise(openEventStream(`${baseUrl}/events`,
+            (type, data) => this.onEvent(type, data),
+            (error, streamRequest) => this.onStreamEnd(streamRequest, error)
+        ), initTimeout, `Cant't open the events stream of the HTTP server at ${baseUrl} for ${initTimeout}ms.`);
+        this.eventStream = streamRequest;
+        this.streamId = response.headers[httpEventsStreamHeader] as string;
+        return this;
+    }
+
+    async saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async saveFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('saveFile', args);
+    }
+
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async saveBinaryFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('saveBinaryFile', args);
+    }
+
+    async deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async deleteFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('deleteFile', args);
+    }
+
+    async deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation>;
+    async deleteDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('deleteDirectory', args);
+    }
+
+    async ensureDirectory(fullPath: string, correlation?: Correlation): Promise<Correlation>;
+    async ensureDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('ensureDirectory', args);
+    }
+
+    async move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+    async move(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('move', args);
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+    async copyFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('copyFile', args);
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation>;
+    async copyDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('copyDirectory', args);
+    }
+
+    async batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation>;
+    async batch(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('batch', args);
+    }
+
+    async loadTextFile(fullPath: string): Promise<string>;
+    async loadTextFile(...args: any[]): Promise<string> {
+        return this.call<string>('loadTextFile', args);
+    }
+
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile>;
+    async loadTextFileWithVersion(...args: any[]): Promise<VersionedTextFile> {
+        return this.call<VersionedTextFile>('loadTextFileWithVersion', args);
+    }
+
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array>;
+    async loadBinaryFile(...args: any[]): Promise<Uint8Array> {
+        return deserializeBinary(await this.call<Uint8Array>('loadBinaryFile', args));
+    }
+
+    async loadDirectoryTree(fullPath?: string): Promise<Directory>;
+    async loadDirectoryTree(...args: any[]): Promise<Directory> {
+        return this.call<Directory>('loadDirectoryTree', args);
+    }
+
+    async loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]>;
+    async loadDirectoryChildren(...args: any[]): Promise<(File | ShallowDirectory)[]> {
+        return this.call<(File | ShallowDirectory)[]>('loadDirectoryChildren', args);
+    }
+
+    async stat(fullPath: string): Promise<SimpleStats>;
+    async stat(...args: any[]): Promise<SimpleStats> {
+        return deserializeStats(await this.call<SimpleStats>('stat', args));
+    }
+
+    async findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]>;
+    async findFiles(...args: any[]): Promise<string[]> {
+        return this.call<string[]>('findFiles', args);
+    }
+
+    async searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]>;
+    async searchText(...args: any[]): Promise<TextSearchMatch[]> {
+        return this.call<TextSearchMatch[]>('searchText', args);
+    }
+
+    /**
+     * events are filtered by the server
+     */
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        if (!this.eventStream) {
+            throw new Error(noHttpConnectionError);
+        }
+        const id = makeCorrelationId() + makeCorrelationId();
+        this.watches.set(id, listener);
+        const watching = this.call('watch', [id, pathOrGlob, options]);
+        const ready = watching.then(() => undefined);
+        ready.catch(error => this.events.emit('unexpectedError', {type: 'unexpectedError', fullPath: pathOrGlob, stack: error.stack}));
+        return {
+            ready,
+            dispose: () => {
+                if (this.watches.delete(id) && this.eventStream) {
+                    watching.then(() => this.call('unwatch', [id])).catch(() => undefined);
+                }
+            }
+        };
+    }
+
+    dispose() {
+        const {eventStream} = this;
+        if (eventStream) {
+            this.eventStream = undefined;
+            eventStream.abort();
+        }
+        this.releasePendingResults(Infinity);
+    }
+
+    private onEvent(type: string, data: any) {
+        this.received++;
+        if (type === 'watch') {
+            const listener = this.watches.get(data.id);
+            if (listener) {
+                listener(deserializeEvent(data.event));
+            }
+        } else if ((fileSystemEventNames as string[]).indexOf(type) !== -1) {
+            this.events.emit(type, deserializeEvent(data));
+        }
+        this.releasePendingResults(this.received);
+    }
+
+    private onStreamEnd(streamRequest: ClientRequest, error: Error) {
+        if (this.eventStream === streamRequest) {
+            this.eventStream = undefined;
+            this.releasePendingResults(Infinity);
+            this.events.emit('unexpectedError', {type: 'unexpectedError', stack: error.stack});
+        }
+    }
+
+    private releasePendingResults(received: number) {
+        this.pendingResults = this.pendingResults.filter(({sent, resolve}) => sent > received || void resolve());
+    }
+
+    private async call<T>(method: string, args: any[]): Promise<T> {
+        if (!this.eventStream || this.streamId === undefined) {
+            throw new Error(noHttpConnectionError);
+        }
+        // JSON keeps arrays, so batch operations and patterns are serialized item by item
+        const body = JSON.stringify(args.map(arg => Array.isArray(arg) ? arg.map(serializeEvent) : serializeBinary(arg)));
+        const {response, result} = await new Promise<{ response: IncomingMessage, result: any }>((resolve, reject) => {
+            const callRequest = request({
+                ...parse(`${this.baseUrl}/${method}`),
+                method: 'POST',
+                headers: {
+                    [httpEventsStreamHeader]: this.streamId,
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body)
+                }
+            }, response => readResponse(response).then(result => resolve({response, result}), reject));
+            callRequest.on('error', reject);
+            callRequest.end(body);
+        });
+        const sent = Number(response.headers[httpEventsSentHeader]);
+        if (sent > this.received && this.eventStream) {
+            await new Promise<void>(resolve => this.pendingResults.push({sent, resolve}));
+        }
+        if (response.statusCode !== 200) {
+            throw deserializeError(result);
+        }
+        return result;
+    }
+}
@@ -0,0 +1,209 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from 'http';
+import {Socket} from 'net';
+import {parse} from 'url';
+import {Disposable, FileSystem, fileSystemAsyncMethods, fileSystemEventNames, isDisposable} from './api';
+import {httpEventsSentHeader, httpEventsStreamHeader} from './constants';
+import {deserializeArguments, serializeBinary, serializeEvent} from './encoding';
+import {serializeError} from './errors';
+
+export interface HttpFsServer {
+    server: Server;
+
+    /**
+     * stop listening, end the open event streams and dispose the file system
+     */
+    close(): Promise<void>;
+}
+
+export namespace HttpFsServer {
+    export interface Options {
+        /**
+         * origins (e.g. `http://localhost:8080`) of web pages that may call the server, other than the server itself.
+         * requests from other origins are rejected
+         */
+        allowedOrigins?: string[];
+        /**
+         * in bytes, larger requests are rejected
+         * default : 50MB
+         */
+        maxBodySize?: number;
+    }
+}
+
+interface EventStream {
+    send(type: string, data: any): void;
+    sent: number;
+    watches: Map<string, Disposable>;
+}
+
+/**
+ * @returns null when the body is larger than maxSize, the rest of it is not read
+ */
+function readBody(request: IncomingMessage, maxSize: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const onData = (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxSize) {
+                request.removeListener('data', onData);
+                resolve(null);
+            } else {
+                chunks.push(chunk);
+            }
+        };
+        request.on('data', onData);
+        request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        request.on('error', reject);
+    });
+}
+
+function isJsonRequest(request: IncomingMessage): boolean {
+    const contentType = request.headers['content-type'] || '';
+    return contentType.split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+function respond(response: ServerResponse, status: number, body: any, headers: { [name: string]: string } = {}) {
+    response.writeHead(status, {...headers, 'Content-Type': 'application/json', 'Cache-Control': 'no-cache'});
+    response.end(body === undefined ? 'null' : JSON.stringify(body));
+}
+
+/**
+ * serve a file system over HTTP:
+ *  - `GET /events` opens a Server-Sent Events stream of all fileSystemEventNames, its id is in the response headers
+ *  - `POST /<method>` calls one of fileSystemAsyncMethods with the JSON array in the body as arguments
+ *  - `POST /watch` and `POST /unwatch` start and stop a FileSystem.watch(), its events are sent as `watch` events of
+ *  the events stream named by the request headers
+ *
+ * a request that names an events stream is answered with the number of events sent to that stream so far, so that
+ * the client can hold the result back until the events of the action arrive (they don't share a connection)
+ *
+ * calls must be sent as `application/json`, so that web pages can't make them without the consent of the server (see
+ * the allowedOrigins option)
+ */
+export function httpServerOverFs(fs: FileSystem, port = 3000, options: HttpFsServer.Options = {}): Promise<HttpFsServer> {
+    const {allowedOrigins = [], maxBodySize = 50 * 1024 * 1024} = options;
+    const sockets = new Set<Socket>();
+    const streams = new Map<string, EventStream>();
+    let nextStreamId = 0;
+
+    function openEventStream(request: IncomingMessage, response: ServerResponse) {
+        const id = String(nextStreamId++);
+        const stream: EventStream = {
+            send(type, data) {
+                stream.sent++;
+                response.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+            },
+            sent: 0,
+            watches: new Map()
+        };
+        const listeners = fileSystemEventNames.map(type => {
+            const listener = (data: any) => stream.send(type, serializeEvent(data));
+            fs.events.on(type, listener);
+            return {type, listener};
+        });
+        const close = () => {
+            if (streams.delete(id)) {
+                listeners.forEach(({type, listener}) => fs.events.removeListener(type, listener));
+                stream.watches.forEach(watch => watch.dispose());
+            }
+        };
+        request.on('close', close);
+        response.on('close', close);
+        streams.set(id, stream);
+        response.writeHead(200, {
+            [httpEventsStreamHeader]: id,
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+        // a comment line, so that clients (and proxies) see the stream open right away
+        response.write(':\n\n');
+    }
+
+    async function call(route: string, args: any[], stream?: EventStream): Promise<any> {
+        if (route !== 'watch' && route !== 'unwatch') {
+            return serializeBinary(await (fs as any)[route](...deserializeArguments(route, args)));
+        }
+        if (!stream) {
+            throw new Error(`${route} requires an open events stream`);
+        }
+        // the client picks the id of the watch
+        const [id, pathOrGlob, options] = args;
+        const watch = stream.watches.get(id);
+        if (watch) {
+            watch.dispose();
+            stream.watches.delete(id);
+        }
+        if (route === 'watch') {
+            const newWatch = fs.watch(pathOrGlob, event => stream.send('watch', {id, event: serializeEvent(event)}), options || undefined);
+            stream.watches.set(id, newWatch);
+            await newWatch.ready;
+        }
+        return null;
+    }
+
+    // browsers send the origin of cross-origin requests, other clients don't send it at all
+    function isAllowedOrigin(request: IncomingMessage): boolean {
+        const {origin} = request.headers;
+        return typeof origin !== 'string' || parse(origin).host === request.headers.host || allowedOrigins.indexOf(origin) !== -1;
+    }
+
+    const server = createServer(async (request, response) => {
+        const route = (request.url || '').split('?')[0].replace(/^\/+/, '');
+        try {
+            if (!isAllowedOrigin(request)) {
+                respond(response, 403, {message: `Origin ${request.headers.origin} is not allowed`});
+            } else if (request.method === 'GET' && route === 'events') {
+                openEventStream(request, response);
+            } else if (request.method === 'POST' && (route === 'watch' || route === 'unwatch' || (fileSystemAsyncMethods as string[]).indexOf(route) !== -1)) {
+                if (!isJsonRequest(request)) {
+                    respond(response, 415, {message: `Content-Type must be application/json`});
+                    return;
+                }
+                const body = await readBody(request, maxBodySize);
+                if (body === null) {
+                    respond(response, 413, {message: `Request body is larger than ${maxBodySize} bytes`});
+                    return;
+                }
+                const streamId = request.headers[httpEventsStreamHeader];
+                const stream = typeof streamId === 'string' ? streams.get(streamId) : undefined;
+                let status = 200;
+                let result: any;
+                try {
+                    result = await call(route, body ? JSON.parse(body) : [], stream);
+                } catch (e) {
+                    status = 500;
+                    result = serializeError(e);
+                }
+                respond(response, status, result, stream ? {[httpEventsSentHeader]: String(stream.sent)} : {});
+            } else {
+                respond(response, 404, {message: `Unknown endpoint ${request.method} /${route}`});
+            }
+        } catch (e) {
+            respond(response, 500, serializeError(e));
+        }
+    });
+
+    server.on('connection', (socket: Socket) => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+    });
+
+    const close = () => new Promise<void>(resolve => {
+        server.close(() => resolve());
+        // event streams never end by themselves
+        sockets.forEach(socket => socket.destroy());
+        if (isDisposable(fs)) {
+            fs.dispose();
+        }
+    });
+
+    return new Promise<HttpFsServer>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+            server.removeListener('error', reject);
+            resolve({server, close});
+        });
+    });
+}
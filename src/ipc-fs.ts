@@ -0,0 +1,121 @@
+import {Disposable, FileSystem} from './api';
+import {deserializeBinary, serializeBinary} from './encoding';
+import {isBinaryContent} from './model';
+import {exposeFileSystem, MessagePortFileSystem, MessagePortLike} from './message-port-fs';
+
+/**
+ * the IPC channel of a forked child process (`ChildProcess`) or of the forked process itself (`process`)
+ */
+export interface IpcChannel {
+    connected: boolean;
+
+    send?(message: any): any;
+
+    on(event: string, listener: (...args: any[]) => void): any;
+
+    removeListener(event: string, listener: (...args: any[]) => void): any;
+}
+
+/**
+ * IPC messages go through JSON, so binary content and dates are replaced with JSON-safe representations
+ */
+function encode(value: any): any {
+    if (isBinaryContent(value)) {
+        return serializeBinary(value);
+    } else if (value instanceof Date) {
+        return {isoDate: value.toISOString()};
+    } else if (Array.isArray(value)) {
+        return value.map(encode);
+    } else if (value && typeof value === 'object') {
+        const result: any = {};
+        Object.keys(value).forEach(key => result[key] = encode(value[key]));
+        return result;
+    }
+    return value;
+}
+
+function decode(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(decode);
+    } else if (value && typeof value === 'object') {
+        const keys = Object.keys(value);
+        if (keys.length === 1 && typeof value.isoDate === 'string') {
+            return new Date(value.isoDate);
+        } else if (keys.length === 1 && typeof value.base64 === 'string') {
+            return deserializeBinary(value);
+        }
+        const result: any = {};
+        keys.forEach(key => result[key] = decode(value[key]));
+        return result;
+    }
+    return value;
+}
+
+/**
+ * adapt an IPC channel to the MessagePort protocol of exposeFileSystem() and MessagePortFileSystem
+ */
+function toMessagePort(channel: IpcChannel): MessagePortLike {
+    const wrappers = new Map<(message: any) => void, (message: any) => void>();
+    return {
+        postMessage(message: any) {
+            if (channel.connected && channel.send) {
+                channel.send(encode(message));
+            }
+        },
+        on(_event: 'message', listener: (message: any) => void) {
+            const wrapper = (message: any) => {
+                const decoded = decode(message);
+                if (decoded && decoded.kissfs === 'call') {
+                    // JSON turns skipped (undefined) arguments into null
+                    decoded.args = decoded.args.map((arg: any) => arg === null ? undefined : arg);
+                }
+                listener(decoded);
+            };
+            wrappers.set(listener, wrapper);
+            channel.on('message', wrapper);
+        },
+        removeListener(_event: 'message', listener: (message: any) => void) {
+            const wrapper = wrappers.get(listener);
+            if (wrapper) {
+                wrappers.delete(listener);
+                channel.removeListener('message', wrapper);
+            }
+        }
+    };
+}
+
+/**
+ * serve a file system to an IpcClientFileSystem on the other side of the channel, until disposed or until the
+ * channel is closed (e.g. the child process exits). doesn't dispose the file system
+ */
+export function exposeFileSystemOverIpc(fs: FileSystem, channel: IpcChannel): Disposable {
+    const exposed = exposeFileSystem(fs, toMessagePort(channel));
+    const dispose = () => {
+        channel.removeListener('disconnect', dispose);
+        channel.removeListener('exit', dispose);
+        exposed.dispose();
+    };
+    channel.on('disconnect', dispose);
+    channel.on('exit', dispose);
+    return {dispose};
+}
+
+/**
+ * a client of exposeFileSystemOverIpc() on the other side of the channel. disposed when the channel is closed
+ */
+export class IpcClientFileSystem extends MessagePortFileSystem {
+    private readonly onDisconnect = () => this.dispose();
+
+    /**
+     * @param channel defaults to the channel of this (forked) process to its parent
+     */
+    constructor(private channel: IpcChannel = process, baseUrl = 'ipc') {
+        super(toMessagePort(channel), baseUrl);
+        channel.on('disconnect', this.onDisconnect);
+    }
+
+    dispose() {
+        this.channel.removeListener('disconnect', this.onDisconnect);
+        super.dispose();
+    }
+}
@@ -0,0 +1,260 @@
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Disposable,
+    FileSystem,
+    fileSystemEventNames,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {InternalEventsEmitter, makeCorrelationId, makeEventsEmitter} from './utils';
+import {deserializeBinary, deserializeEvent, deserializeStats, serializeBinary, serializeEvent} from './encoding';
+import {timeoutPromise} from './promise-utils';
+import {deserializeError} from './errors';
+import {Directory, File, ShallowDirectory, SimpleStats} from './model';
+
+export const noJsonRpcConnectionError = `JsonRpcClientFileSystem hasn't opened connection yet (forgot to init()?).`;
+
+export interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    method: string;
+    params?: any[];
+    /**
+     * missing in notifications
+     */
+    id?: number | string | null;
+}
+
+export interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: number | string | null;
+    result?: any;
+    error?: {
+        code: number;
+        message: string;
+        /**
+         * a SerializedError
+         */
+        data?: any;
+    };
+}
+
+/**
+ * the part of the WebSocket API that is used, implemented by browsers and by the `ws` package
+ */
+export interface WebSocketLike {
+    onopen: ((event: any) => void) | null;
+    onmessage: ((event: any) => void) | null;
+    onclose: ((event: any) => void) | null;
+    onerror: ((event: any) => void) | null;
+
+    send(data: string): void;
+
+    close(): void;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+declare const WebSocket: WebSocketConstructor | undefined;
+
+/**
+ * a client of jsonRpcServerOverFs()
+ */
+export class JsonRpcClientFileSystem implements FileSystem, Disposable {
+    public readonly events: InternalEventsEmitter = makeEventsEmitter();
+    private socket?: WebSocketLike;
+    private nextId = 0;
+    private pendingCalls = new Map<number, { resolve: (result: any) => void, reject: (error: Error) => void }>();
+    private watches = new Map<string, WatchListener>();
+
+    /**
+     * @param webSocket WebSocket implementation, defaults to the global one. in node, pass the `ws` package
+     */
+    constructor(public baseUrl: string, private initTimeout: number = 5000,
+                private webSocket: WebSocketConstructor | undefined = typeof WebSocket === 'undefined' ? undefined : WebSocket) {
+    }
+
+    init(): Promise<JsonRpcClientFileSystem> {
+        const {baseUrl, initTimeout, webSocket} = this;
+        if (!webSocket) {
+            return Promise.reject(new Error(`No WebSocket implementation, pass one to JsonRpcClientFileSystem`));
+        }
+        return timeoutPromise(new Promise<JsonRpcClientFileSystem>((resolve, reject) => {
+            const socket = new webSocket(baseUrl);
+            socket.onopen = () => {
+                this.socket = socket;
+                resolve(this);
+            };
+            socket.onerror = event => reject(event && event.error || new Error(`Can't connect to ${baseUrl}`));
+            socket.onmessage = ({data}) => this.onMessage(JSON.parse(String(data)));
+            socket.onclose = () => {
+                if (this.socket === socket) {
+                    this.socket = undefined;
+                }
+                this.pendingCalls.forEach(({reject}) => reject(new Error(`Connection to ${baseUrl} closed`)));
+                this.pendingCalls.clear();
+            };
+        }), initTimeout, `Cant't open connection to the JSON-RPC server at ${baseUrl} for ${initTimeout}ms.`);
+    }
+
+    async saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async saveFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('saveFile', args);
+    }
+
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async saveBinaryFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('saveBinaryFile', args);
+    }
+
+    async deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async deleteFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('deleteFile', args);
+    }
+
+    async deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation>;
+    async deleteDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('deleteDirectory', args);
+    }
+
+    async ensureDirectory(fullPath: string, correlation?: Correlation): Promise<Correlation>;
+    async ensureDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('ensureDirectory', args);
+    }
+
+    async move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+    async move(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('move', args);
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+    async copyFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('copyFile', args);
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation>;
+    async copyDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('copyDirectory', args);
+    }
+
+    async batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation>;
+    async batch(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('batch', args);
+    }
+
+    async loadTextFile(fullPath: string): Promise<string>;
+    async loadTextFile(...args: any[]): Promise<string> {
+        return this.call<string>('loadTextFile', args);
+    }
+
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile>;
+    async loadTextFileWithVersion(...args: any[]): Promise<VersionedTextFile> {
+        return this.call<VersionedTextFile>('loadTextFileWithVersion', args);
+    }
+
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array>;
+    async loadBinaryFile(...args: any[]): Promise<Uint8Array> {
+        return deserializeBinary(await this.call<Uint8Array>('loadBinaryFile', args));
+    }
+
+    async loadDirectoryTree(fullPath?: string): Promise<Directory>;
+    async loadDirectoryTree(...args: any[]): Promise<Directory> {
+        return this.call<Directory>('loadDirectoryTree', args);
+    }
+
+    async loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]>;
+    async loadDirectoryChildren(...args: any[]): Promise<(File | ShallowDirectory)[]> {
+        return this.call<(File | ShallowDirectory)[]>('loadDirectoryChildren', args);
+    }
+
+    async stat(fullPath: string): Promise<SimpleStats>;
+    async stat(...args: any[]): Promise<SimpleStats> {
+        return deserializeStats(await this.call<SimpleStats>('stat', args));
+    }
+
+    async findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]>;
+    async findFiles(...args: any[]): Promise<string[]> {
+        return this.call<string[]>('findFiles', args);
+    }
+
+    async searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]>;
+    async searchText(...args: any[]): Promise<TextSearchMatch[]> {
+        return this.call<TextSearchMatch[]>('searchText', args);
+    }
+
+    /**
+     * events are filtered by the server
+     */
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        if (!this.socket) {
+            throw new Error(noJsonRpcConnectionError);
+        }
+        const id = makeCorrelationId() + makeCorrelationId();
+        this.watches.set(id, listener);
+        const watching = this.call('watch', [id, pathOrGlob, options]);
+        const ready = watching.then(() => undefined);
+        ready.catch(error => this.events.emit('unexpectedError', {type: 'unexpectedError', fullPath: pathOrGlob, stack: error.stack}));
+        return {
+            ready,
+            dispose: () => {
+                if (this.watches.delete(id) && this.socket) {
+                    watching.then(() => this.call('unwatch', [id])).catch(() => undefined);
+                }
+            }
+        };
+    }
+
+    dispose() {
+        const {socket} = this;
+        if (socket) {
+            this.socket = undefined;
+            socket.close();
+        }
+    }
+
+    private onMessage(message: JsonRpcRequest | JsonRpcResponse) {
+        if ('method' in message) {
+            const params = message.params || [];
+            if (message.method === 'watch') {
+                const listener = this.watches.get(params[0]);
+                if (listener) {
+                    listener(deserializeEvent(params[1]));
+                }
+            } else if ((fileSystemEventNames as string[]).indexOf(message.method) !== -1) {
+                this.events.emit(message.method, deserializeEvent(params[0]));
+            }
+        } else {
+            const pendingCall = this.pendingCalls.get(message.id as number);
+            if (pendingCall) {
+                this.pendingCalls.delete(message.id as number);
+                if (message.error) {
+                    pendingCall.reject(deserializeError(message.error.data || message.error.message));
+                } else {
+                    pendingCall.resolve(message.result);
+                }
+            }
+        }
+    }
+
+    private call<T>(method: string, args: any[]): Promise<T> {
+        const {socket} = this;
+        if (!socket) {
+            return Promise.reject(new Error(noJsonRpcConnectionError));
+        }
+        const id = this.nextId++;
+        // JSON keeps arrays, so batch operations and patterns are serialized item by item
+        const params = args.map(arg => Array.isArray(arg) ? arg.map(serializeEvent) : serializeBinary(arg));
+        const request: JsonRpcRequest = {jsonrpc: '2.0', id, method, params};
+        return new Promise<T>((resolve, reject) => {
+            this.pendingCalls.set(id, {resolve, reject});
+            socket.send(JSON.stringify(request));
+        });
+    }
+}
@@ -0,0 +1,145 @@
+import {IncomingMessage} from 'http';
+import {parse} from 'url';
+import WebSocket, {Server} from 'ws';
+import {Disposable, FileSystem, FileSystemAsyncMethod, fileSystemAsyncMethods, fileSystemEventNames, isDisposable} from './api';
+import {deserializeArguments, serializeBinary, serializeEvent} from './encoding';
+import {serializeError} from './errors';
+import {JsonRpcRequest, JsonRpcResponse} from './json-rpc-client-fs';
+
+export interface JsonRpcFsServer {
+    server: Server;
+
+    /**
+     * stop listening, close the open connections and dispose the file system
+     */
+    close(): Promise<void>;
+}
+
+export namespace JsonRpcFsServer {
+    export interface Options {
+        /**
+         * origins (e.g. `http://localhost:8080`) of web pages that may connect to the server, other than the server itself.
+         * connections from other origins are refused
+         */
+        allowedOrigins?: string[];
+    }
+}
+
+// error codes of the JSON-RPC 2.0 spec
+const parseError = -32700;
+const invalidRequest = -32600;
+const methodNotFound = -32601;
+const serverError = -32000;
+
+function isFileSystemAsyncMethod(method: string): method is FileSystemAsyncMethod {
+    return (fileSystemAsyncMethods as string[]).indexOf(method) !== -1;
+}
+
+/**
+ * serve a file system as JSON-RPC 2.0 over WebSocket:
+ *  - requests call fileSystemAsyncMethods, with the arguments as positional params
+ *  - fileSystemEventNames are pushed to every connection as notifications, with the event as the only param
+ *  - `watch` and `unwatch` requests (params: [id, pathOrGlob, options] and [id]) start and stop a FileSystem.watch(),
+ *  its events are pushed as `watch` notifications (params: [id, event])
+ * connections are accepted from clients that send no origin (not browsers), from the server's own origin and from the
+ * allowedOrigins option
+ */
+export function jsonRpcServerOverFs(fs: FileSystem, port = 3000, options: JsonRpcFsServer.Options = {}): Promise<JsonRpcFsServer> {
+    const {allowedOrigins = []} = options;
+
+    function isAllowedOrigin({origin, req}: { origin?: string, req: IncomingMessage }): boolean {
+        return typeof origin !== 'string' || parse(origin).host === req.headers.host || allowedOrigins.indexOf(origin) !== -1;
+    }
+
+    function onConnection(socket: WebSocket) {
+        const watches = new Map<string, Disposable>();
+        const notify = (method: string, params: any[]) => socket.readyState === WebSocket.OPEN &&
+            socket.send(JSON.stringify({jsonrpc: '2.0', method, params}));
+        const listeners = fileSystemEventNames.map(type => {
+            const listener = (event: any) => notify(type, [serializeEvent(event)]);
+            fs.events.on(type, listener);
+            return {type, listener};
+        });
+
+        async function call(method: FileSystemAsyncMethod, params: any[]): Promise<any> {
+            const fsMethod = fs[method] as (...args: any[]) => Promise<any>;
+            return serializeBinary(await fsMethod.apply(fs, deserializeArguments(method, params)));
+        }
+
+        async function setWatch(method: 'watch' | 'unwatch', params: any[]): Promise<null> {
+            // the client picks the id of the watch
+            const [id, pathOrGlob, options] = params;
+            const watch = watches.get(id);
+            if (watch) {
+                watch.dispose();
+                watches.delete(id);
+            }
+            if (method === 'watch') {
+                const newWatch = fs.watch(pathOrGlob, event => notify('watch', [id, serializeEvent(event)]), options || undefined);
+                watches.set(id, newWatch);
+                await newWatch.ready;
+            }
+            return null;
+        }
+
+        async function handle(request: JsonRpcRequest): Promise<JsonRpcResponse | null> {
+            const id = request && request.id !== undefined ? request.id : null;
+            if (!request || request.jsonrpc !== '2.0' || typeof request.method !== 'string' || (request.params !== undefined && !Array.isArray(request.params))) {
+                return {jsonrpc: '2.0', id, error: {code: invalidRequest, message: 'Invalid Request'}};
+            }
+            const {method, params = []} = request;
+            let response: JsonRpcResponse;
+            if (method !== 'watch' && method !== 'unwatch' && !isFileSystemAsyncMethod(method)) {
+                response = {jsonrpc: '2.0', id, error: {code: methodNotFound, message: `Method not found: ${method}`}};
+            } else {
+                try {
+                    const result = method === 'watch' || method === 'unwatch' ? await setWatch(method, params) : await call(method, params);
+                    response = {jsonrpc: '2.0', id, result};
+                } catch (e) {
+                    const data = serializeError(e);
+                    response = {jsonrpc: '2.0', id, error: {code: serverError, message: data.message, data}};
+                }
+            }
+            return request.id === undefined ? null : response;
+        }
+
+        socket.on('message', async (message: string) => {
+            let request: JsonRpcRequest | JsonRpcRequest[];
+            try {
+                request = JSON.parse(message);
+            } catch (e) {
+                socket.send(JSON.stringify({jsonrpc: '2.0', id: null, error: {code: parseError, message: 'Parse error'}}));
+                return;
+            }
+            const response = Array.isArray(request) ?
+                (await Promise.all(request.map(handle))).filter(batchResponse => batchResponse) :
+                await handle(request);
+            if (response && (!Array.isArray(response) || response.length) && socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify(response));
+            }
+        });
+
+        socket.on('close', () => {
+            listeners.forEach(({type, listener}) => fs.events.removeListener(type, listener));
+            watches.forEach(watch => watch.dispose());
+        });
+    }
+
+    return new Promise<JsonRpcFsServer>((resolve, reject) => {
+        const server = new Server({port, verifyClient: isAllowedOrigin}, () => {
+            server.removeListener('error', reject);
+            resolve({
+                server,
+                close: () => new Promise<void>(resolveClose => {
+                    server.clients.forEach(client => client.terminate());
+                    server.close(() => resolveClose());
+                    if (isDisposable(fs)) {
+                        fs.dispose();
+                    }
+                })
+            });
+        });
+        server.once('error', reject);
+        server.on('connection', onConnection);
+    });
+}
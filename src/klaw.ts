@@ -2,7 +2,8 @@ import path from 'path';
 import klaw from 'klaw';
 import {readFileSync} from 'fs-extra';
 import {MemoryFileSystem} from './memory-fs';
-import {pathSeparator} from './model';
+import {isBinaryContent, pathSeparator} from './model';
+import {binaryToFileContent} from './encoding';
 
 export const KLAW_SHALLOW_OPTIONS = {depthLimit: 0};
 
@@ -13,7 +14,12 @@ export function klawItemsToMemFs(items: ReadonlyArray<klaw.Item>, baseUrl: strin
         if (item.stats.isDirectory()) {
             memFs.ensureDirectorySync(itemPath);
         } else if (item.stats.isFile()) {
-            memFs.saveFileSync(itemPath, readFile ? readFileSync(item.path, 'utf8') : '');
+            const content = readFile ? binaryToFileContent(readFileSync(item.path)) : '';
+            if (isBinaryContent(content)) {
+                memFs.saveBinaryFileSync(itemPath, content);
+            } else {
+                memFs.saveFileSync(itemPath, content);
+            }
         } else {
             console.warn(`unknown node type at ${itemPath}`, item);
         }
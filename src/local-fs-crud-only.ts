@@ -1,23 +1,66 @@
-import {access, ensureDir, readFile, readFileSync, remove, rmdir, stat, statSync, writeFile} from 'fs-extra';
+import {access, copy, ensureDir, pathExists, readFile, readFileSync, remove, rename, rmdir, stat, statSync, writeFile} from 'fs-extra';
 import * as path from 'path';
-import {Directory, DirectoryContent, File, ShallowDirectory, SimpleStats} from './model';
+import {Directory, DirectoryContent, File, pathSeparator, ShallowDirectory, SimpleStats} from './model';
+import {CopyDirectoryOptions, FindFilesOptions, SearchTextOptions, TextSearchMatch, VersionedTextFile} from './api';
+import {getContentVersion, isUtf8} from './encoding';
 import {getPathNodes} from './utils';
+import {createFileMatcher} from './glob';
+import {TextSearch} from './search';
 import {KLAW_SHALLOW_OPTIONS, klawAsPromised, klawItemsToMemFs} from './klaw';
 import klawSync from 'klaw-sync';
 import {Stats} from 'fs';
+import {
+    AlreadyExistsError,
+    ConflictError,
+    createFileSystemError,
+    InvalidArgumentError,
+    IsADirectoryError,
+    isFileSystemError,
+    isFileSystemErrorCode,
+    NotADirectoryError
+} from './errors';
+
+function toRelativePath(baseUrl: string, fullPath: string) {
+    return path.relative(baseUrl, fullPath).split(path.sep).join(pathSeparator);
+}
+
+/**
+ * node's errors carry absolute paths (when they carry a path at all), translate the ones we have codes for
+ */
+function toFileSystemError(error: any, baseUrl: string, relPath: string) {
+    if (error && !isFileSystemError(error) && isFileSystemErrorCode(error.code)) {
+        return createFileSystemError(error.code, typeof error.path === 'string' ? toRelativePath(baseUrl, error.path) : relPath);
+    }
+    return error;
+}
+
+/**
+ * like ensureDir(), but reports a file in the way as ENOTDIR
+ */
+async function ensureDirectoryPath(baseUrl: string, fullPath: string) {
+    try {
+        await ensureDir(fullPath);
+    } catch (e) {
+        if (e.code === 'EEXIST') {
+            throw new NotADirectoryError(toRelativePath(baseUrl, e.path || fullPath));
+        }
+        throw e;
+    }
+}
 
 function statToSimpleStat(nodeStat: Stats, fullPath:string): SimpleStats{
+    const {size, mtime, ctime, birthtime} = nodeStat;
     if (nodeStat.isDirectory()) {
-        return {type: 'dir'};
+        return {type: 'dir', size, mtime, ctime, birthtime};
     } else if (nodeStat.isFile()) {
-        return {type: 'file'};
+        return {type: 'file', size, mtime, ctime, birthtime};
     }
-    throw new Error(`Unsupported type ${fullPath}`);
+    throw new InvalidArgumentError(fullPath, `Unsupported type ${fullPath}`);
 }
 
 async function getStatsForDeletion(baseUrl:string, relPath:string){
     if (!relPath) {
-        throw new Error(`Can't delete root directory`);
+        throw new InvalidArgumentError(relPath, `Can't delete root directory`);
     }
     const fullPath = path.join(baseUrl, relPath);
     try {
@@ -29,94 +72,338 @@ async function getStatsForDeletion(baseUrl:string, relPath:string){
 }
 
 export class LocalFileSystemCrudOnly {
+    private readonly pathLocks = new Map<string, Promise<void>>();
 
     constructor(public baseUrl: string) {
     }
 
+    /**
+     * run the action after the actions of the same path that were started before it are done,
+     * so that a version check and the write that follows it are not interleaved with other writes of the path
+     */
+    withPathLock<T>(relPath: string, action: () => Promise<T>): Promise<T> {
+        const key = path.join(this.baseUrl, relPath);
+        const result = (this.pathLocks.get(key) || Promise.resolve()).then(action);
+        const done = result.then(() => undefined, () => undefined);
+        this.pathLocks.set(key, done);
+        done.then(() => this.pathLocks.get(key) === done && this.pathLocks.delete(key));
+        return result;
+    }
+
+    /**
+     * like withPathLock(), for all of the paths. the locks are always taken in the same order, so that actions locking
+     * the same paths don't wait for each other forever
+     */
+    withPathLocks<T>(relPaths: string[], action: () => Promise<T>): Promise<T> {
+        const keys = new Map<string, string>();
+        relPaths.forEach(relPath => keys.set(path.join(this.baseUrl, relPath), relPath));
+        const sortedPaths = Array.from(keys.keys()).sort().map(key => keys.get(key)!);
+        return sortedPaths.reduceRight((next, relPath) => () => this.withPathLock(relPath, next), action)();
+    }
+
     async saveFile(relPath: string, newContent: string): Promise<void> {
-        const {fullPath, name} = this.getPathAndName(relPath);
-        await ensureDir(fullPath);
-        await writeFile(path.join(fullPath, name), newContent);
+        try {
+            const {fullPath, name} = this.getPathAndName(relPath);
+            if (!name) {
+                throw new InvalidArgumentError(relPath, `root is not a legal file name`);
+            }
+            await ensureDirectoryPath(this.baseUrl, fullPath);
+            await writeFile(path.join(fullPath, name), newContent);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
+        }
+    }
+
+    async saveBinaryFile(relPath: string, newContent: Uint8Array): Promise<void> {
+        try {
+            const {fullPath, name} = this.getPathAndName(relPath);
+            if (!name) {
+                throw new InvalidArgumentError(relPath, `root is not a legal file name`);
+            }
+            await ensureDirectoryPath(this.baseUrl, fullPath);
+            await writeFile(path.join(fullPath, name), newContent);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
+        }
     }
 
     async deleteFile(relPath: string): Promise<void> {
-        const res = await getStatsForDeletion(this.baseUrl, relPath);
-        if (res) {
-            if (res.stats.isFile()) {
-                await remove(res.fullPath);
-            } else {
-                throw new Error(`not a file: ${relPath}`);
+        try {
+            const res = await getStatsForDeletion(this.baseUrl, relPath);
+            if (res) {
+                if (res.stats.isFile()) {
+                    await remove(res.fullPath);
+                } else {
+                    throw new IsADirectoryError(relPath);
+                }
             }
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
         }
     }
 
     async deleteDirectory(relPath: string, recursive?: boolean): Promise<void> {
-        const res =  await getStatsForDeletion(this.baseUrl, relPath);
-        if (res) {
-            if (res.stats.isDirectory()) {
-                await (recursive ? remove(res.fullPath) : rmdir(res.fullPath));
-            } else {
-                throw new Error(`not a directory: ${relPath}`);
+        try {
+            const res =  await getStatsForDeletion(this.baseUrl, relPath);
+            if (res) {
+                if (res.stats.isDirectory()) {
+                    await (recursive ? remove(res.fullPath) : rmdir(res.fullPath));
+                } else {
+                    throw new NotADirectoryError(relPath);
+                }
             }
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
         }
+    }
 
+    async move(fromRelPath: string, toRelPath: string): Promise<void> {
+        try {
+            if (!getPathNodes(fromRelPath).length || !getPathNodes(toRelPath).length) {
+                throw new InvalidArgumentError(fromRelPath, `Can't move root directory`);
+            }
+            const fromPath = path.join(this.baseUrl, fromRelPath);
+            const {fullPath: toParentPath, name} = this.getPathAndName(toRelPath);
+            const toPath = path.join(toParentPath, name);
+            const fromStats = await stat(fromPath);
+            if (fromStats.isDirectory() && (toPath + path.sep).startsWith(fromPath + path.sep)) {
+                throw new InvalidArgumentError(toRelPath, `Can't move directory '${fromRelPath}' into itself '${toRelPath}'`);
+            }
+            if (await pathExists(toPath)) {
+                throw new AlreadyExistsError(toRelPath);
+            }
+            await ensureDirectoryPath(this.baseUrl, toParentPath);
+            await rename(fromPath, toPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fromRelPath);
+        }
+    }
+
+    async copyFile(fromRelPath: string, toRelPath: string): Promise<void> {
+        try {
+            const fromPath = path.join(this.baseUrl, fromRelPath);
+            const {fullPath: toParentPath, name} = this.getPathAndName(toRelPath);
+            const toPath = path.join(toParentPath, name);
+            if (!name) {
+                throw new InvalidArgumentError(toRelPath, `root is not a legal file name`);
+            }
+            if (!(await stat(fromPath)).isFile()) {
+                throw new IsADirectoryError(fromRelPath);
+            }
+            if (await pathExists(toPath) && !(await stat(toPath)).isFile()) {
+                throw new IsADirectoryError(toRelPath);
+            }
+            await ensureDirectoryPath(this.baseUrl, toParentPath);
+            await copy(fromPath, toPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fromRelPath);
+        }
+    }
+
+    async copyDirectory(fromRelPath: string, toRelPath: string, options: CopyDirectoryOptions = {}): Promise<void> {
+        try {
+            if (!getPathNodes(toRelPath).length) {
+                throw new InvalidArgumentError(toRelPath, `Can't copy over root directory`);
+            }
+            const fromPath = path.join(this.baseUrl, fromRelPath);
+            const toPath = path.join(this.baseUrl, toRelPath);
+            if (!(await stat(fromPath)).isDirectory()) {
+                throw new NotADirectoryError(fromRelPath);
+            }
+            if ((toPath + path.sep).startsWith(fromPath + path.sep)) {
+                throw new InvalidArgumentError(toRelPath, `Can't copy directory '${fromRelPath}' into itself '${toRelPath}'`);
+            }
+            if (await pathExists(toPath) && (!options.overwrite || !(await stat(toPath)).isDirectory())) {
+                throw new AlreadyExistsError(toRelPath);
+            }
+            await copy(fromPath, toPath, {overwrite: true});
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fromRelPath);
+        }
     }
 
     async loadTextFile(relPath: string): Promise<string> {
-        return readFile(path.join(this.baseUrl, relPath), 'utf8');
+        try {
+            return await readFile(path.join(this.baseUrl, relPath), 'utf8');
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
+        }
     }
 
     loadTextFileSync(relPath: string): string {
-        return readFileSync(path.join(this.baseUrl, relPath), 'utf8');
+        try {
+            return readFileSync(path.join(this.baseUrl, relPath), 'utf8');
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
+        }
+    }
+
+    async loadTextFileWithVersion(relPath: string): Promise<VersionedTextFile> {
+        try {
+            const data = await readFile(path.join(this.baseUrl, relPath));
+            return {content: data.toString('utf8'), version: getContentVersion(data)};
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
+        }
+    }
+
+    /**
+     * reject with ConflictError unless the file exists with the expected version
+     */
+    async checkVersion(relPath: string, ifMatch?: string): Promise<void> {
+        if (ifMatch === undefined) {
+            return;
+        }
+        let version: string | null = null;
+        try {
+            version = getContentVersion(await readFile(path.join(this.baseUrl, relPath)));
+        } catch (e) {
+            // missing files (and directories) have no version
+        }
+        if (version !== ifMatch) {
+            throw new ConflictError(relPath);
+        }
+    }
+
+    async loadBinaryFile(relPath: string): Promise<Uint8Array> {
+        try {
+            return new Uint8Array(await readFile(path.join(this.baseUrl, relPath)));
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
+        }
+    }
+
+    loadBinaryFileSync(relPath: string): Uint8Array {
+        try {
+            return new Uint8Array(readFileSync(path.join(this.baseUrl, relPath)));
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
+        }
     }
 
     async loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]> {
-        const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
-        const items = await klawAsPromised(rootPath, KLAW_SHALLOW_OPTIONS);
-        const memFs = klawItemsToMemFs(items, this.baseUrl, false);
-        return memFs.loadDirectoryChildren(fullPath);
+        try {
+            const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
+            const items = await klawAsPromised(rootPath, KLAW_SHALLOW_OPTIONS);
+            const memFs = klawItemsToMemFs(items, this.baseUrl, false);
+            return await memFs.loadDirectoryChildren(fullPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fullPath);
+        }
     }
 
     loadDirectoryChildrenSync(fullPath: string): Array<File | ShallowDirectory> {
-        const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
-        const items = klawSync(rootPath, KLAW_SHALLOW_OPTIONS);
-        const memFs = klawItemsToMemFs(items, this.baseUrl, false);
-        return memFs.loadDirectoryChildrenSync(fullPath);
+        try {
+            const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
+            const items = klawSync(rootPath, KLAW_SHALLOW_OPTIONS);
+            const memFs = klawItemsToMemFs(items, this.baseUrl, false);
+            return memFs.loadDirectoryChildrenSync(fullPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fullPath);
+        }
     }
 
     async loadDirectoryTree(fullPath?: string): Promise<Directory> {
-        const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
-        const items = await klawAsPromised(rootPath);
-        const memFs = klawItemsToMemFs(items, this.baseUrl, false);
-        return memFs.loadDirectoryTreeSync(fullPath);
+        try {
+            const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
+            const items = await klawAsPromised(rootPath);
+            const memFs = klawItemsToMemFs(items, this.baseUrl, false);
+            return memFs.loadDirectoryTreeSync(fullPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fullPath || '');
+        }
     }
 
     loadDirectoryTreeSync(fullPath?: string): Directory {
-        const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
-        const items = klawSync(rootPath);
-        const memFs = klawItemsToMemFs(items, this.baseUrl, false);
-        return memFs.loadDirectoryTreeSync(fullPath);
+        try {
+            const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
+            const items = klawSync(rootPath);
+            const memFs = klawItemsToMemFs(items, this.baseUrl, false);
+            return memFs.loadDirectoryTreeSync(fullPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fullPath || '');
+        }
     }
 
     loadDirectoryContentSync(fullPath: string = ''): DirectoryContent {
-        const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
-        const items = klawSync(rootPath);
-        const memFs = klawItemsToMemFs(items, this.baseUrl, true);
-        return memFs.loadDirectoryContentSync(fullPath);
+        try {
+            const rootPath = fullPath ? path.join(this.baseUrl, fullPath) : this.baseUrl;
+            const items = klawSync(rootPath);
+            const memFs = klawItemsToMemFs(items, this.baseUrl, true);
+            return memFs.loadDirectoryContentSync(fullPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fullPath);
+        }
+    }
+
+    async findFiles(patterns: string | string[], options: FindFilesOptions = {}): Promise<string[]> {
+        const cwd = options.cwd || '';
+        try {
+            const rootPath = cwd ? path.join(this.baseUrl, cwd) : this.baseUrl;
+            if (!(await stat(rootPath)).isDirectory()) {
+                throw new NotADirectoryError(cwd);
+            }
+            const matcher = createFileMatcher(patterns, options.ignore);
+            // klaw doesn't walk into filtered out directories. files are filtered again once their type is known
+            const items = await klawAsPromised(rootPath, {
+                filter: itemPath => {
+                    const relativePath = toRelativePath(rootPath, itemPath);
+                    return matcher.matchDirectory(relativePath) || matcher.matchFile(relativePath);
+                }
+            });
+            return items
+                .filter(item => item.stats.isFile() && matcher.matchFile(toRelativePath(rootPath, item.path)))
+                .map(item => toRelativePath(this.baseUrl, item.path))
+                .sort();
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, cwd);
+        }
+    }
+
+    async searchText(query: string, options: SearchTextOptions = {}): Promise<TextSearchMatch[]> {
+        const search = new TextSearch(query, options);
+        for (const relPath of search.done ? [] : await this.findFiles(options.glob || '**')) {
+            let data: Buffer;
+            try {
+                data = await readFile(path.join(this.baseUrl, relPath));
+            } catch (e) {
+                // deleted since it was found
+                continue;
+            }
+            if (isUtf8(data)) {
+                search.searchFile(relPath, data.toString('utf8'));
+            }
+            if (search.done) {
+                break;
+            }
+        }
+        return search.results;
     }
 
     async stat(fullPath: string): Promise<SimpleStats> {
-        return statToSimpleStat(await stat(path.join(this.baseUrl, fullPath)), fullPath);
+        try {
+            return statToSimpleStat(await stat(path.join(this.baseUrl, fullPath)), fullPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fullPath);
+        }
     }
 
     statSync(fullPath: string): SimpleStats {
-        return statToSimpleStat(statSync(path.join(this.baseUrl, fullPath)), fullPath);
+        try {
+            return statToSimpleStat(statSync(path.join(this.baseUrl, fullPath)), fullPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, fullPath);
+        }
     }
 
     async ensureDirectory(relPath: string): Promise<void> {
-        const pathArr = getPathNodes(relPath);
-        const fullPath = path.join(this.baseUrl, ...pathArr);
-        return ensureDir(fullPath);
+        try {
+            const pathArr = getPathNodes(relPath);
+            const fullPath = path.join(this.baseUrl, ...pathArr);
+            await ensureDirectoryPath(this.baseUrl, fullPath);
+        } catch (e) {
+            throw toFileSystemError(e, this.baseUrl, relPath);
+        }
     }
 
     private getPathAndName(relPath: string): { fullPath: string, name: string } {
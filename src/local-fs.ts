@@ -1,26 +1,77 @@
 import * as path from 'path';
 import {FSWatcher, watch} from 'chokidar';
 import {retryPromise, RetryPromiseOptions} from './promise-utils';
-import {Correlation, EventEmitter, Events, FileSystemEvent, fileSystemEventNames, FileSystemReadSync} from './api';
-import {Directory, DirectoryContent, File, pathSeparator, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    EventEmitter,
+    Events,
+    FileSystemEvent,
+    fileSystemEventNames,
+    FileSystemReadSync,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {Directory, DirectoryContent, File, FileContent, isDir, pathSeparator, ShallowDirectory, SimpleStats} from './model';
 import {LocalFileSystemCrudOnly} from './local-fs-crud-only';
 import {makeCorrelationId} from './utils';
 import {EventHandler, EventsManager} from './events-manager';
+import {binaryToFileContent, isSameContent} from './encoding';
+import {getGlobBase, watchEvents} from './watch';
+import {applyBatch} from './batch';
 
 export namespace LocalFileSystem {
     export type Options = RetryPromiseOptions & {
         correlationWindow: number;
         noiseReduceWindow: number;
+        /**
+         * watch the whole directory for changes. when false, only the paths of active watch() calls are watched
+         * default : true
+         */
+        watchRoot?: boolean;
     };
 }
 
 const notNoise = new WeakSet<FileSystemEvent>();
 
+function getEventContent(event: Events[keyof Events]): FileContent | undefined {
+    return event.type === 'fileCreated' || event.type === 'fileChanged' ? event.newContent : undefined;
+}
+
+function isSameEventContent(event: Events[keyof Events], otherEvent: Events[keyof Events]) {
+    const content = getEventContent(event);
+    const otherContent = getEventContent(otherEvent);
+    if (content === undefined || otherContent === undefined) {
+        return content === otherContent;
+    }
+    return isSameContent(content, otherContent);
+}
+
+function isInPath(basePath: string, fullPath: string) {
+    return fullPath === basePath || fullPath.startsWith(basePath + pathSeparator);
+}
+
+/**
+ * the paths of the node and of everything under it, relative to it
+ */
+function getRelativePaths(node: Directory | File, relativePath = ''): string[] {
+    const childPaths = isDir(node) ? node.children.map(child => getRelativePaths(child, relativePath + pathSeparator + child.name)) : [];
+    return [relativePath].concat(...childPaths);
+}
+
 export class LocalFileSystem implements FileSystemReadSync {
     private readonly eventsManager = new EventsManager();
     public readonly events: EventEmitter = this.eventsManager.events;
     private crud: LocalFileSystemCrudOnly;
     private watcher?: FSWatcher;
+    private readonly scopedWatchers = new Map<string, { watcher: FSWatcher, ready: Promise<void>, count: number }>();
 
     private tempEventsTimers: { [filePath: string]: NodeJS.Timer } = {};
     private lastEvents: { [filePath: string]: Events[keyof Events] } = {};
@@ -73,13 +124,16 @@ export class LocalFileSystem implements FileSystemReadSync {
         if (ev.fullPath) {
             const prevEv = this.lastEvents[ev.fullPath];
             this.lastEvents[ev.fullPath] = ev;
-            return prevEv && (prevEv === ev || (prevEv.type === ev.type && prevEv.fullPath === ev.fullPath && (prevEv as any).newContent === (ev as any).newContent));
+            return prevEv && (prevEv === ev || (prevEv.type === ev.type && prevEv.fullPath === ev.fullPath && isSameEventContent(prevEv, ev)));
         } else {
             return false;
         }
     }
 
     init(): Promise<LocalFileSystem> {
+        if (this.options.watchRoot === false) {
+            return Promise.resolve(this);
+        }
         const watcher = this.watcher = watch([this.baseUrl], {
             // usePolling:true,
             // useFsEvents:false,
@@ -93,81 +147,157 @@ export class LocalFileSystem implements FileSystemReadSync {
 
         return new Promise<LocalFileSystem>(resolve => {
             watcher.once('ready', () => {
+                this.listenToWatcher(watcher);
+                resolve(this);
+            });
+        });
+    }
 
-                watcher.on('addDir', (relPath: string) => {
-                    if (relPath) { // ignore event of root folder creation
-                        this.eventsManager.emit({
-                            type: 'directoryCreated',
-                            fullPath: relPath.split(path.sep).join(pathSeparator)
-                        });
-                    }
-                });
+    /**
+     * when the root is not watched (see the watchRoot option), this also starts watching the path on disk
+     */
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        const subscription = watchEvents(this.events, pathOrGlob, listener, options);
+        if (this.options.watchRoot !== false) {
+            return subscription;
+        }
+        const watchedPath = getGlobBase(pathOrGlob);
+        const ready = this.addScopedWatcher(watchedPath);
+        let disposed = false;
+        return {
+            ready,
+            dispose: () => {
+                subscription.dispose();
+                if (!disposed) {
+                    disposed = true;
+                    this.removeScopedWatcher(watchedPath);
+                }
+            }
+        };
+    }
 
-                watcher.on('add', async (relPath: string) => {
-                    const fullPath = relPath.split(path.sep).join(pathSeparator);
-                    try {
-                        await retryPromise(async () =>
-                                this.eventsManager.emit({
-                                    type: 'fileCreated',
-                                    fullPath,
-                                    newContent: await this.loadTextFile(relPath)
-                                })
-                            , this.options);
-                    } catch (e) {
-                        this.eventsManager.emit({type: 'unexpectedError', fullPath, stack: e.stack});
-                    }
-                });
+    /**
+     * @returns when the watcher reports changes
+     */
+    private addScopedWatcher(watchedPath: string): Promise<void> {
+        const scopedWatcher = this.scopedWatchers.get(watchedPath);
+        if (scopedWatcher) {
+            scopedWatcher.count++;
+            return scopedWatcher.ready;
+        }
+        // overlapping watchers report the same changes, the duplicates are dropped by the noise reduction
+        const watcher = watch([path.join(this.baseUrl, watchedPath)], {cwd: this.baseUrl, ignoreInitial: true});
+        watcher.on('error', err => this.eventsManager.emit({type: 'unexpectedError', fullPath: watchedPath, stack: err.stack}));
+        const ready = new Promise<void>(resolve => watcher.once('ready', resolve));
+        this.listenToWatcher(watcher);
+        this.scopedWatchers.set(watchedPath, {watcher, ready, count: 1});
+        return ready;
+    }
 
-                watcher.on('change', async (relPath: string) => {
-                    let fullPath = relPath.split(path.sep).join(pathSeparator);
-                    try {
-                        await retryPromise(async () =>
-                                this.eventsManager.emit({
-                                    type: 'fileChanged',
-                                    fullPath,
-                                    newContent: await this.loadTextFile(relPath)
-                                })
-                            , this.options);
-                    } catch (e) {
-                        this.eventsManager.emit({type: 'unexpectedError', fullPath, stack: e.stack});
-                    }
-                });
+    private removeScopedWatcher(watchedPath: string) {
+        const scopedWatcher = this.scopedWatchers.get(watchedPath);
+        if (scopedWatcher && --scopedWatcher.count === 0) {
+            scopedWatcher.watcher.close();
+            this.scopedWatchers.delete(watchedPath);
+        }
+    }
 
-                watcher.on('unlinkDir', (relPath: string) =>
-                    this.eventsManager.emit({
-                        type: 'directoryDeleted',
-                        fullPath: relPath.split(path.sep).join(pathSeparator)
-                    }));
+    private listenToWatcher(watcher: FSWatcher) {
+        watcher.on('addDir', (relPath: string) => {
+            if (relPath) { // ignore event of root folder creation
+                this.eventsManager.emit({
+                    type: 'directoryCreated',
+                    fullPath: relPath.split(path.sep).join(pathSeparator)
+                });
+            }
+        });
 
-                watcher.on('unlink', (relPath: string) =>
-                    this.eventsManager.emit({
-                        type: 'fileDeleted',
-                        fullPath: relPath.split(path.sep).join(pathSeparator)
-                    }));
+        watcher.on('add', async (relPath: string) => {
+            const fullPath = relPath.split(path.sep).join(pathSeparator);
+            try {
+                await retryPromise(async () =>
+                        this.eventsManager.emit({
+                            type: 'fileCreated',
+                            fullPath,
+                            newContent: await this.loadFileContent(relPath)
+                        })
+                    , this.options);
+            } catch (e) {
+                this.eventsManager.emit({type: 'unexpectedError', fullPath, stack: e.stack});
+            }
+        });
 
-                resolve(this);
-            });
+        watcher.on('change', async (relPath: string) => {
+            let fullPath = relPath.split(path.sep).join(pathSeparator);
+            try {
+                await retryPromise(async () =>
+                        this.eventsManager.emit({
+                            type: 'fileChanged',
+                            fullPath,
+                            newContent: await this.loadFileContent(relPath)
+                        })
+                    , this.options);
+            } catch (e) {
+                this.eventsManager.emit({type: 'unexpectedError', fullPath, stack: e.stack});
+            }
         });
+
+        watcher.on('unlinkDir', (relPath: string) =>
+            this.eventsManager.emit({
+                type: 'directoryDeleted',
+                fullPath: relPath.split(path.sep).join(pathSeparator)
+            }));
+
+        watcher.on('unlink', (relPath: string) =>
+            this.eventsManager.emit({
+                type: 'fileDeleted',
+                fullPath: relPath.split(path.sep).join(pathSeparator)
+            }));
     }
 
     dispose() {
         this.watcher && this.watcher.close();
+        this.scopedWatchers.forEach(({watcher}) => watcher.close());
+        this.scopedWatchers.clear();
     }
 
 
-    async saveFile(fullPath: string, newContent: string, correlation = makeCorrelationId()): Promise<Correlation> {
-        this.registerCorrelationForPathsInDir(fullPath, correlation);
-        this.registerCorrelator(['fileChanged', 'fileCreated'], correlation, e => e.fullPath === fullPath && (e.newContent === newContent), true);
-        await this.crud.saveFile(fullPath, newContent);
+    async saveFile(fullPath: string, newContent: string, correlation = makeCorrelationId(), options: WriteOptions = {}): Promise<Correlation> {
+        await this.crud.withPathLock(fullPath, async () => {
+            await this.crud.checkVersion(fullPath, options.ifMatch);
+            this.registerCorrelationForPathsInDir(fullPath, correlation);
+            this.registerCorrelator(['fileChanged', 'fileCreated'], correlation, e => e.fullPath === fullPath && (e.newContent === newContent), true);
+            await this.crud.saveFile(fullPath, newContent);
+        });
+        return correlation;
+    }
+
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation = makeCorrelationId(), options: WriteOptions = {}): Promise<Correlation> {
+        await this.crud.withPathLock(fullPath, async () => {
+            await this.crud.checkVersion(fullPath, options.ifMatch);
+            this.registerCorrelationForPathsInDir(fullPath, correlation);
+            this.registerCorrelator(['fileChanged', 'fileCreated'], correlation, e => e.fullPath === fullPath && isSameContent(e.newContent, newContent), true);
+            await this.crud.saveBinaryFile(fullPath, newContent);
+        });
         return correlation;
     }
 
-    async deleteFile(fullPath: string, correlation = makeCorrelationId()): Promise<Correlation> {
-        this.registerCorrelator(['fileDeleted'], correlation, e => e.fullPath === fullPath, true);
-        await this.crud.deleteFile(fullPath);
+    async deleteFile(fullPath: string, correlation = makeCorrelationId(), options: WriteOptions = {}): Promise<Correlation> {
+        await this.crud.withPathLock(fullPath, async () => {
+            await this.crud.checkVersion(fullPath, options.ifMatch);
+            this.registerCorrelator(['fileDeleted'], correlation, e => e.fullPath === fullPath, true);
+            await this.crud.deleteFile(fullPath);
+        });
         return correlation;
     }
 
+    /**
+     * operations are applied one by one, a failure does not undo the ones before it
+     */
+    batch(operations: BatchOperation[], correlation = makeCorrelationId()): Promise<Correlation> {
+        return applyBatch(this, operations, correlation);
+    }
+
     async deleteDirectory(fullPath: string, recursive?: boolean, correlation = makeCorrelationId()): Promise<Correlation> {
         this.registerCorrelator(['directoryDeleted'], correlation, e => e.fullPath === fullPath, true);
         if (recursive) {
@@ -181,15 +311,63 @@ export class LocalFileSystem implements FileSystemReadSync {
 
     async ensureDirectory(fullPath: string, correlation = makeCorrelationId()): Promise<Correlation> {
         this.registerCorrelationForPathsInDir(fullPath, correlation);
-        this.registerCorrelator(['directoryCreated'], correlation, e => fullPath === (e as any).fullPath, true);
+        this.registerCorrelator(['directoryCreated'], correlation, e => fullPath === e.fullPath, true);
         await this.crud.ensureDirectory(fullPath);
         return correlation;
     }
 
+    async move(fromPath: string, toPath: string, correlation = makeCorrelationId()): Promise<Correlation> {
+        await this.crud.withPathLocks([fromPath, toPath], async () => {
+            const {type} = await this.crud.stat(fromPath);
+            const relativePaths = type === 'dir' ? getRelativePaths(await this.crud.loadDirectoryTree(fromPath)) : [''];
+            this.registerCorrelationForPathsInDir(toPath, correlation);
+            // the watcher reports a rename as deletion of the source followed by creation of the target
+            const deletionSuppressor = this.registerSuppressor(['fileDeleted', 'directoryDeleted'], e => isInPath(fromPath, e.fullPath),
+                relativePaths.map(relativePath => fromPath + relativePath));
+            const creationSuppressor = this.registerSuppressor(['fileCreated', 'directoryCreated'], e => isInPath(toPath, e.fullPath),
+                relativePaths.map(relativePath => toPath + relativePath));
+            try {
+                await this.crud.move(fromPath, toPath);
+            } catch (e) {
+                this.eventsManager.removeEventHandler(deletionSuppressor);
+                this.eventsManager.removeEventHandler(creationSuppressor);
+                throw e;
+            }
+            if (type === 'dir') {
+                this.eventsManager.emit({type: 'directoryRenamed', fullPath: toPath, oldFullPath: fromPath, correlation});
+            } else {
+                this.eventsManager.emit({type: 'fileRenamed', fullPath: toPath, oldFullPath: fromPath, correlation});
+            }
+        });
+        return correlation;
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation = makeCorrelationId()): Promise<Correlation> {
+        this.registerCorrelationForPathsInDir(toPath, correlation);
+        this.registerCorrelator(['fileChanged', 'fileCreated'], correlation, e => e.fullPath === toPath, true);
+        await this.crud.copyFile(fromPath, toPath);
+        return correlation;
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation = makeCorrelationId()): Promise<Correlation> {
+        this.registerCorrelationForPathsInDir(toPath, correlation);
+        this.registerCorrelator(['directoryCreated', 'fileCreated', 'fileChanged'], correlation, e => isInPath(toPath, e.fullPath), false);
+        await this.crud.copyDirectory(fromPath, toPath, options);
+        return correlation;
+    }
+
     loadTextFile(fullPath: string): Promise<string> {
         return this.crud.loadTextFile(fullPath);
     }
 
+    loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return this.crud.loadTextFileWithVersion(fullPath);
+    }
+
+    loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return this.crud.loadBinaryFile(fullPath);
+    }
+
     loadDirectoryTree(fullPath?: string): Promise<Directory> {
         return this.crud.loadDirectoryTree(fullPath);
     }
@@ -202,11 +380,26 @@ export class LocalFileSystem implements FileSystemReadSync {
         return this.crud.stat(fullPath);
     }
 
+    findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]> {
+        return this.crud.findFiles(patterns, options);
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return this.crud.searchText(query, options);
+    }
+
+    /**
+     * text if the file is valid UTF-8, binary otherwise
+     */
+    private async loadFileContent(fullPath: string): Promise<FileContent> {
+        return binaryToFileContent(await this.loadBinaryFile(fullPath));
+    }
+
     private registerCorrelationForPathsInDir(fullPath: string, correlation: Correlation) {
         let nextPathSeparator = 0;
         while (~(nextPathSeparator = fullPath.indexOf(pathSeparator, nextPathSeparator + 1))) {
             const subPath = fullPath.substr(0, nextPathSeparator);
-            this.registerCorrelator(['directoryCreated'], correlation, e => subPath === (e as any).fullPath, true);
+            this.registerCorrelator(['directoryCreated'], correlation, e => subPath === e.fullPath, true);
         }
     }
 
@@ -225,10 +418,33 @@ export class LocalFileSystem implements FileSystemReadSync {
         this.eventsManager.addEventHandler(correlator, this.options.correlationWindow);
     }
 
+    /**
+     * @param expectedPaths the suppressor is removed once there were events of all of them
+     */
+    private registerSuppressor<S extends keyof Events>(types: S[], filter: (e: Events[S]) => boolean, expectedPaths: string[]): EventHandler<S> {
+        const pendingPaths = new Set(expectedPaths);
+        const suppressor: EventHandler<S> = {
+            types,
+            filter,
+            apply: (e: Events[S]) => {
+                pendingPaths.delete(e.fullPath);
+                if (!pendingPaths.size) {
+                    this.eventsManager.removeEventHandler(suppressor);
+                }
+            }, // don't return an event
+        };
+        this.eventsManager.addEventHandler(suppressor, this.options.correlationWindow);
+        return suppressor;
+    }
+
     loadTextFileSync(fullPath: string): string {
         return this.crud.loadTextFileSync(fullPath);
     }
 
+    loadBinaryFileSync(fullPath: string): Uint8Array {
+        return this.crud.loadBinaryFileSync(fullPath);
+    }
+
     loadDirectoryTreeSync(fullPath?: string): Directory {
         return this.crud.loadDirectoryTreeSync(fullPath);
     }
@@ -1,33 +1,147 @@
-import {Correlation, Events, FileSystem, FileSystemReadSync} from './api';
-import {Directory, DirectoryContent, File, isDir, isFile, pathSeparator, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Events,
+    FileSystem,
+    FileSystemReadSync,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {
+    Directory,
+    DirectoryContent,
+    File,
+    FileContent,
+    isDir,
+    isFile,
+    pathSeparator,
+    ShallowDirectory,
+    SimpleStats
+} from './model';
+import {
+    deserializeBinary,
+    encodeUtf8,
+    fileContentToBinary,
+    fileContentToText,
+    getContentVersion,
+    isSameContent,
+    SerializedBinary,
+    serializeBinary
+} from './encoding';
+import {
+    AlreadyExistsError,
+    ConflictError,
+    DirectoryNotEmptyError,
+    FileNotFoundError,
+    InvalidArgumentError,
+    IsADirectoryError,
+    NotADirectoryError
+} from './errors';
+import {addChild, getChild, removeChild, replaceChild} from './children-index';
+import {createFileMatcher, findFilesInTree} from './glob';
+import {TextSearch} from './search';
+import {watchEvents} from './watch';
 
 import {getPathNodes, InternalEventsEmitter, makeCorrelationId, makeEventsEmitter, normalizePathNodes} from './utils';
 
 let id = 0;
 
+interface NodeTimes {
+    mtime: number;
+    ctime: number;
+    birthtime: number;
+}
+
+function getContentSize(content: FileContent): number {
+    return typeof content === 'string' ? encodeUtf8(content).length : content.length;
+}
+
+function relocateNode(node: Directory | File, name: string, fullPath: string) {
+    node.name = name;
+    node.fullPath = fullPath;
+    if (isDir(node)) {
+        node.children.forEach(child => relocateNode(child, child.name, [fullPath, child.name].join(pathSeparator)));
+    }
+}
+
 export namespace MemoryFileSystem {
     export interface Options {
         content?: DirectoryContent;
+        /**
+         * used as the live model of the file system. to change it from outside, replace the children arrays of its
+         * directories (or only add to them), as lookups are indexed and don't notice other changes
+         */
         model?: Directory;
     }
+
+    /**
+     * the content of a MemoryFileSystem at some point, see snapshot(). its nodes are shared, and must not be changed
+     */
+    export interface Snapshot {
+        readonly root: Directory;
+    }
+
+    /**
+     * the state of a MemoryFileSystem in a JSON-safe format, see serialize().
+     * `version` changes whenever older readers can't read the format
+     */
+    export interface Serialized {
+        version: 1;
+        root: SerializedDirectory;
+    }
+
+    export interface SerializedTimes {
+        mtime: number;
+        ctime: number;
+        birthtime: number;
+    }
+
+    export interface SerializedDirectory {
+        type: 'dir';
+        name: string;
+        times: SerializedTimes;
+        children: Array<SerializedDirectory | SerializedFile>;
+    }
+
+    export interface SerializedFile {
+        type: 'file';
+        name: string;
+        times: SerializedTimes;
+        content: string | SerializedBinary;
+    }
 }
 
 export class MemoryFileSystem implements FileSystemReadSync, FileSystem {
 
     static addContent(fs: MemoryFileSystem, content: DirectoryContent, path?: string) {
-        const model = fs.root;
         const pathArr = path && getPathNodes(path);
         if (path && pathArr && pathArr.length) {
             fs.ensureDirectorySync(path);
             let mixin = Directory.fromContent(content, pathArr[pathArr.length - 1], normalizePathNodes(pathArr.slice(0, pathArr.length - 1)));
-            Directory.mix(Directory.getSubDir(model, pathArr)!, mixin);
+            Directory.mix(fs.unshareTree(fs.getWritableDir(pathArr)!), mixin);
         } else {
-            Directory.mix(model, Directory.fromContent(content));
+            Directory.mix(fs.unshareTree(fs.getWritableDir([])!), Directory.fromContent(content));
         }
     }
 
     public readonly events: InternalEventsEmitter = makeEventsEmitter();
-    protected readonly root: Directory;
+    protected root: Directory;
+    // kept aside so that nodes keep their public shape. nodes that were never written are stamped on first stat
+    private readonly times = new WeakMap<Directory | File, NodeTimes>();
+    // nodes of snapshots, along with everything under them. they are copied before being changed
+    private readonly shared = new WeakSet<Directory | File>();
+    // nodes from before the running batch, copied like the nodes of snapshots so that the batch can be rolled back.
+    // unlike snapshots, they are not shared anymore once the batch is done
+    private batchShared: WeakSet<Directory | File> | null = null;
+    // events of a batch are held back until all of its operations succeed
+    private pendingEvents: Array<Events[keyof Events]> | null = null;
 
     constructor(public baseUrl = `memory-${id++}`, options?: MemoryFileSystem.Options) {
         this.baseUrl += '/';
@@ -42,15 +156,23 @@ export class MemoryFileSystem implements FileSystemReadSync, FileSystem {
     }
 
     protected emit<S extends keyof Events>(type: S, event: Events[S]) {
-        this.events.emit(type, event);
+        if (this.pendingEvents) {
+            this.pendingEvents.push(event);
+        } else {
+            this.events.emit(type, event);
+        }
+    }
+
+    async saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.saveFileSync(fullPath, newContent, correlation, options);
     }
 
-    async saveFile(fullPath: string, newContent: string, correlation?: Correlation): Promise<Correlation> {
-        return this.saveFileSync(fullPath, newContent, correlation);
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.saveBinaryFileSync(fullPath, newContent, correlation, options);
     }
 
-    async deleteFile(fullPath: string, correlation?: Correlation): Promise<Correlation> {
-        return this.deleteFileSync(fullPath, correlation);
+    async deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.deleteFileSync(fullPath, correlation, options);
     }
 
     async deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation> {
@@ -61,10 +183,34 @@ export class MemoryFileSystem implements FileSystemReadSync, FileSystem {
         return this.ensureDirectorySync(fullPath, correlation);
     }
 
+    async move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.moveSync(fromPath, toPath, correlation);
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.copyFileSync(fromPath, toPath, correlation);
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation> {
+        return this.copyDirectorySync(fromPath, toPath, options, correlation);
+    }
+
+    async batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation> {
+        return this.batchSync(operations, correlation);
+    }
+
     async loadTextFile(fullPath: string): Promise<string> {
         return this.loadTextFileSync(fullPath);
     }
 
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return this.loadBinaryFileSync(fullPath);
+    }
+
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return this.loadTextFileWithVersionSync(fullPath);
+    }
+
     async loadDirectoryTree(fullPath?: string): Promise<Directory> {
         return this.loadDirectoryTreeSync(fullPath);
     }
@@ -77,49 +223,75 @@ export class MemoryFileSystem implements FileSystemReadSync, FileSystem {
         return this.statSync(fullPath);
     }
 
-    saveFileSync(fullPath: string, newContent: string, correlation: Correlation = makeCorrelationId()): Correlation {
+    async findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]> {
+        return this.findFilesSync(patterns, options);
+    }
+
+    async searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return this.searchTextSync(query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return watchEvents(this.events, pathOrGlob, listener, options);
+    }
+
+    saveFileSync(fullPath: string, newContent: string, correlation: Correlation = makeCorrelationId(), options: WriteOptions = {}): Correlation {
+        this.checkVersion(fullPath, options.ifMatch);
+        return this.saveFileContentSync(fullPath, newContent, correlation);
+    }
+
+    saveBinaryFileSync(fullPath: string, newContent: Uint8Array, correlation: Correlation = makeCorrelationId(), options: WriteOptions = {}): Correlation {
+        this.checkVersion(fullPath, options.ifMatch);
+        return this.saveFileContentSync(fullPath, new Uint8Array(newContent), correlation);
+    }
+
+    protected saveFileContentSync(fullPath: string, newContent: FileContent, correlation: Correlation): Correlation {
         const pathArr = getPathNodes(fullPath);
         const fileName = pathArr.pop();
         if (!fileName) {
-            throw new Error(`root is not a legal file name`);
+            throw new InvalidArgumentError(fullPath, `root is not a legal file name`);
         }
 
-        this._ensureDirectorySync(pathArr.join(pathSeparator), correlation);
-        const parent = Directory.getSubDir(this.root, pathArr);
-        if (!parent) {
-            // we get here if findNode couldn't resolve the parent and the node is not the root dir.
-            // this should not happen after running ensureDirectory()
-            throw new Error(`unexpected error: not a legal file name? '${fullPath}'`);
-        }
-        const existingChild = parent.children.find(({name}) => name === fileName);
+        const parent = this._ensureDirectorySync(pathArr.join(pathSeparator), correlation);
+        const existingChild = getChild(parent, fileName);
         if (isDir(existingChild)) {
-            throw new Error(`file save error for path '${fullPath}'`);
+            throw new IsADirectoryError(fullPath);
         }
 
         if (isFile(existingChild)) {
-            if (existingChild.content !== newContent) {
-                existingChild.content = newContent;
+            if (existingChild.content === undefined || !isSameContent(existingChild.content, newContent)) {
+                const file = this.unshare(existingChild, parent);
+                file.content = newContent;
+                this.touch(file);
                 const type = 'fileChanged';
                 this.emit(type, {type, fullPath, newContent, correlation});
             }
         } else {
             const type = 'fileCreated';
-            parent.children.push(new File(fileName, fullPath, newContent));
+            const newFile = new File(fileName, fullPath);
+            // set explicitly, the constructor skips empty content
+            newFile.content = newContent;
+            addChild(parent, newFile);
+            this.touch(newFile, true);
+            this.touch(parent);
             this.emit(type, {type, fullPath, newContent, correlation});
         }
         return correlation;
     }
 
-    deleteFileSync(fullPath: string, correlation: Correlation = makeCorrelationId()): Correlation {
+    deleteFileSync(fullPath: string, correlation: Correlation = makeCorrelationId(), options: WriteOptions = {}): Correlation {
+        this.checkVersion(fullPath, options.ifMatch);
         const pathArr = getPathNodes(fullPath);
         const parent = pathArr.length ? Directory.getSubDir(this.root, pathArr.slice(0, pathArr.length - 1)) : null;
         if (isDir(parent)) {
-            const node = parent.children.find(({name}) => name === pathArr[pathArr.length - 1]);
+            const node = getChild(parent, pathArr[pathArr.length - 1]);
             if (isFile(node)) {
-                parent.children = parent.children.filter(({name}) => name !== node.name);
+                const writableParent = this.getWritableDir(pathArr.slice(0, pathArr.length - 1))!;
+                removeChild(writableParent, node);
+                this.touch(writableParent);
                 this.emit('fileDeleted', {type: 'fileDeleted', fullPath, correlation});
             } else if (isDir(node)) {
-                throw new Error(`Directory is not a file '${fullPath}'`);
+                throw new IsADirectoryError(fullPath);
             }
         }
         return correlation;
@@ -128,18 +300,20 @@ export class MemoryFileSystem implements FileSystemReadSync, FileSystem {
     deleteDirectorySync(fullPath: string, recursive?: boolean, correlation: Correlation = makeCorrelationId()): Correlation {
         const pathArr = getPathNodes(fullPath);
         if (pathArr.length === 0) {
-            throw new Error(`Can't delete root directory`);
+            throw new InvalidArgumentError(fullPath, `Can't delete root directory`);
         }
         const parent = Directory.getSubDir(this.root, pathArr.slice(0, pathArr.length - 1));
         if (isDir(parent)) {
-            const node = parent.children.find(({name}) => name === pathArr[pathArr.length - 1]);
+            const node = getChild(parent, pathArr[pathArr.length - 1]);
             if (isFile(node)) {
-                throw new Error(`File is not a directory '${fullPath}'`);
+                throw new NotADirectoryError(fullPath);
             } else if (isDir(node)) {
                 if (!recursive && node.children.length) {
-                    throw new Error(`Directory is not empty '${fullPath}'`);
+                    throw new DirectoryNotEmptyError(fullPath);
                 } else {
-                    parent.children = parent.children.filter(({name}) => name !== node.name);
+                    const writableParent = this.getWritableDir(pathArr.slice(0, pathArr.length - 1))!;
+                    removeChild(writableParent, node);
+                    this.touch(writableParent);
                     this.recursiveEmitDeletion(node, correlation);
                 }
             }
@@ -148,25 +322,158 @@ export class MemoryFileSystem implements FileSystemReadSync, FileSystem {
     }
 
     ensureDirectorySync(fullPath: string, correlation: Correlation = makeCorrelationId()): Correlation {
-        return this._ensureDirectorySync(fullPath, correlation);
+        this._ensureDirectorySync(fullPath, correlation);
+        return correlation;
+    }
+
+    moveSync(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Correlation {
+        const fromPathArr = getPathNodes(fromPath);
+        const toPathArr = getPathNodes(toPath);
+        if (fromPathArr.length === 0 || toPathArr.length === 0) {
+            throw new InvalidArgumentError(fromPath, `Can't move root directory`);
+        }
+        const node = this.findNode(fromPath);
+        const targetFullPath = normalizePathNodes(toPathArr);
+        if (isDir(node) && (targetFullPath + pathSeparator).startsWith(node.fullPath + pathSeparator)) {
+            throw new InvalidArgumentError(toPath, `Can't move directory '${fromPath}' into itself '${toPath}'`);
+        }
+        const targetName = toPathArr.pop()!;
+        const targetParentPath = normalizePathNodes(toPathArr);
+        const existingParent = Directory.getSubDir(this.root, targetParentPath);
+        if (existingParent && getChild(existingParent, targetName)) {
+            throw new AlreadyExistsError(toPath);
+        }
+
+        this._ensureDirectorySync(targetParentPath, correlation);
+        const sourceParent = this.getWritableDir(fromPathArr.slice(0, fromPathArr.length - 1))!;
+        removeChild(sourceParent, node);
+        // relocation changes the paths of everything under the node
+        const movedNode = this.unshareTree(node);
+        relocateNode(movedNode, targetName, targetFullPath);
+        const targetParent = this.getWritableDir(toPathArr)!;
+        addChild(targetParent, movedNode);
+        this.touch(sourceParent);
+        this.touch(targetParent);
+        this.getTimes(movedNode).ctime = Date.now();
+
+        if (isDir(node)) {
+            this.emit('directoryRenamed', {type: 'directoryRenamed', fullPath: toPath, oldFullPath: fromPath, correlation});
+        } else {
+            this.emit('fileRenamed', {type: 'fileRenamed', fullPath: toPath, oldFullPath: fromPath, correlation});
+        }
+        return correlation;
+    }
+
+    copyFileSync(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Correlation {
+        const node = this.findNode(fromPath);
+        if (!isFile(node)) {
+            throw new IsADirectoryError(fromPath);
+        }
+        return this.saveFileContentSync(toPath, node.content || '', correlation);
+    }
+
+    copyDirectorySync(fromPath: string, toPath: string, options: CopyDirectoryOptions = {}, correlation: Correlation = makeCorrelationId()): Correlation {
+        const source = this.getDir(fromPath);
+        const toPathArr = getPathNodes(toPath);
+        if (toPathArr.length === 0) {
+            throw new InvalidArgumentError(toPath, `Can't copy over root directory`);
+        }
+        const targetFullPath = normalizePathNodes(toPathArr);
+        if ((targetFullPath + pathSeparator).startsWith(source.fullPath + pathSeparator)) {
+            throw new InvalidArgumentError(toPath, `Can't copy directory '${fromPath}' into itself '${toPath}'`);
+        }
+        const existingParent = Directory.getSubDir(this.root, toPathArr.slice(0, toPathArr.length - 1));
+        const existing = existingParent && getChild(existingParent, toPathArr[toPathArr.length - 1]);
+        if (isFile(existing) || (existing && !options.overwrite)) {
+            throw new AlreadyExistsError(toPath);
+        }
+        this.writeTreeSync(Directory.clone(source, toPathArr), correlation);
+        return correlation;
+    }
+
+    /**
+     * apply all of the operations, or none of them if one fails
+     */
+    batchSync(operations: BatchOperation[], correlation: Correlation = makeCorrelationId()): Correlation {
+        if (this.pendingEvents) {
+            throw new Error(`MemoryFileSystem can't apply nested batches`);
+        }
+        const root = this.root;
+        const events: Array<Events[keyof Events]> = this.pendingEvents = [];
+        this.batchShared = new WeakSet([root]);
+        try {
+            operations.forEach(operation => this.applyOperationSync(operation, correlation));
+        } catch (e) {
+            this.root = root;
+            throw e;
+        } finally {
+            this.pendingEvents = null;
+            this.batchShared = null;
+        }
+        events.forEach(event => this.emit(event.type, event));
+        return correlation;
+    }
+
+    /**
+     * the current content, taken in O(1). nodes are shared with the file system until it changes them
+     */
+    snapshot(): MemoryFileSystem.Snapshot {
+        this.shared.add(this.root);
+        return {root: this.root};
+    }
+
+    /**
+     * go back to the content of a snapshot, emitting the events of the differences
+     */
+    restore(snapshot: MemoryFileSystem.Snapshot, correlation: Correlation = makeCorrelationId()): Correlation {
+        const current = this.root;
+        this.shared.add(snapshot.root);
+        this.root = snapshot.root;
+        this.emitDifferences(current, snapshot.root, correlation);
+        return correlation;
+    }
+
+    /**
+     * the content and metadata of the file system, see deserialize()
+     */
+    serialize(): MemoryFileSystem.Serialized {
+        return {version: 1, root: this.serializeNode(this.root) as MemoryFileSystem.SerializedDirectory};
+    }
+
+    /**
+     * replace the state of the file system with a serialized one, emitting the events of the differences
+     */
+    deserialize(data: MemoryFileSystem.Serialized, correlation: Correlation = makeCorrelationId()): Correlation {
+        if (!data || data.version !== 1 || !data.root || data.root.type !== 'dir') {
+            throw new Error(`Unsupported serialized memory file system version ${data && data.version}`);
+        }
+        return this.restore({root: this.deserializeNode(data.root, '') as Directory}, correlation);
+    }
+
+    /**
+     * for file systems that load nodes along with their times
+     */
+    protected setTimes(node: Directory | File, times: MemoryFileSystem.SerializedTimes) {
+        this.times.set(node, {...times});
     }
 
     protected findNode(fullPath: string): Directory | File {
         const pathArr = getPathNodes(fullPath);
         const parent = pathArr.length ? Directory.getSubDir(this.root, pathArr.slice(0, pathArr.length - 1)) : null;
         if (isDir(parent)) {
-            const node = parent.children.find(({name}) => name === pathArr[pathArr.length - 1]);
+            const node = getChild(parent, pathArr[pathArr.length - 1]);
             if (node) {
                 return node;
             }
         }
-        throw new Error(`Cannot find ${fullPath}`);
+        throw new FileNotFoundError(fullPath);
     }
 
     protected getDir(fullPath: string) {
         const dir = Directory.getSubDir(this.root, fullPath);
         if (!dir) {
-            throw new Error(`Unable to read folder in path: '${fullPath}'`);
+            this.findNode(fullPath); // throws if there is nothing there
+            throw new NotADirectoryError(fullPath);
         }
         return dir;
     }
@@ -174,9 +481,28 @@ export class MemoryFileSystem implements FileSystemReadSync, FileSystem {
     loadTextFileSync(fullPath: string): string {
         const node = this.findNode(fullPath);
         if (isFile(node)) {
-            return node.content || '';
+            return fileContentToText(node.content || '');
         } else {
-            throw new Error(`File is a directory ${fullPath}`);
+            throw new IsADirectoryError(fullPath);
+        }
+    }
+
+    loadTextFileWithVersionSync(fullPath: string): VersionedTextFile {
+        const node = this.findNode(fullPath);
+        if (isFile(node)) {
+            const content = node.content || '';
+            return {content: fileContentToText(content), version: getContentVersion(content)};
+        } else {
+            throw new IsADirectoryError(fullPath);
+        }
+    }
+
+    loadBinaryFileSync(fullPath: string): Uint8Array {
+        const node = this.findNode(fullPath);
+        if (isFile(node)) {
+            return fileContentToBinary(node.content || '');
+        } else {
+            throw new IsADirectoryError(fullPath);
         }
     }
 
@@ -194,33 +520,245 @@ export class MemoryFileSystem implements FileSystemReadSync, FileSystem {
 
     statSync(fullPath: string): SimpleStats {
         const node = this.findNode(fullPath);
-        return isFile(node) ?
-            {type: 'file'} :
-            {type: 'dir'};
+        const {mtime, ctime, birthtime} = this.getTimes(node);
+        return {
+            type: node.type,
+            size: isFile(node) && node.content ? getContentSize(node.content) : 0,
+            mtime: new Date(mtime),
+            ctime: new Date(ctime),
+            birthtime: new Date(birthtime)
+        };
+    }
+
+    findFilesSync(patterns: string | string[], options: FindFilesOptions = {}): string[] {
+        return findFilesInTree(this.getDir(options.cwd || ''), createFileMatcher(patterns, options.ignore));
+    }
+
+    searchTextSync(query: string, options: SearchTextOptions = {}): TextSearchMatch[] {
+        const search = new TextSearch(query, options);
+        for (const fullPath of search.done ? [] : this.findFilesSync(options.glob || '**')) {
+            const node = this.findNode(fullPath);
+            if (isFile(node) && node.content !== undefined) {
+                search.searchFile(fullPath, node.content);
+            }
+            if (search.done) {
+                break;
+            }
+        }
+        return search.results;
+    }
+
+    private checkVersion(fullPath: string, ifMatch?: string) {
+        if (ifMatch === undefined) {
+            return;
+        }
+        let node: Directory | File | null = null;
+        try {
+            node = this.findNode(fullPath);
+        } catch (e) {
+            // missing files have no version
+        }
+        if (!isFile(node) || getContentVersion(node.content || '') !== ifMatch) {
+            throw new ConflictError(fullPath);
+        }
+    }
+
+    private getTimes(node: Directory | File): NodeTimes {
+        let times = this.times.get(node);
+        if (!times) {
+            const now = Date.now();
+            times = {mtime: now, ctime: now, birthtime: now};
+            this.times.set(node, times);
+        }
+        return times;
+    }
+
+    private applyOperationSync(operation: BatchOperation, correlation: Correlation) {
+        switch (operation.type) {
+            case 'saveFile':
+                return this.saveFileSync(operation.fullPath, operation.newContent, correlation, operation.options);
+            case 'saveBinaryFile':
+                return this.saveBinaryFileSync(operation.fullPath, operation.newContent, correlation, operation.options);
+            case 'deleteFile':
+                return this.deleteFileSync(operation.fullPath, correlation, operation.options);
+            case 'deleteDirectory':
+                return this.deleteDirectorySync(operation.fullPath, operation.recursive, correlation);
+            case 'ensureDirectory':
+                return this.ensureDirectorySync(operation.fullPath, correlation);
+        }
+    }
+
+    private cloneWithTimes(node: Directory | File): Directory | File {
+        let clone: Directory | File;
+        if (isDir(node)) {
+            clone = new Directory(node.name, node.fullPath, node.children.map(child => this.cloneWithTimes(child)));
+        } else {
+            clone = new File(node.name, node.fullPath);
+            clone.content = node.content;
+        }
+        this.times.set(clone, {...this.getTimes(node)});
+        return clone;
+    }
+
+    /**
+     * the node, or a copy of it if it is shared with a snapshot, so that it can be changed.
+     * the parent must have been made writable (or be null for the root)
+     */
+    private unshare<T extends Directory | File>(node: T, parent: Directory | null): T {
+        const sharedNodes = this.shared.has(node) ? this.shared : this.batchShared;
+        if (!sharedNodes || !sharedNodes.has(node)) {
+            return node;
+        }
+        let copy: Directory | File;
+        if (isDir(node)) {
+            node.children.forEach(child => sharedNodes.add(child));
+            copy = new Directory(node.name, node.fullPath, node.children.slice());
+        } else {
+            copy = new File(node.name, node.fullPath);
+            copy.content = (node as File).content;
+        }
+        this.times.set(copy, {...this.getTimes(node)});
+        if (parent) {
+            replaceChild(parent, node, copy);
+        } else {
+            this.root = copy as Directory;
+        }
+        return copy as T;
     }
 
-    private _ensureDirectorySync(fullPath: string, correlation: Correlation): Correlation {
-        getPathNodes(fullPath).reduce((current, nodeName) => {
-            const next = current.children.find(({name}) => name === nodeName);
+    /**
+     * like unshare(), for everything under the node too
+     */
+    private unshareTree<T extends Directory | File>(node: T): T {
+        if (this.shared.has(node) || (this.batchShared && this.batchShared.has(node))) {
+            return this.cloneWithTimes(node) as T;
+        }
+        if (isDir(node)) {
+            node.children = node.children.map(child => this.unshareTree(child));
+        }
+        return node;
+    }
+
+    private serializeNode(node: Directory | File): MemoryFileSystem.SerializedDirectory | MemoryFileSystem.SerializedFile {
+        const times = {...this.getTimes(node)};
+        if (isDir(node)) {
+            return {type: 'dir', name: node.name, times, children: node.children.map(child => this.serializeNode(child))};
+        }
+        return {type: 'file', name: node.name, times, content: serializeBinary(node.content || '')};
+    }
+
+    private deserializeNode(data: MemoryFileSystem.SerializedDirectory | MemoryFileSystem.SerializedFile, fullPath: string): Directory | File {
+        let node: Directory | File;
+        if (data.type === 'dir') {
+            node = new Directory(data.name, fullPath, data.children.map(child => this.deserializeNode(child, normalizePathNodes([fullPath, child.name]))));
+        } else {
+            node = new File(data.name, fullPath);
+            node.content = deserializeBinary(data.content);
+        }
+        this.times.set(node, {...data.times});
+        return node;
+    }
+
+    private getWritableDir(pathArr: string[]): Directory | null {
+        let dir = this.unshare(this.root, null);
+        for (const nodeName of pathArr) {
+            const child = getChild(dir, nodeName);
+            if (!isDir(child)) {
+                return null;
+            }
+            dir = this.unshare(child, dir);
+        }
+        return dir;
+    }
+
+    private touch(node: Directory | File, created = false) {
+        const now = Date.now();
+        if (created) {
+            this.times.set(node, {mtime: now, ctime: now, birthtime: now});
+        } else {
+            const times = this.getTimes(node);
+            times.mtime = times.ctime = now;
+        }
+    }
+
+    private _ensureDirectorySync(fullPath: string, correlation: Correlation): Directory {
+        return getPathNodes(fullPath).reduce((current, nodeName) => {
+            const next = getChild(current, nodeName);
             if (isDir(next)) {
-                return next;
+                return this.unshare(next, current);
             }
             if (isFile(next)) {
-                throw new Error(`File is not a directory ${next.fullPath}`);
+                throw new NotADirectoryError(next.fullPath);
             }
             const newDir = new Directory(
                 nodeName,
                 current.fullPath ? [current.fullPath, nodeName].join(pathSeparator) : nodeName,
             );
-            current.children.push(newDir);
+            addChild(current, newDir);
+            this.touch(newDir, true);
+            this.touch(current);
             this.emit('directoryCreated', {
                 type: 'directoryCreated',
                 fullPath: newDir.fullPath,
                 correlation
             });
             return newDir;
-        }, this.root);
-        return correlation;
+        }, this.unshare(this.root, null));
+    }
+
+    private writeTreeSync(directory: Directory, correlation: Correlation) {
+        this._ensureDirectorySync(directory.fullPath, correlation);
+        directory.children.forEach(child => {
+            if (isDir(child)) {
+                this.writeTreeSync(child, correlation);
+            } else {
+                this.saveFileContentSync(child.fullPath, child.content || '', correlation);
+            }
+        });
+    }
+
+    private emitDifferences(current: Directory, next: Directory, correlation: Correlation) {
+        if (current === next) {
+            return;
+        }
+        const currentChildren = new Map(current.children.map(child => [child.name, child] as [string, Directory | File]));
+        const nextChildren = new Map(next.children.map(child => [child.name, child] as [string, Directory | File]));
+        current.children.forEach(child => {
+            const nextChild = nextChildren.get(child.name);
+            if (nextChild && nextChild.type === child.type) {
+                return;
+            }
+            if (isDir(child)) {
+                this.recursiveEmitDeletion(child, correlation);
+            } else {
+                this.emit('fileDeleted', {type: 'fileDeleted', fullPath: child.fullPath, correlation});
+            }
+        });
+        next.children.forEach(child => {
+            const currentChild = currentChildren.get(child.name);
+            if (isDir(child)) {
+                if (isDir(currentChild)) {
+                    this.emitDifferences(currentChild, child, correlation);
+                } else {
+                    this.recursiveEmitCreation(child, correlation);
+                }
+            } else if (!isFile(currentChild)) {
+                this.emit('fileCreated', {type: 'fileCreated', fullPath: child.fullPath, newContent: child.content || '', correlation});
+            } else if (currentChild !== child && !isSameContent(currentChild.content || '', child.content || '')) {
+                this.emit('fileChanged', {type: 'fileChanged', fullPath: child.fullPath, newContent: child.content || '', correlation});
+            }
+        });
+    }
+
+    private recursiveEmitCreation(node: Directory, correlation: Correlation) {
+        this.emit('directoryCreated', {type: 'directoryCreated', fullPath: node.fullPath, correlation});
+        node.children.forEach(child => {
+            if (isDir(child)) {
+                this.recursiveEmitCreation(child, correlation);
+            } else {
+                this.emit('fileCreated', {type: 'fileCreated', fullPath: child.fullPath, newContent: child.content || '', correlation});
+            }
+        });
     }
 
     private recursiveEmitDeletion(node: Directory, correlation: Correlation) {
@@ -0,0 +1,286 @@
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Disposable,
+    FileSystem,
+    fileSystemAsyncMethods,
+    fileSystemEventNames,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {InternalEventsEmitter, makeCorrelationId, makeEventsEmitter} from './utils';
+import {deserializeError, SerializedError, serializeError} from './errors';
+import {Directory, File, ShallowDirectory, SimpleStats} from './model';
+
+/**
+ * the part of a MessagePort that is used. browser ports (and workers) dispatch `message` events, node's
+ * worker_threads ports emit the message itself
+ */
+export interface MessagePortLike {
+    postMessage(message: any): void;
+
+    addEventListener?(type: 'message', listener: (event: { data: any }) => void): void;
+
+    removeEventListener?(type: 'message', listener: (event: { data: any }) => void): void;
+
+    start?(): void;
+
+    on?(event: 'message', listener: (message: any) => void): void;
+
+    removeListener?(event: 'message', listener: (message: any) => void): void;
+}
+
+/**
+ * messages are tagged, so that the port can carry other messages too
+ */
+type Message =
+    { kissfs: 'call', id: number, method: string, args: any[] } |
+    { kissfs: 'result', id: number, result: any } |
+    { kissfs: 'error', id: number, error: SerializedError } |
+    { kissfs: 'event', event: any } |
+    { kissfs: 'watch', id: string, event: any };
+
+function isMessage(message: any): message is Message {
+    return !!message && typeof message === 'object' && typeof message.kissfs === 'string';
+}
+
+function listen(port: MessagePortLike, onMessage: (message: Message) => void): Disposable {
+    const onData = (data: any) => isMessage(data) && onMessage(data);
+    if (port.on && port.removeListener) {
+        port.on('message', onData);
+        return {dispose: () => port.removeListener!('message', onData)};
+    }
+    const onEvent = (event: { data: any }) => onData(event.data);
+    port.addEventListener!('message', onEvent);
+    if (port.start) {
+        port.start();
+    }
+    return {dispose: () => port.removeEventListener!('message', onEvent)};
+}
+
+/**
+ * serve a file system to a MessagePortFileSystem on the other side of the port. disposing stops serving, but doesn't
+ * dispose the file system
+ */
+export function exposeFileSystem(fs: FileSystem, port: MessagePortLike): Disposable {
+    const watches = new Map<string, Disposable>();
+    const listeners = fileSystemEventNames.map(type => {
+        const listener = (event: any) => port.postMessage({kissfs: 'event', event});
+        fs.events.on(type, listener);
+        return {type, listener};
+    });
+
+    async function call(method: string, args: any[]): Promise<any> {
+        if (method !== 'watch' && method !== 'unwatch') {
+            return (fs as any)[method](...args);
+        }
+        // the client picks the id of the watch
+        const [id, pathOrGlob, options] = args;
+        const watch = watches.get(id);
+        if (watch) {
+            watch.dispose();
+            watches.delete(id);
+        }
+        if (method === 'watch') {
+            const newWatch = fs.watch(pathOrGlob, event => port.postMessage({kissfs: 'watch', id, event}), options);
+            watches.set(id, newWatch);
+            await newWatch.ready;
+        }
+        return null;
+    }
+
+    const listening = listen(port, async message => {
+        if (message.kissfs !== 'call') {
+            return;
+        }
+        const {id, method, args} = message;
+        try {
+            if (method !== 'watch' && method !== 'unwatch' && (fileSystemAsyncMethods as string[]).indexOf(method) === -1) {
+                throw new Error(`Unknown method ${method}`);
+            }
+            port.postMessage({kissfs: 'result', id, result: await call(method, args)});
+        } catch (e) {
+            port.postMessage({kissfs: 'error', id, error: serializeError(e)});
+        }
+    });
+
+    return {
+        dispose() {
+            listening.dispose();
+            listeners.forEach(({type, listener}) => fs.events.removeListener(type, listener));
+            watches.forEach(watch => watch.dispose());
+            watches.clear();
+        }
+    };
+}
+
+/**
+ * a client of exposeFileSystem() on the other side of the port
+ */
+export class MessagePortFileSystem implements FileSystem, Disposable {
+    public readonly events: InternalEventsEmitter = makeEventsEmitter();
+    private nextId = 0;
+    private pendingCalls = new Map<number, { resolve: (result: any) => void, reject: (error: Error) => void }>();
+    private watches = new Map<string, WatchListener>();
+    private listening: Disposable | null;
+
+    constructor(private port: MessagePortLike, public baseUrl = 'message-port') {
+        this.listening = listen(port, message => this.onMessage(message));
+    }
+
+    async saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async saveFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('saveFile', args);
+    }
+
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async saveBinaryFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('saveBinaryFile', args);
+    }
+
+    async deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async deleteFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('deleteFile', args);
+    }
+
+    async deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation>;
+    async deleteDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('deleteDirectory', args);
+    }
+
+    async ensureDirectory(fullPath: string, correlation?: Correlation): Promise<Correlation>;
+    async ensureDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('ensureDirectory', args);
+    }
+
+    async move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+    async move(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('move', args);
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+    async copyFile(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('copyFile', args);
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation>;
+    async copyDirectory(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('copyDirectory', args);
+    }
+
+    async batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation>;
+    async batch(...args: any[]): Promise<Correlation> {
+        return this.call<Correlation>('batch', args);
+    }
+
+    async loadTextFile(fullPath: string): Promise<string>;
+    async loadTextFile(...args: any[]): Promise<string> {
+        return this.call<string>('loadTextFile', args);
+    }
+
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile>;
+    async loadTextFileWithVersion(...args: any[]): Promise<VersionedTextFile> {
+        return this.call<VersionedTextFile>('loadTextFileWithVersion', args);
+    }
+
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array>;
+    async loadBinaryFile(...args: any[]): Promise<Uint8Array> {
+        return this.call<Uint8Array>('loadBinaryFile', args);
+    }
+
+    async loadDirectoryTree(fullPath?: string): Promise<Directory>;
+    async loadDirectoryTree(...args: any[]): Promise<Directory> {
+        return this.call<Directory>('loadDirectoryTree', args);
+    }
+
+    async loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]>;
+    async loadDirectoryChildren(...args: any[]): Promise<(File | ShallowDirectory)[]> {
+        return this.call<(File | ShallowDirectory)[]>('loadDirectoryChildren', args);
+    }
+
+    async stat(fullPath: string): Promise<SimpleStats>;
+    async stat(...args: any[]): Promise<SimpleStats> {
+        return this.call<SimpleStats>('stat', args);
+    }
+
+    async findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]>;
+    async findFiles(...args: any[]): Promise<string[]> {
+        return this.call<string[]>('findFiles', args);
+    }
+
+    async searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]>;
+    async searchText(...args: any[]): Promise<TextSearchMatch[]> {
+        return this.call<TextSearchMatch[]>('searchText', args);
+    }
+
+    /**
+     * events are filtered on the other side of the port
+     */
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        const id = makeCorrelationId() + makeCorrelationId();
+        this.watches.set(id, listener);
+        const watching = this.call('watch', [id, pathOrGlob, options]);
+        const ready = watching.then(() => undefined);
+        ready.catch(error => this.events.emit('unexpectedError', {type: 'unexpectedError', fullPath: pathOrGlob, stack: error.stack}));
+        return {
+            ready,
+            dispose: () => {
+                if (this.watches.delete(id) && this.listening) {
+                    watching.then(() => this.call('unwatch', [id])).catch(() => undefined);
+                }
+            }
+        };
+    }
+
+    /**
+     * stop listening to the port. pending calls are rejected, the port itself is left open
+     */
+    dispose() {
+        if (this.listening) {
+            this.listening.dispose();
+            this.listening = null;
+        }
+        this.pendingCalls.forEach(({reject}) => reject(new Error(`MessagePortFileSystem is disposed`)));
+        this.pendingCalls.clear();
+        this.watches.clear();
+    }
+
+    private onMessage(message: Message) {
+        if (message.kissfs === 'event') {
+            this.events.emit(message.event.type, message.event);
+        } else if (message.kissfs === 'watch') {
+            const listener = this.watches.get(message.id);
+            if (listener) {
+                listener(message.event);
+            }
+        } else if (message.kissfs === 'result' || message.kissfs === 'error') {
+            const pendingCall = this.pendingCalls.get(message.id);
+            if (pendingCall) {
+                this.pendingCalls.delete(message.id);
+                if (message.kissfs === 'error') {
+                    pendingCall.reject(deserializeError(message.error));
+                } else {
+                    pendingCall.resolve(message.result);
+                }
+            }
+        }
+    }
+
+    private call<T>(method: string, args: any[]): Promise<T> {
+        if (!this.listening) {
+            return Promise.reject(new Error(`MessagePortFileSystem is disposed`));
+        }
+        const id = this.nextId++;
+        return new Promise<T>((resolve, reject) => {
+            this.pendingCalls.set(id, {resolve, reject});
+            this.port.postMessage({kissfs: 'call', id, method, args});
+        });
+    }
+}
@@ -1,14 +1,34 @@
 import {endsWith, getPathNodes, normalizePathNodes} from './utils';
+import {addChild, getChild} from './children-index';
 
 export const pathSeparator = '/';
 
-export type DirectoryContent = { [key: string]: string | DirectoryContent };
+export type FileContent = string | Uint8Array;
+
+export type DirectoryContent = { [key: string]: FileContent | DirectoryContent };
 
 export interface SimpleStats {
     type: 'dir' | 'file';
+    /**
+     * size of the file content in bytes
+     */
+    size: number;
+    /**
+     * last time the content was modified
+     */
+    mtime: Date;
+    /**
+     * last time the content or the metadata (e.g. location) was changed
+     */
+    ctime: Date;
+    birthtime: Date;
 }
 
-export interface FileSystemNode extends SimpleStats {
+/**
+ * nodes don't carry stats (it used to extend SimpleStats, when stats had only the type), see FileSystem.stat()
+ */
+export interface FileSystemNode {
+    type: 'dir' | 'file';
     name: string;
     fullPath: string;
 }
@@ -34,7 +54,7 @@ export class Directory implements FileSystemNode {
         while (pathArr.length) {
             const targetName = pathArr.shift();
             if (targetName && directory.children) {
-                const node = directory.children.find(({name}) => name === targetName);
+                const node = getChild(directory, targetName);
                 if (isDir(node)) {
                     directory = node;
                 } else {
@@ -53,7 +73,7 @@ export class Directory implements FileSystemNode {
         while (pathArr.length) {
             const targetName = pathArr.shift();
             if (targetName && directory.children) {
-                const node = directory.children.find(({name}) => name === targetName);
+                const node = getChild(directory, targetName);
                 if (isDir(node)) {
                     directory = node;
                 } else {
@@ -106,7 +126,7 @@ export class Directory implements FileSystemNode {
             Object.keys(content).map(contentPartPath => {
                 const fileContent = content[contentPartPath];
                 const fullPath = childLocation + contentPartPath;
-                if (typeof fileContent === 'string') {
+                if (typeof fileContent === 'string' || isBinaryContent(fileContent)) {
                     return new File(contentPartPath, fullPath, fileContent);
                 } else {
                     return this.fromContent(fileContent, contentPartPath, childLocation);
@@ -135,7 +155,7 @@ export class Directory implements FileSystemNode {
      */
     static mix(subject: Directory, mixin: Directory): Directory {
         mixin.children.forEach(mixChild => {
-            const subjChild = subject.children.find(({name}) => name === mixChild.name);
+            const subjChild = getChild(subject, mixChild.name);
             if (isFile(mixChild)) {
                 if (mixChild.content === undefined) {
                     throw new Error('file not loaded : ' + mixChild.fullPath);
@@ -147,7 +167,7 @@ export class Directory implements FileSystemNode {
                         throw new Error(`can't override directory with file : ${mixChild.fullPath} , ${subjChild.fullPath}`);
                     }
                 } else {
-                    subject.children.push(new File(mixChild.name, normalizePathNodes([subject.fullPath, mixChild.name]), mixChild.content));
+                    addChild(subject, new File(mixChild.name, normalizePathNodes([subject.fullPath, mixChild.name]), mixChild.content));
                 }
             } else if (isDir(mixChild)) {
                 if (subjChild) {
@@ -157,7 +177,7 @@ export class Directory implements FileSystemNode {
                         this.mix(subjChild, mixChild);
                     }
                 } else {
-                    subject.children.push(Directory.clone(mixChild, [subject.fullPath, mixChild.name]));
+                    addChild(subject, Directory.clone(mixChild, [subject.fullPath, mixChild.name]));
                 }
             }
         });
@@ -168,11 +188,11 @@ export class Directory implements FileSystemNode {
 
 export class File implements FileSystemNode {
     public type: 'file' = 'file';
-    public content?: string;
+    public content?: FileContent;
 
     constructor(public name: string,
                 public fullPath: string,
-                content?: string) {
+                content?: FileContent) {
         if (content) this.content = content;
     }
 }
@@ -186,3 +206,7 @@ export function isDir(node?: FileSystemNode | null): node is Directory {
     if (!node) return false;
     return node.type === 'dir';
 }
+
+export function isBinaryContent(content: any): content is Uint8Array {
+    return content instanceof Uint8Array;
+}
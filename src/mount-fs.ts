@@ -0,0 +1,525 @@
+import {Directory, DirectoryContent, File, FileContent, FileSystemNode, isBinaryContent, isDir, pathSeparator, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Disposable,
+    Events,
+    FileSystem,
+    fileSystemEventNames,
+    FileSystemReadSync,
+    FindFilesOptions,
+    isDisposable,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {
+    AlreadyExistsError,
+    FileNotFoundError,
+    InvalidArgumentError,
+    IsADirectoryError,
+    isFileSystemError
+} from './errors';
+import {binaryToFileContent} from './encoding';
+import {getPathNodes, InternalEventsEmitter, makeCorrelationId, makeEventsEmitter, normalizePathNodes} from './utils';
+import {createFileMatcher} from './glob';
+import {searchTextInFileSystem} from './search';
+import {watchEvents} from './watch';
+import {applyBatch} from './batch';
+
+interface Mount<T extends FileSystem> {
+    mountPoint: string;
+    fs: T;
+    listener: (event: Events[keyof Events]) => void;
+}
+
+interface MountedPath<T extends FileSystem> {
+    mount: Mount<T>;
+    innerPath: string;
+}
+
+function normalizePath(fullPath: string): string {
+    return normalizePathNodes(getPathNodes(fullPath));
+}
+
+function isInDirectory(fullPath: string, directoryPath: string): boolean {
+    return !directoryPath || (fullPath + pathSeparator).startsWith(directoryPath + pathSeparator);
+}
+
+function relativePath(fullPath: string, directoryPath: string): string {
+    return directoryPath ? fullPath.slice(directoryPath.length + 1) : fullPath;
+}
+
+function joinPath(directoryPath: string, name: string): string {
+    return directoryPath ? directoryPath + pathSeparator + name : name;
+}
+
+function isMissing(error: any): boolean {
+    return isFileSystemError(error, 'ENOENT') || isFileSystemError(error, 'ENOTDIR');
+}
+
+export namespace MountFileSystem {
+    export interface Options<T extends FileSystem = FileSystem> {
+        /**
+         * file systems by the path they are mounted at. '' mounts a file system at the root
+         */
+        mounts?: { [mountPoint: string]: T };
+    }
+}
+
+/**
+ * routes every path to the file system mounted at its longest matching prefix.
+ * mount points, and the directories leading to them, are always listed as directories.
+ * moving or copying between file systems is done by copying the content and (for moves) deleting the source
+ */
+export class MountFileSystem<T extends FileSystem = FileSystem> implements FileSystem, Disposable {
+    public readonly events: InternalEventsEmitter = makeEventsEmitter();
+    // sorted by depth, deepest first, so the first matching mount is the longest prefix
+    protected mounts: Array<Mount<T>> = [];
+    private readonly createdAt = new Date();
+
+    constructor(public readonly baseUrl = '', options: MountFileSystem.Options<T> = {}) {
+        const mounts = options.mounts || {};
+        Object.keys(mounts).forEach(mountPoint => this.mount(mountPoint, mounts[mountPoint]));
+    }
+
+    /**
+     * the content of the mounted file system is not reported as events
+     */
+    mount(mountPoint: string, fs: T) {
+        mountPoint = normalizePath(mountPoint);
+        if (this.mounts.some(mount => mount.mountPoint === mountPoint)) {
+            throw new AlreadyExistsError(mountPoint, `A file system is already mounted at '${mountPoint}'`);
+        }
+        const mount: Mount<T> = {mountPoint, fs, listener: event => this.onMountEvent(mount, event)};
+        fileSystemEventNames.forEach(type => fs.events.on(type, mount.listener));
+        this.mounts.push(mount);
+        this.mounts.sort((a, b) => getPathNodes(b.mountPoint).length - getPathNodes(a.mountPoint).length);
+    }
+
+    /**
+     * @returns the file system that was mounted at the path
+     */
+    unmount(mountPoint: string): T {
+        mountPoint = normalizePath(mountPoint);
+        const mount = this.mounts.find(m => m.mountPoint === mountPoint);
+        if (!mount) {
+            throw new FileNotFoundError(mountPoint, `No file system is mounted at '${mountPoint}'`);
+        }
+        fileSystemEventNames.forEach(type => mount.fs.events.removeListener(type, mount.listener));
+        this.mounts = this.mounts.filter(m => m !== mount);
+        return mount.fs;
+    }
+
+    dispose() {
+        this.mounts.forEach(({mountPoint}) => {
+            const fs = this.unmount(mountPoint);
+            if (isDisposable(fs)) fs.dispose();
+        });
+    }
+
+    async saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        const {mount, innerPath} = this.resolveWritable(fullPath);
+        return mount.fs.saveFile(innerPath, newContent, correlation, options);
+    }
+
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        const {mount, innerPath} = this.resolveWritable(fullPath);
+        return mount.fs.saveBinaryFile(innerPath, newContent, correlation, options);
+    }
+
+    async deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        if (this.isVirtualDirectory(normalizePath(fullPath))) {
+            throw new IsADirectoryError(fullPath);
+        }
+        const {mount, innerPath} = this.resolveWritable(fullPath);
+        return mount.fs.deleteFile(innerPath, correlation, options);
+    }
+
+    async deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation> {
+        this.checkNotVirtual(fullPath, `Can't delete a mount point '${fullPath}'`);
+        const {mount, innerPath} = this.resolveWritable(fullPath);
+        return mount.fs.deleteDirectory(innerPath, recursive, correlation);
+    }
+
+    async ensureDirectory(fullPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const mounted = this.resolve(fullPath);
+        if (!mounted && this.isVirtualDirectory(normalizePath(fullPath))) {
+            return correlation;
+        }
+        const {mount, innerPath} = this.resolveWritable(fullPath);
+        return mount.fs.ensureDirectory(innerPath, correlation);
+    }
+
+    async move(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        this.checkNotVirtual(fromPath, `Can't move a mount point '${fromPath}'`);
+        const source = this.resolveWritable(fromPath);
+        const target = this.resolveWritable(toPath);
+        if (source.mount === target.mount) {
+            return source.mount.fs.move(source.innerPath, target.innerPath, correlation);
+        }
+        const type = (await source.mount.fs.stat(source.innerPath)).type;
+        if (await this.exists(target)) {
+            throw new AlreadyExistsError(toPath);
+        }
+        await this.copyAcross(fromPath, toPath, correlation);
+        if (type === 'dir') {
+            await source.mount.fs.deleteDirectory(source.innerPath, true, correlation);
+        } else {
+            await source.mount.fs.deleteFile(source.innerPath, correlation);
+        }
+        return correlation;
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const source = this.resolveReadable(fromPath);
+        const target = this.resolveWritable(toPath);
+        if (source.mount === target.mount) {
+            return source.mount.fs.copyFile(source.innerPath, target.innerPath, correlation);
+        }
+        await this.saveContent(target, binaryToFileContent(await source.mount.fs.loadBinaryFile(source.innerPath)), correlation);
+        return correlation;
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options: CopyDirectoryOptions = {}, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const source = this.resolveReadable(fromPath);
+        const target = this.resolveWritable(toPath);
+        if (source.mount === target.mount) {
+            return source.mount.fs.copyDirectory(source.innerPath, target.innerPath, options, correlation);
+        }
+        await this.loadDirectoryTree(fromPath);
+        const existing = await this.exists(target) && (await target.mount.fs.stat(target.innerPath)).type;
+        if (existing === 'file' || (existing && !options.overwrite)) {
+            throw new AlreadyExistsError(toPath);
+        }
+        await this.copyAcross(fromPath, toPath, correlation);
+        return correlation;
+    }
+
+    /**
+     * a batch that only touches one mounted file system is applied by it, otherwise the operations are applied one by one
+     */
+    async batch(operations: BatchOperation[], correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const targets = operations.map(operation => this.resolveWritable(operation.fullPath));
+        const mount = targets.length && targets[0].mount;
+        if (mount && targets.every(target => target.mount === mount)) {
+            return mount.fs.batch(operations.map((operation, i) => ({...operation, fullPath: targets[i].innerPath})), correlation);
+        }
+        return applyBatch(this, operations, correlation);
+    }
+
+    async loadTextFile(fullPath: string): Promise<string> {
+        const {mount, innerPath} = this.resolveReadable(fullPath);
+        return mount.fs.loadTextFile(innerPath);
+    }
+
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        const {mount, innerPath} = this.resolveReadable(fullPath);
+        return mount.fs.loadTextFileWithVersion(innerPath);
+    }
+
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        const {mount, innerPath} = this.resolveReadable(fullPath);
+        return mount.fs.loadBinaryFile(innerPath);
+    }
+
+    async loadDirectoryTree(fullPath: string = ''): Promise<Directory> {
+        const dirPath = normalizePath(fullPath);
+        const mounted = this.resolve(dirPath);
+        let tree: Directory | null = null;
+        if (mounted) {
+            try {
+                tree = this.toOuterNode(mounted.mount, await mounted.mount.fs.loadDirectoryTree(mounted.innerPath));
+            } catch (e) {
+                this.rethrowUnlessVirtual(e, dirPath);
+            }
+        } else if (!this.isVirtualDirectory(dirPath)) {
+            throw new FileNotFoundError(fullPath);
+        }
+        const subTrees: Directory[] = [];
+        for (const name of this.getVirtualChildNames(dirPath)) {
+            subTrees.push(await this.loadDirectoryTree(joinPath(dirPath, name)));
+        }
+        return this.graftVirtualChildren(dirPath, tree, subTrees);
+    }
+
+    async loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]> {
+        const dirPath = normalizePath(fullPath);
+        const mounted = this.resolve(dirPath);
+        let children: (File | ShallowDirectory)[] = [];
+        if (mounted) {
+            try {
+                children = (await mounted.mount.fs.loadDirectoryChildren(mounted.innerPath)).map(child => this.toOuterNode(mounted.mount, child));
+            } catch (e) {
+                this.rethrowUnlessVirtual(e, dirPath);
+            }
+        } else if (!this.isVirtualDirectory(dirPath)) {
+            throw new FileNotFoundError(fullPath);
+        }
+        return this.addVirtualChildren(dirPath, children);
+    }
+
+    async stat(fullPath: string): Promise<SimpleStats> {
+        const dirPath = normalizePath(fullPath);
+        const mounted = this.resolve(dirPath);
+        if (mounted) {
+            try {
+                return await mounted.mount.fs.stat(mounted.innerPath);
+            } catch (e) {
+                this.rethrowUnlessVirtual(e, dirPath);
+            }
+        }
+        return this.statVirtualDirectory(fullPath);
+    }
+
+    async findFiles(patterns: string | string[], options: FindFilesOptions = {}): Promise<string[]> {
+        const cwd = normalizePath(options.cwd || '');
+        const matcher = createFileMatcher(patterns, options.ignore);
+        const cwdMount = this.resolve(cwd);
+        if (!cwdMount && !this.isVirtualDirectory(cwd)) {
+            throw new FileNotFoundError(cwd);
+        }
+        const result: string[] = [];
+        for (const mount of this.mounts) {
+            let found: string[] = [];
+            if (cwdMount && mount === cwdMount.mount) {
+                try {
+                    found = await mount.fs.findFiles(patterns, {...options, cwd: cwdMount.innerPath});
+                } catch (e) {
+                    this.rethrowUnlessVirtual(e, cwd);
+                }
+            } else if (isInDirectory(mount.mountPoint, cwd) && mount.mountPoint !== cwd) {
+                // patterns are relative to cwd, so they can't be passed on to file systems mounted below it
+                if (matcher.matchDirectory(relativePath(mount.mountPoint, cwd))) {
+                    found = (await mount.fs.findFiles('**')).filter(innerPath =>
+                        matcher.matchFile(relativePath(joinPath(mount.mountPoint, innerPath), cwd)));
+                }
+            }
+            found.map(innerPath => joinPath(mount.mountPoint, innerPath))
+                .filter(fullPath => this.resolve(fullPath)!.mount === mount)
+                .forEach(fullPath => result.push(fullPath));
+        }
+        return result.sort();
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return searchTextInFileSystem(this, query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return watchEvents(this.events, pathOrGlob, listener, options);
+    }
+
+    protected resolve(fullPath: string): MountedPath<T> | null {
+        const normalized = normalizePath(fullPath);
+        const mount = this.mounts.find(({mountPoint}) => isInDirectory(normalized, mountPoint));
+        return mount ? {mount, innerPath: relativePath(normalized, mount.mountPoint)} : null;
+    }
+
+    protected resolveReadable(fullPath: string): MountedPath<T> {
+        const mounted = this.resolve(fullPath);
+        if (!mounted) {
+            throw this.isVirtualDirectory(normalizePath(fullPath)) ? new IsADirectoryError(fullPath) : new FileNotFoundError(fullPath);
+        }
+        return mounted;
+    }
+
+    protected resolveWritable(fullPath: string): MountedPath<T> {
+        const mounted = this.resolve(fullPath);
+        if (!mounted) {
+            throw new InvalidArgumentError(fullPath, `No file system is mounted at '${fullPath}'`);
+        }
+        return mounted;
+    }
+
+    /**
+     * the root, mount points and the directories that lead to them
+     */
+    protected isVirtualDirectory(dirPath: string): boolean {
+        return !dirPath || this.mounts.some(({mountPoint}) => isInDirectory(mountPoint, dirPath));
+    }
+
+    protected getVirtualChildNames(dirPath: string): string[] {
+        const names: string[] = [];
+        this.mounts.forEach(({mountPoint}) => {
+            if (mountPoint !== dirPath && isInDirectory(mountPoint, dirPath)) {
+                const name = getPathNodes(relativePath(mountPoint, dirPath))[0];
+                if (names.indexOf(name) === -1) {
+                    names.push(name);
+                }
+            }
+        });
+        return names.sort();
+    }
+
+    protected rethrowUnlessVirtual(error: any, dirPath: string) {
+        if (!isMissing(error) || !this.isVirtualDirectory(dirPath)) {
+            throw error;
+        }
+    }
+
+    protected graftVirtualChildren(dirPath: string, tree: Directory | null, subTrees: Directory[]): Directory {
+        const names = subTrees.map(({name}) => name);
+        const children = tree ? tree.children.filter(({name}) => names.indexOf(name) === -1) : [];
+        return new Directory(getPathNodes(dirPath).pop() || '', dirPath, children.concat(subTrees));
+    }
+
+    protected addVirtualChildren(dirPath: string, children: (File | ShallowDirectory)[]): (File | ShallowDirectory)[] {
+        const names = this.getVirtualChildNames(dirPath);
+        return children
+            .filter(({name}) => names.indexOf(name) === -1)
+            .concat(names.map(name => new ShallowDirectory(name, joinPath(dirPath, name))));
+    }
+
+    protected statVirtualDirectory(fullPath: string): SimpleStats {
+        if (!this.isVirtualDirectory(normalizePath(fullPath))) {
+            throw new FileNotFoundError(fullPath);
+        }
+        return {type: 'dir', size: 0, mtime: this.createdAt, ctime: this.createdAt, birthtime: this.createdAt};
+    }
+
+    protected toOuterNode<N extends FileSystemNode>(mount: Mount<T>, node: N): N {
+        const fullPath = joinPath(mount.mountPoint, node.fullPath);
+        const outer = Object.assign(Object.create(Object.getPrototypeOf(node)), node, {fullPath});
+        if (!node.fullPath) {
+            outer.name = getPathNodes(fullPath).pop() || '';
+        }
+        if (isDir(node) && node.children) {
+            outer.children = node.children.map(child => this.toOuterNode(mount, child));
+        }
+        return outer;
+    }
+
+    private onMountEvent(mount: Mount<T>, event: Events[keyof Events]) {
+        const outer: any = {...event, fullPath: joinPath(mount.mountPoint, event.fullPath)};
+        if (event.type !== 'unexpectedError' && this.resolve(outer.fullPath)!.mount !== mount) {
+            // hidden by a file system mounted below this one
+            return;
+        }
+        if (typeof outer.oldFullPath === 'string') {
+            outer.oldFullPath = joinPath(mount.mountPoint, outer.oldFullPath);
+        }
+        this.events.emit(event.type, outer);
+    }
+
+    private checkNotVirtual(fullPath: string, message: string) {
+        if (this.isVirtualDirectory(normalizePath(fullPath))) {
+            throw new InvalidArgumentError(fullPath, message);
+        }
+    }
+
+    private async exists({mount, innerPath}: MountedPath<T>): Promise<boolean> {
+        try {
+            await mount.fs.stat(innerPath);
+            return true;
+        } catch (e) {
+            if (isMissing(e)) {
+                return false;
+            }
+            throw e;
+        }
+    }
+
+    private async saveContent({mount, innerPath}: MountedPath<T>, content: FileContent, correlation: Correlation) {
+        if (isBinaryContent(content)) {
+            await mount.fs.saveBinaryFile(innerPath, content, correlation);
+        } else {
+            await mount.fs.saveFile(innerPath, content, correlation);
+        }
+    }
+
+    private async copyAcross(fromPath: string, toPath: string, correlation: Correlation) {
+        const {mount, innerPath} = this.resolveReadable(fromPath);
+        if ((await mount.fs.stat(innerPath)).type === 'file') {
+            await this.saveContent(this.resolveWritable(toPath), binaryToFileContent(await mount.fs.loadBinaryFile(innerPath)), correlation);
+            return;
+        }
+        await this.ensureDirectory(toPath, correlation);
+        for (const child of await this.loadDirectoryChildren(fromPath)) {
+            await this.copyAcross(child.fullPath, joinPath(normalizePath(toPath), child.name), correlation);
+        }
+    }
+}
+
+/**
+ * a MountFileSystem of file systems that can all be read synchronously
+ */
+export class MountFileSystemSync extends MountFileSystem<FileSystemReadSync> implements FileSystemReadSync {
+
+    loadTextFileSync(fullPath: string): string {
+        const {mount, innerPath} = this.resolveReadable(fullPath);
+        return mount.fs.loadTextFileSync(innerPath);
+    }
+
+    loadBinaryFileSync(fullPath: string): Uint8Array {
+        const {mount, innerPath} = this.resolveReadable(fullPath);
+        return mount.fs.loadBinaryFileSync(innerPath);
+    }
+
+    loadDirectoryTreeSync(fullPath: string = ''): Directory {
+        const dirPath = normalizePath(fullPath);
+        const mounted = this.resolve(dirPath);
+        let tree: Directory | null = null;
+        if (mounted) {
+            try {
+                tree = this.toOuterNode(mounted.mount, mounted.mount.fs.loadDirectoryTreeSync(mounted.innerPath));
+            } catch (e) {
+                this.rethrowUnlessVirtual(e, dirPath);
+            }
+        } else if (!this.isVirtualDirectory(dirPath)) {
+            throw new FileNotFoundError(fullPath);
+        }
+        const subTrees = this.getVirtualChildNames(dirPath).map(name => this.loadDirectoryTreeSync(joinPath(dirPath, name)));
+        return this.graftVirtualChildren(dirPath, tree, subTrees);
+    }
+
+    loadDirectoryContentSync(fullPath: string = ''): DirectoryContent {
+        const dirPath = normalizePath(fullPath);
+        const mounted = this.resolve(dirPath);
+        let content: DirectoryContent = {};
+        if (mounted) {
+            try {
+                content = mounted.mount.fs.loadDirectoryContentSync(mounted.innerPath);
+            } catch (e) {
+                this.rethrowUnlessVirtual(e, dirPath);
+            }
+        } else if (!this.isVirtualDirectory(dirPath)) {
+            throw new FileNotFoundError(fullPath);
+        }
+        this.getVirtualChildNames(dirPath).forEach(name => content[name] = this.loadDirectoryContentSync(joinPath(dirPath, name)));
+        return content;
+    }
+
+    loadDirectoryChildrenSync(fullPath: string): Array<File | ShallowDirectory> {
+        const dirPath = normalizePath(fullPath);
+        const mounted = this.resolve(dirPath);
+        let children: (File | ShallowDirectory)[] = [];
+        if (mounted) {
+            try {
+                children = mounted.mount.fs.loadDirectoryChildrenSync(mounted.innerPath).map(child => this.toOuterNode(mounted.mount, child));
+            } catch (e) {
+                this.rethrowUnlessVirtual(e, dirPath);
+            }
+        } else if (!this.isVirtualDirectory(dirPath)) {
+            throw new FileNotFoundError(fullPath);
+        }
+        return this.addVirtualChildren(dirPath, children);
+    }
+
+    statSync(fullPath: string): SimpleStats {
+        const mounted = this.resolve(fullPath);
+        if (mounted) {
+            try {
+                return mounted.mount.fs.statSync(mounted.innerPath);
+            } catch (e) {
+                this.rethrowUnlessVirtual(e, normalizePath(fullPath));
+            }
+        }
+        return this.statVirtualDirectory(fullPath);
+    }
+}
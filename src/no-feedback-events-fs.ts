@@ -1,7 +1,24 @@
 import {Directory, DirectoryContent, File, ShallowDirectory, SimpleStats} from './model';
-import {Correlation, EventEmitter, FileSystem, fileSystemEventNames, FileSystemReadSync} from './api';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    EventEmitter,
+    FileSystem,
+    fileSystemEventNames,
+    FileSystemReadSync,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
 import {EventsManager} from './events-manager';
 import {makeCorrelationId} from './utils';
+import {watchEvents} from './watch';
 
 export namespace NoFeedbackEventsFileSystem {
     export type Options = {
@@ -34,14 +51,19 @@ export class NoFeedbackEventsFileSystem implements FileSystem {
         fileSystemEventNames.forEach(type => this.fs.events.on(type, emit));
     }
 
-    async saveFile(fullPath: string, newContent: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+    async saveFile(fullPath: string, newContent: string, correlation: Correlation = makeCorrelationId(), options?: WriteOptions): Promise<Correlation> {
         this.registerCorrelation(correlation, false);
-        return await this.fs.saveFile(fullPath, newContent, correlation);
+        return await this.fs.saveFile(fullPath, newContent, correlation, options);
     }
 
-    async deleteFile(fullPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation: Correlation = makeCorrelationId(), options?: WriteOptions): Promise<Correlation> {
+        this.registerCorrelation(correlation, false);
+        return await this.fs.saveBinaryFile(fullPath, newContent, correlation, options);
+    }
+
+    async deleteFile(fullPath: string, correlation: Correlation = makeCorrelationId(), options?: WriteOptions): Promise<Correlation> {
         this.registerCorrelation(correlation, true);
-        return await this.fs.deleteFile(fullPath, correlation);
+        return await this.fs.deleteFile(fullPath, correlation, options);
     }
 
     async deleteDirectory(fullPath: string, recursive?: boolean, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
@@ -54,10 +76,38 @@ export class NoFeedbackEventsFileSystem implements FileSystem {
         return await this.fs.ensureDirectory(fullPath, correlation);
     }
 
+    async move(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        this.registerCorrelation(correlation, false);
+        return await this.fs.move(fromPath, toPath, correlation);
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        this.registerCorrelation(correlation, false);
+        return await this.fs.copyFile(fromPath, toPath, correlation);
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        this.registerCorrelation(correlation, false);
+        return await this.fs.copyDirectory(fromPath, toPath, options, correlation);
+    }
+
+    async batch(operations: BatchOperation[], correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        this.registerCorrelation(correlation, false);
+        return await this.fs.batch(operations, correlation);
+    }
+
     loadTextFile(fullPath: string): Promise<string> {
         return this.fs.loadTextFile(fullPath);
     }
 
+    loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return this.fs.loadTextFileWithVersion(fullPath);
+    }
+
+    loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return this.fs.loadBinaryFile(fullPath);
+    }
+
     loadDirectoryTree(fullPath?: string): Promise<Directory> {
         return this.fs.loadDirectoryTree(fullPath);
     }
@@ -70,6 +120,18 @@ export class NoFeedbackEventsFileSystem implements FileSystem {
         return this.fs.stat(fullPath);
     }
 
+    findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]> {
+        return this.fs.findFiles(patterns, options);
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return this.fs.searchText(query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return watchEvents(this.events, pathOrGlob, listener, options);
+    }
+
     protected registerCorrelation(correlation: Correlation, once: boolean) {
         const targetSet = once ? this.correlateOnce : this.correlateByWindow;
         targetSet.add(correlation);
@@ -88,6 +150,10 @@ export class NoFeedbackEventsFileSystemSync extends NoFeedbackEventsFileSystem i
         return this.syncFs.loadTextFileSync(fullPath);
     }
 
+    loadBinaryFileSync(fullPath: string): Uint8Array {
+        return this.syncFs.loadBinaryFileSync(fullPath);
+    }
+
     loadDirectoryTreeSync(fullPath?: string | undefined): Directory {
         return this.syncFs.loadDirectoryTreeSync(fullPath);
     }
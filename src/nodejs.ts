@@ -1,3 +1,10 @@
 export * from './universal';
+export * from './persistent-memory-fs';
 export {LocalFileSystem} from './local-fs';
 export * from './wamp-server-over-fs';
+export {GitFileSystem} from './git-fs';
+export {ZipFileSystem} from './zip-fs';
+export {HttpClientFileSystem, noHttpConnectionError} from './http-client-fs';
+export * from './http-server-over-fs';
+export * from './json-rpc-server-over-fs';
+export * from './ipc-fs';
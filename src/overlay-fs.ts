@@ -0,0 +1,586 @@
+import {Directory, File, FileContent, isBinaryContent, isDir, pathSeparator, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Disposable,
+    Events,
+    FileSystem,
+    fileSystemEventNames,
+    FindFilesOptions,
+    isDisposable,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {
+    AlreadyExistsError,
+    ConflictError,
+    DirectoryNotEmptyError,
+    FileNotFoundError,
+    InvalidArgumentError,
+    IsADirectoryError,
+    isFileSystemError,
+    NotADirectoryError
+} from './errors';
+import {binaryToFileContent, getContentVersion, isSameContent} from './encoding';
+import {getPathNodes, InternalEventsEmitter, makeCorrelationId, makeEventsEmitter, normalizePathNodes} from './utils';
+import {createFileMatcher, findFilesInTree} from './glob';
+import {searchTextInFileSystem} from './search';
+import {watchEvents} from './watch';
+import {applyBatch} from './batch';
+import {MemoryFileSystem} from './memory-fs';
+
+type NodeType = 'file' | 'dir' | null;
+
+async function getNodeType(fs: FileSystem, fullPath: string): Promise<NodeType> {
+    if (!getPathNodes(fullPath).length) {
+        return 'dir';
+    }
+    try {
+        return (await fs.stat(fullPath)).type;
+    } catch (e) {
+        if (isFileSystemError(e, 'ENOENT') || isFileSystemError(e, 'ENOTDIR')) {
+            return null;
+        }
+        throw e;
+    }
+}
+
+function isInDirectory(fullPath: string, directoryPath: string): boolean {
+    return (fullPath + pathSeparator).startsWith(directoryPath + pathSeparator);
+}
+
+function listTree(directory: Directory, accumulator = new Map<string, 'file' | 'dir'>()): Map<string, 'file' | 'dir'> {
+    directory.children.forEach(child => {
+        accumulator.set(child.fullPath, child.type);
+        if (isDir(child)) {
+            listTree(child, accumulator);
+        }
+    });
+    return accumulator;
+}
+
+/**
+ * a writable file system over a lower one that it never writes to (until commit()).
+ * writes go to the upper layer, deletions of lower files and directories are recorded as whiteouts.
+ * the upper layer should not be used by anyone else, as its events are ignored.
+ */
+export class OverlayFileSystem implements FileSystem, Disposable {
+    public readonly events: InternalEventsEmitter = makeEventsEmitter();
+    private readonly whiteouts = new Set<string>();
+    // events of a commit may arrive from the lower layer after it completes
+    private readonly commitCorrelations = new Set<Correlation>();
+    private lowerEvents: Promise<void> = Promise.resolve();
+
+    constructor(private readonly lower: FileSystem, private readonly upper: FileSystem = new MemoryFileSystem()) {
+        fileSystemEventNames.forEach(type => this.lower.events.on(type, this.onLowerEvent));
+    }
+
+    get baseUrl(): string {
+        return this.lower.baseUrl;
+    }
+
+    dispose() {
+        fileSystemEventNames.forEach(type => this.lower.events.removeListener(type, this.onLowerEvent));
+        if (isDisposable(this.upper)) this.upper.dispose();
+        if (isDisposable(this.lower)) this.lower.dispose();
+    }
+
+    async saveFile(fullPath: string, newContent: string, correlation: Correlation = makeCorrelationId(), options: WriteOptions = {}): Promise<Correlation> {
+        return this.saveContent(fullPath, newContent, correlation, options);
+    }
+
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation: Correlation = makeCorrelationId(), options: WriteOptions = {}): Promise<Correlation> {
+        return this.saveContent(fullPath, new Uint8Array(newContent), correlation, options);
+    }
+
+    async deleteFile(fullPath: string, correlation: Correlation = makeCorrelationId(), options: WriteOptions = {}): Promise<Correlation> {
+        const type = await this.getType(fullPath);
+        if (type === 'dir') {
+            throw new IsADirectoryError(fullPath);
+        }
+        await this.checkVersion(fullPath, type, options.ifMatch);
+        if (type === 'file') {
+            if (await getNodeType(this.upper, fullPath)) {
+                await this.upper.deleteFile(fullPath);
+            }
+            await this.hideLowerNode(fullPath);
+            this.emit({type: 'fileDeleted', fullPath, correlation});
+        }
+        return correlation;
+    }
+
+    async deleteDirectory(fullPath: string, recursive?: boolean, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        if (!getPathNodes(fullPath).length) {
+            throw new InvalidArgumentError(fullPath, `Can't delete root directory`);
+        }
+        const type = await this.getType(fullPath);
+        if (type === 'file') {
+            throw new NotADirectoryError(fullPath);
+        }
+        if (type === 'dir') {
+            const tree = await this.loadDirectoryTree(fullPath);
+            if (!recursive && tree.children.length) {
+                throw new DirectoryNotEmptyError(fullPath);
+            }
+            if (await getNodeType(this.upper, fullPath)) {
+                await this.upper.deleteDirectory(fullPath, true);
+            }
+            await this.hideLowerNode(fullPath);
+            this.emitDeletion(tree, correlation);
+        }
+        return correlation;
+    }
+
+    async ensureDirectory(fullPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const missingDirectories = await this.findMissingDirectories(getPathNodes(fullPath));
+        if (missingDirectories.length) {
+            await this.upper.ensureDirectory(fullPath);
+        }
+        missingDirectories.forEach(dirPath => this.emit({type: 'directoryCreated', fullPath: dirPath, correlation}));
+        return correlation;
+    }
+
+    async move(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const toPathArr = getPathNodes(toPath);
+        if (!getPathNodes(fromPath).length || !toPathArr.length) {
+            throw new InvalidArgumentError(fromPath, `Can't move root directory`);
+        }
+        const type = await this.getType(fromPath);
+        if (!type) {
+            throw new FileNotFoundError(fromPath);
+        }
+        const targetFullPath = normalizePathNodes(toPathArr);
+        if (type === 'dir' && isInDirectory(targetFullPath, normalizePathNodes(getPathNodes(fromPath)))) {
+            throw new InvalidArgumentError(toPath, `Can't move directory '${fromPath}' into itself '${toPath}'`);
+        }
+        if (await this.getType(targetFullPath)) {
+            throw new AlreadyExistsError(toPath);
+        }
+        const missingDirectories = await this.findMissingDirectories(toPathArr.slice(0, -1));
+
+        if (type === 'file') {
+            await this.writeToUpper(targetFullPath, await this.loadContent(fromPath));
+            if (await getNodeType(this.upper, fromPath)) {
+                await this.upper.deleteFile(fromPath);
+            }
+        } else {
+            await this.copyTreeToUpper(await this.loadDirectoryTree(fromPath), targetFullPath);
+            if (await getNodeType(this.upper, fromPath)) {
+                await this.upper.deleteDirectory(fromPath, true);
+            }
+        }
+        await this.hideLowerNode(fromPath);
+
+        missingDirectories.forEach(dirPath => this.emit({type: 'directoryCreated', fullPath: dirPath, correlation}));
+        if (type === 'dir') {
+            this.emit({type: 'directoryRenamed', fullPath: toPath, oldFullPath: fromPath, correlation});
+        } else {
+            this.emit({type: 'fileRenamed', fullPath: toPath, oldFullPath: fromPath, correlation});
+        }
+        return correlation;
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const type = await this.getType(fromPath);
+        if (!type) {
+            throw new FileNotFoundError(fromPath);
+        }
+        if (type === 'dir') {
+            throw new IsADirectoryError(fromPath);
+        }
+        return this.saveContent(toPath, await this.loadContent(fromPath), correlation, {});
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options: CopyDirectoryOptions = {}, correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const source = await this.loadDirectoryTree(fromPath);
+        const toPathArr = getPathNodes(toPath);
+        if (!toPathArr.length) {
+            throw new InvalidArgumentError(toPath, `Can't copy over root directory`);
+        }
+        const targetFullPath = normalizePathNodes(toPathArr);
+        if (isInDirectory(targetFullPath, source.fullPath)) {
+            throw new InvalidArgumentError(toPath, `Can't copy directory '${fromPath}' into itself '${toPath}'`);
+        }
+        const existing = await this.getType(targetFullPath);
+        if (existing === 'file' || (existing && !options.overwrite)) {
+            throw new AlreadyExistsError(toPath);
+        }
+        const copyTree = async (directory: Directory, targetPath: string) => {
+            await this.ensureDirectory(targetPath, correlation);
+            for (const child of directory.children) {
+                const childTargetPath = targetPath + pathSeparator + child.name;
+                if (isDir(child)) {
+                    await copyTree(child, childTargetPath);
+                } else {
+                    await this.saveContent(childTargetPath, await this.loadContent(child.fullPath), correlation, {});
+                }
+            }
+        };
+        await copyTree(source, targetFullPath);
+        return correlation;
+    }
+
+    /**
+     * the operations are applied one by one, and are not undone if one of them fails
+     */
+    batch(operations: BatchOperation[], correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        return applyBatch(this, operations, correlation);
+    }
+
+    async loadTextFile(fullPath: string): Promise<string> {
+        return (await this.getReadLayer(fullPath)).loadTextFile(fullPath);
+    }
+
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return (await this.getReadLayer(fullPath)).loadTextFileWithVersion(fullPath);
+    }
+
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return (await this.getReadLayer(fullPath)).loadBinaryFile(fullPath);
+    }
+
+    async stat(fullPath: string): Promise<SimpleStats> {
+        return (await this.getReadLayer(fullPath)).stat(fullPath);
+    }
+
+    async loadDirectoryTree(fullPath: string = ''): Promise<Directory> {
+        await this.checkIsDirectory(fullPath);
+        const upperTree = await getNodeType(this.upper, fullPath) === 'dir' ? await this.upper.loadDirectoryTree(fullPath) : null;
+        const lowerTree = await this.getLowerType(fullPath) === 'dir' ? await this.lower.loadDirectoryTree(fullPath) : null;
+        return this.mergeTrees(lowerTree, upperTree);
+    }
+
+    async loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]> {
+        await this.checkIsDirectory(fullPath);
+        const upperChildren = await getNodeType(this.upper, fullPath) === 'dir' ? await this.upper.loadDirectoryChildren(fullPath) : [];
+        const lowerChildren = await this.getLowerType(fullPath) === 'dir' ? await this.lower.loadDirectoryChildren(fullPath) : [];
+        return this.mergeChildren(lowerChildren, upperChildren);
+    }
+
+    async findFiles(patterns: string | string[], options: FindFilesOptions = {}): Promise<string[]> {
+        return findFilesInTree(await this.loadDirectoryTree(options.cwd || ''), createFileMatcher(patterns, options.ignore));
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return searchTextInFileSystem(this, query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return watchEvents(this.events, pathOrGlob, listener, options);
+    }
+
+    /**
+     * write the changes of the upper layer into the lower one, and empty the upper layer.
+     * the merged view does not change, so no events are emitted
+     */
+    async commit(correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        this.commitCorrelations.add(correlation);
+        const whiteouts = Array.from(this.whiteouts).sort();
+        for (const fullPath of whiteouts) {
+            if (whiteouts.some(other => other !== fullPath && isInDirectory(fullPath, other))) {
+                continue;
+            }
+            const type = await getNodeType(this.lower, fullPath);
+            if (type === 'dir') {
+                await this.lower.deleteDirectory(fullPath, true, correlation);
+            } else if (type === 'file') {
+                await this.lower.deleteFile(fullPath, correlation);
+            }
+        }
+        this.whiteouts.clear();
+
+        const writeTree = async (directory: Directory) => {
+            for (const child of directory.children) {
+                if (isDir(child)) {
+                    await this.lower.ensureDirectory(child.fullPath, correlation);
+                    await writeTree(child);
+                } else {
+                    const content = binaryToFileContent(await this.upper.loadBinaryFile(child.fullPath));
+                    if (isBinaryContent(content)) {
+                        await this.lower.saveBinaryFile(child.fullPath, content, correlation);
+                    } else {
+                        await this.lower.saveFile(child.fullPath, content, correlation);
+                    }
+                }
+            }
+        };
+        await writeTree(await this.upper.loadDirectoryTree());
+        await this.clearUpper();
+        return correlation;
+    }
+
+    /**
+     * drop the changes of the upper layer (and the whiteouts), emitting the events that revert the merged view
+     * to the content of the lower layer
+     */
+    async discard(correlation: Correlation = makeCorrelationId()): Promise<Correlation> {
+        const before = listTree(await this.loadDirectoryTree());
+        const upperNodes = listTree(await this.upper.loadDirectoryTree());
+        const changedContent = new Map<string, Uint8Array>();
+        for (const [fullPath, type] of upperNodes) {
+            if (type === 'file') {
+                changedContent.set(fullPath, await this.upper.loadBinaryFile(fullPath));
+            }
+        }
+        this.whiteouts.clear();
+        await this.clearUpper();
+        const after = listTree(await this.lower.loadDirectoryTree());
+
+        for (const [fullPath, type] of before) {
+            if (after.get(fullPath) !== type) {
+                if (type === 'dir') {
+                    this.emit({type: 'directoryDeleted', fullPath, correlation});
+                } else {
+                    this.emit({type: 'fileDeleted', fullPath, correlation});
+                }
+            }
+        }
+        for (const [fullPath, type] of after) {
+            const previous = before.get(fullPath);
+            if (type === 'dir') {
+                if (previous !== 'dir') {
+                    this.emit({type: 'directoryCreated', fullPath, correlation});
+                }
+                continue;
+            }
+            const oldContent = changedContent.get(fullPath);
+            if (previous !== 'file') {
+                this.emit({type: 'fileCreated', fullPath, newContent: await this.loadContent(fullPath), correlation});
+            } else if (oldContent) {
+                const newContent = await this.loadContent(fullPath);
+                if (!isSameContent(oldContent, newContent)) {
+                    this.emit({type: 'fileChanged', fullPath, newContent, correlation});
+                }
+            }
+        }
+        return correlation;
+    }
+
+    private async saveContent(fullPath: string, newContent: FileContent, correlation: Correlation, options: WriteOptions): Promise<Correlation> {
+        const pathArr = getPathNodes(fullPath);
+        if (!pathArr.length) {
+            throw new InvalidArgumentError(fullPath, `root is not a legal file name`);
+        }
+        const type = await this.getType(fullPath);
+        await this.checkVersion(fullPath, type, options.ifMatch);
+        const missingDirectories = await this.findMissingDirectories(pathArr.slice(0, -1));
+        if (type === 'dir') {
+            throw new IsADirectoryError(fullPath);
+        }
+        const oldContent = type === 'file' ? await this.loadBinaryFile(fullPath) : null;
+        await this.writeToUpper(fullPath, newContent);
+
+        missingDirectories.forEach(dirPath => this.emit({type: 'directoryCreated', fullPath: dirPath, correlation}));
+        if (!oldContent) {
+            this.emit({type: 'fileCreated', fullPath, newContent, correlation});
+        } else if (!isSameContent(oldContent, newContent)) {
+            this.emit({type: 'fileChanged', fullPath, newContent, correlation});
+        }
+        return correlation;
+    }
+
+    private async checkVersion(fullPath: string, type: NodeType, ifMatch?: string) {
+        if (ifMatch === undefined) {
+            return;
+        }
+        if (type !== 'file' || getContentVersion(await this.loadBinaryFile(fullPath)) !== ifMatch) {
+            throw new ConflictError(fullPath);
+        }
+    }
+
+    private async checkIsDirectory(fullPath: string) {
+        const type = await this.getType(fullPath);
+        if (!type) {
+            throw new FileNotFoundError(fullPath);
+        } else if (type === 'file') {
+            throw new NotADirectoryError(fullPath);
+        }
+    }
+
+    /**
+     * @returns the paths of the directories that need to be created, throws if one of them is a file
+     */
+    private async findMissingDirectories(pathArr: string[]): Promise<string[]> {
+        const missing: string[] = [];
+        for (let length = 1; length <= pathArr.length; length++) {
+            const dirPath = normalizePathNodes(pathArr.slice(0, length));
+            const type = missing.length ? null : await this.getType(dirPath);
+            if (type === 'file') {
+                throw new NotADirectoryError(dirPath);
+            } else if (!type) {
+                missing.push(dirPath);
+            }
+        }
+        return missing;
+    }
+
+    private isWhitedOut(fullPath: string): boolean {
+        const pathArr = getPathNodes(fullPath);
+        for (let length = 1; length <= pathArr.length; length++) {
+            if (this.whiteouts.has(normalizePathNodes(pathArr.slice(0, length)))) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private async getLowerType(fullPath: string): Promise<NodeType> {
+        return this.isWhitedOut(fullPath) ? null : getNodeType(this.lower, fullPath);
+    }
+
+    private async getType(fullPath: string): Promise<NodeType> {
+        return (await getNodeType(this.upper, fullPath)) || this.getLowerType(fullPath);
+    }
+
+    /**
+     * the upper layer answers for its own paths, and for whited out paths (which it doesn't have)
+     */
+    private async getReadLayer(fullPath: string): Promise<FileSystem> {
+        return this.isWhitedOut(fullPath) || await getNodeType(this.upper, fullPath) ? this.upper : this.lower;
+    }
+
+    private async isLowerNodeVisible(fullPath: string): Promise<boolean> {
+        return !this.isWhitedOut(fullPath) && !(await getNodeType(this.upper, fullPath));
+    }
+
+    private async hideLowerNode(fullPath: string) {
+        if (await this.getLowerType(fullPath)) {
+            const normalized = normalizePathNodes(getPathNodes(fullPath));
+            this.whiteouts.forEach(whiteout => isInDirectory(whiteout, normalized) && this.whiteouts.delete(whiteout));
+            this.whiteouts.add(normalized);
+        }
+    }
+
+    private async loadContent(fullPath: string): Promise<FileContent> {
+        return binaryToFileContent(await this.loadBinaryFile(fullPath));
+    }
+
+    private async writeToUpper(fullPath: string, content: FileContent) {
+        if (isBinaryContent(content)) {
+            await this.upper.saveBinaryFile(fullPath, content);
+        } else {
+            await this.upper.saveFile(fullPath, content);
+        }
+    }
+
+    private async copyTreeToUpper(directory: Directory, targetPath: string) {
+        await this.upper.ensureDirectory(targetPath);
+        for (const child of directory.children) {
+            const childTargetPath = targetPath + pathSeparator + child.name;
+            if (isDir(child)) {
+                await this.copyTreeToUpper(child, childTargetPath);
+            } else {
+                await this.writeToUpper(childTargetPath, await this.loadContent(child.fullPath));
+            }
+        }
+    }
+
+    private async clearUpper() {
+        for (const child of (await this.upper.loadDirectoryTree()).children) {
+            if (isDir(child)) {
+                await this.upper.deleteDirectory(child.fullPath, true);
+            } else {
+                await this.upper.deleteFile(child.fullPath);
+            }
+        }
+    }
+
+    private mergeChildren<T extends File | ShallowDirectory | Directory>(lowerChildren: T[], upperChildren: T[]): T[] {
+        const upperNames = new Set(upperChildren.map(({name}) => name));
+        return lowerChildren
+            .filter(child => !upperNames.has(child.name) && !this.isWhitedOut(child.fullPath))
+            .concat(upperChildren);
+    }
+
+    private mergeTrees(lowerTree: Directory | null, upperTree: Directory | null): Directory {
+        if (!upperTree) {
+            return this.filterWhiteouts(lowerTree!);
+        } else if (!lowerTree) {
+            return upperTree;
+        }
+        const children = this.mergeChildren(lowerTree.children, upperTree.children).map(child => {
+            const lowerChild = lowerTree.children.find(({name}) => name === child.name);
+            if (!isDir(child)) {
+                return child;
+            } else if (child === lowerChild) {
+                return this.filterWhiteouts(child);
+            }
+            return this.mergeTrees(isDir(lowerChild) && !this.isWhitedOut(lowerChild.fullPath) ? lowerChild : null, child);
+        });
+        return new Directory(upperTree.name, upperTree.fullPath, children);
+    }
+
+    private filterWhiteouts(directory: Directory): Directory {
+        const children = directory.children
+            .filter(child => !this.isWhitedOut(child.fullPath))
+            .map(child => isDir(child) ? this.filterWhiteouts(child) : child);
+        return new Directory(directory.name, directory.fullPath, children);
+    }
+
+    private emitDeletion(directory: Directory, correlation: Correlation) {
+        this.emit({type: 'directoryDeleted', fullPath: directory.fullPath, correlation});
+        directory.children.forEach(child => {
+            if (isDir(child)) {
+                this.emitDeletion(child, correlation);
+            } else {
+                this.emit({type: 'fileDeleted', fullPath: child.fullPath, correlation});
+            }
+        });
+    }
+
+    private emit(event: Events[keyof Events]) {
+        this.events.emit(event.type, event);
+    }
+
+    private onLowerEvent = (event: Events[keyof Events]) => {
+        this.lowerEvents = this.lowerEvents
+            .then(() => this.translateLowerEvent(event))
+            .catch(e => this.emit({type: 'unexpectedError', fullPath: event.fullPath, stack: e && e.stack}));
+    };
+
+    /**
+     * pass on the lower layer events that are visible through the upper layer
+     */
+    private async translateLowerEvent(event: Events[keyof Events]) {
+        if (event.correlation !== undefined && this.commitCorrelations.has(event.correlation)) {
+            return;
+        }
+        if (event.type === 'fileRenamed' || event.type === 'directoryRenamed') {
+            const {fullPath, oldFullPath, correlation} = event;
+            const [oldVisible, newVisible] = [await this.isLowerNodeVisible(oldFullPath), await this.isLowerNodeVisible(fullPath)];
+            if (oldVisible && newVisible) {
+                this.emit(event);
+            } else if (oldVisible) {
+                if (event.type === 'fileRenamed') {
+                    this.emit({type: 'fileDeleted', fullPath: oldFullPath, correlation});
+                } else {
+                    this.emit({type: 'directoryDeleted', fullPath: oldFullPath, correlation});
+                }
+            } else if (newVisible) {
+                await this.emitLowerCreation(fullPath, correlation);
+            }
+        } else if (event.type === 'unexpectedError' || await this.isLowerNodeVisible(event.fullPath)) {
+            this.emit(event);
+        }
+    }
+
+    private async emitLowerCreation(fullPath: string, correlation?: Correlation) {
+        const type = await getNodeType(this.lower, fullPath);
+        if (type === 'file') {
+            this.emit({type: 'fileCreated', fullPath, newContent: await this.loadContent(fullPath), correlation});
+        } else if (type === 'dir') {
+            this.emit({type: 'directoryCreated', fullPath, correlation});
+            for (const child of (await this.lower.loadDirectoryChildren(fullPath))) {
+                if (await this.isLowerNodeVisible(child.fullPath)) {
+                    await this.emitLowerCreation(child.fullPath, correlation);
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,124 @@
+import {readFile, readFileSync, rename, renameSync, writeFile, writeFileSync} from 'fs-extra';
+import {Disposable, Events, fileSystemEventNames} from './api';
+import {MemoryFileSystem} from './memory-fs';
+
+const changeEventNames: Array<keyof Events> = fileSystemEventNames.filter(type => type !== 'unexpectedError');
+
+let tempId = 0;
+
+export namespace PersistentMemoryFileSystem {
+    export interface Options extends MemoryFileSystem.Options {
+        /**
+         * save to a local file after changes
+         */
+        autosave?: AutosaveOptions;
+    }
+
+    export interface AutosaveOptions {
+        path: string;
+        /**
+         * milliseconds to wait for more changes before saving
+         * default : 100
+         */
+        delay?: number;
+        /**
+         * milliseconds to wait at most after the first unsaved change, when changes keep coming
+         * default : 10 times the delay
+         */
+        maxWait?: number;
+    }
+}
+
+/**
+ * MemoryFileSystem that can be saved to (and loaded from) a local file, see serialize()
+ */
+export class PersistentMemoryFileSystem extends MemoryFileSystem implements Disposable {
+    static async load(path: string, baseUrl?: string, options?: PersistentMemoryFileSystem.Options): Promise<PersistentMemoryFileSystem> {
+        const data = JSON.parse(await readFile(path, 'utf8'));
+        const fs = new PersistentMemoryFileSystem(baseUrl, options);
+        fs.deserialize(data);
+        return fs;
+    }
+
+    static loadSync(path: string, baseUrl?: string, options?: PersistentMemoryFileSystem.Options): PersistentMemoryFileSystem {
+        const data = JSON.parse(readFileSync(path, 'utf8'));
+        const fs = new PersistentMemoryFileSystem(baseUrl, options);
+        fs.deserialize(data);
+        return fs;
+    }
+
+    private autosaveTimer: NodeJS.Timer | null = null;
+    private unsavedSince = 0;
+    private saving: Promise<void> = Promise.resolve();
+    private savesInProgress = 0;
+
+    constructor(baseUrl?: string, private options: PersistentMemoryFileSystem.Options = {}) {
+        super(baseUrl, options);
+        if (options.autosave) {
+            changeEventNames.forEach(type => this.events.on(type, this.scheduleAutosave));
+        }
+    }
+
+    /**
+     * write to a temporary file first, so that a crash doesn't leave a partial file behind.
+     * every save has its own temporary file, so that saves to the same path don't mix
+     */
+    async save(path: string): Promise<void> {
+        const tempPath = `${path}.${process.pid}-${tempId++}.tmp`;
+        await writeFile(tempPath, JSON.stringify(this.serialize()));
+        await rename(tempPath, path);
+    }
+
+    saveSync(path: string): void {
+        const tempPath = `${path}.${process.pid}-${tempId++}.tmp`;
+        writeFileSync(tempPath, JSON.stringify(this.serialize()));
+        renameSync(tempPath, path);
+    }
+
+    /**
+     * stop autosaving. a pending autosave is done right away, or right after an autosave that is being written
+     */
+    dispose() {
+        changeEventNames.forEach(type => this.events.removeListener(type, this.scheduleAutosave));
+        if (this.autosaveTimer) {
+            clearTimeout(this.autosaveTimer);
+            this.autosaveTimer = null;
+            if (this.savesInProgress) {
+                this.autosave();
+            } else {
+                this.saveSync(this.options.autosave!.path);
+            }
+        }
+    }
+
+    private scheduleAutosave = () => {
+        const {delay = 100, maxWait} = this.options.autosave!;
+        const maxDelay = maxWait === undefined ? delay * 10 : maxWait;
+        const now = Date.now();
+        if (this.autosaveTimer) {
+            clearTimeout(this.autosaveTimer);
+        } else {
+            this.unsavedSince = now;
+        }
+        this.autosaveTimer = setTimeout(() => {
+            this.autosaveTimer = null;
+            this.autosave();
+        }, Math.max(0, Math.min(delay, this.unsavedSince + maxDelay - now)));
+    };
+
+    /**
+     * saves don't overlap, so that an older state never overwrites a newer one
+     */
+    private autosave() {
+        const {path} = this.options.autosave!;
+        this.savesInProgress++;
+        this.saving = this.saving
+            .then(() => this.save(path))
+            .catch(error => {
+                this.events.emit('unexpectedError', {type: 'unexpectedError', fullPath: path, stack: error.stack});
+            })
+            .then(() => {
+                this.savesInProgress--;
+            });
+    }
+}
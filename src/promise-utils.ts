@@ -1,10 +1,12 @@
+import {TimeoutError} from './errors';
+
 export function delayedPromise(delay: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, delay));
 }
 
 export function timeoutPromise<T>(promise: Promise<T>, ms: number, message = `timed out after ${ms}ms`): Promise<T> {
     return new Promise(function (resolve, reject) {
-        setTimeout(() => reject(new Error(message)), ms);
+        setTimeout(() => reject(new TimeoutError(message)), ms);
         promise.then(resolve, reject);
     });
 }
@@ -28,7 +30,7 @@ export async function retryPromise<T>(promiseProvider: () => Promise<T>,
     }
     const raceWithTimeout = [never, never];
     if (timeout) {
-        raceWithTimeout[1] = delayedPromise(timeout).then(() => Promise.reject(new Error(timeoutMessage)));
+        raceWithTimeout[1] = delayedPromise(timeout).then(() => Promise.reject(new TimeoutError(timeoutMessage)));
     }
     let iterations = retries ? retries + 1 : Number.MAX_SAFE_INTEGER;
     let lastError: Error | null = null;
@@ -44,5 +46,5 @@ export async function retryPromise<T>(promiseProvider: () => Promise<T>,
         }
         await new Promise(resolve => setTimeout(resolve, interval));
     }
-    throw lastError || new Error(timeoutMessage);
+    throw lastError || new TimeoutError(timeoutMessage);
 }
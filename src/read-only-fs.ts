@@ -0,0 +1,150 @@
+import {Directory, DirectoryContent, File, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    EventEmitter,
+    FileSystem,
+    FileSystemReadSync,
+    FindFilesOptions,
+    isDisposable,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {ReadOnlyError} from './errors';
+
+/**
+ * rejects every write with a ReadOnlyError while `readOnly` is set.
+ * only the async API is forwarded, wrap file systems that can be read synchronously with ReadOnlyFileSystemSync
+ */
+export class ReadOnlyFileSystem implements FileSystem {
+    constructor(private fs: FileSystem, public readOnly = true) {
+    }
+
+    get events(): EventEmitter {
+        return this.fs.events;
+    }
+
+    get baseUrl(): string {
+        return this.fs.baseUrl;
+    }
+
+    saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.write(fullPath, () => this.fs.saveFile(fullPath, newContent, correlation, options));
+    }
+
+    saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.write(fullPath, () => this.fs.saveBinaryFile(fullPath, newContent, correlation, options));
+    }
+
+    deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.write(fullPath, () => this.fs.deleteFile(fullPath, correlation, options));
+    }
+
+    deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation> {
+        return this.write(fullPath, () => this.fs.deleteDirectory(fullPath, recursive, correlation));
+    }
+
+    ensureDirectory(fullPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.write(fullPath, () => this.fs.ensureDirectory(fullPath, correlation));
+    }
+
+    move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.write(fromPath, () => this.fs.move(fromPath, toPath, correlation));
+    }
+
+    copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.write(toPath, () => this.fs.copyFile(fromPath, toPath, correlation));
+    }
+
+    copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation> {
+        return this.write(toPath, () => this.fs.copyDirectory(fromPath, toPath, options, correlation));
+    }
+
+    batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation> {
+        return this.write(operations.length ? operations[0].fullPath : '', () => this.fs.batch(operations, correlation));
+    }
+
+    loadTextFile(fullPath: string): Promise<string> {
+        return this.fs.loadTextFile(fullPath);
+    }
+
+    loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return this.fs.loadTextFileWithVersion(fullPath);
+    }
+
+    loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return this.fs.loadBinaryFile(fullPath);
+    }
+
+    loadDirectoryTree(fullPath?: string): Promise<Directory> {
+        return this.fs.loadDirectoryTree(fullPath);
+    }
+
+    loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]> {
+        return this.fs.loadDirectoryChildren(fullPath);
+    }
+
+    stat(fullPath: string): Promise<SimpleStats> {
+        return this.fs.stat(fullPath);
+    }
+
+    findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]> {
+        return this.fs.findFiles(patterns, options);
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return this.fs.searchText(query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return this.fs.watch(pathOrGlob, listener, options);
+    }
+
+    dispose() {
+        if (isDisposable(this.fs)) this.fs.dispose();
+    }
+
+    private write(fullPath: string, action: () => Promise<Correlation>): Promise<Correlation> {
+        return this.readOnly ? Promise.reject(new ReadOnlyError(fullPath)) : action();
+    }
+}
+
+/**
+ * a ReadOnlyFileSystem that forwards the sync read API too
+ */
+export class ReadOnlyFileSystemSync extends ReadOnlyFileSystem implements FileSystemReadSync {
+
+    constructor(private syncFs: FileSystemReadSync, readOnly = true) {
+        super(syncFs, readOnly);
+    }
+
+    loadTextFileSync(fullPath: string): string {
+        return this.syncFs.loadTextFileSync(fullPath);
+    }
+
+    loadBinaryFileSync(fullPath: string): Uint8Array {
+        return this.syncFs.loadBinaryFileSync(fullPath);
+    }
+
+    loadDirectoryTreeSync(fullPath?: string): Directory {
+        return this.syncFs.loadDirectoryTreeSync(fullPath);
+    }
+
+    loadDirectoryChildrenSync(fullPath: string): (File | ShallowDirectory)[] {
+        return this.syncFs.loadDirectoryChildrenSync(fullPath);
+    }
+
+    loadDirectoryContentSync(fullPath: string = ''): DirectoryContent {
+        return this.syncFs.loadDirectoryContentSync(fullPath);
+    }
+
+    statSync(fullPath: string): SimpleStats {
+        return this.syncFs.statSync(fullPath);
+    }
+}
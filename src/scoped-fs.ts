@@ -0,0 +1,295 @@
+import {Directory, File, FileSystemNode, isDir, pathSeparator, ShallowDirectory, SimpleStats} from './model';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    Disposable,
+    Events,
+    FileSystem,
+    fileSystemEventNames,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {createFileSystemError, InvalidArgumentError, isFileSystemError} from './errors';
+import {binaryToFileContent} from './encoding';
+import {getPathNodes, InternalEventsEmitter, makeEventsEmitter, normalizePathNodes} from './utils';
+import {isGlob} from './watch';
+
+type FileSystemEvents = Array<Events[keyof Events]>;
+
+/**
+ * resolves `.` and `..` segments, refusing paths that leave the root
+ */
+function resolvePathNodes(fullPath: string): string[] {
+    const resolved: string[] = [];
+    fullPath.split(/[\\/]/).forEach(node => {
+        if (node === '..') {
+            if (!resolved.length) {
+                throw new InvalidArgumentError(fullPath, `Path is outside of the scope '${fullPath}'`);
+            }
+            resolved.pop();
+        } else if (node && node !== '.') {
+            resolved.push(node);
+        }
+    });
+    return resolved;
+}
+
+/**
+ * a view of a sub-directory of another file system as a file system of its own.
+ * disposing it does not dispose the wrapped file system, which may be shared by several scopes
+ */
+export class ScopedFileSystem implements FileSystem, Disposable {
+    public readonly events: InternalEventsEmitter = makeEventsEmitter();
+    private readonly scopeNodes: string[];
+    private readonly onEvent = this.createEventsTranslator(event => this.events.emit(event.type, event));
+
+    constructor(private readonly fs: FileSystem, scope: string) {
+        this.scopeNodes = resolvePathNodes(scope);
+        fileSystemEventNames.forEach(type => this.fs.events.on(type, this.onEvent));
+    }
+
+    get scope(): string {
+        return normalizePathNodes(this.scopeNodes);
+    }
+
+    get baseUrl(): string {
+        const baseUrl = this.fs.baseUrl;
+        if (!this.scope) {
+            return baseUrl;
+        }
+        return baseUrl ? baseUrl.replace(/[\\/]$/, '') + pathSeparator + this.scope : this.scope;
+    }
+
+    dispose() {
+        fileSystemEventNames.forEach(type => this.fs.events.removeListener(type, this.onEvent));
+    }
+
+    saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.run(() => this.fs.saveFile(this.toFilePath(fullPath), newContent, correlation, options));
+    }
+
+    saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.run(() => this.fs.saveBinaryFile(this.toFilePath(fullPath), newContent, correlation, options));
+    }
+
+    deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return this.run(() => this.fs.deleteFile(this.toFilePath(fullPath), correlation, options));
+    }
+
+    deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation> {
+        return this.run(() => {
+            if (!resolvePathNodes(fullPath).length) {
+                throw new InvalidArgumentError(fullPath, `Can't delete root directory`);
+            }
+            return this.fs.deleteDirectory(this.toInnerPath(fullPath), recursive, correlation);
+        });
+    }
+
+    ensureDirectory(fullPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.run(() => this.fs.ensureDirectory(this.toInnerPath(fullPath), correlation));
+    }
+
+    move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.run(() => {
+            if (!resolvePathNodes(fromPath).length || !resolvePathNodes(toPath).length) {
+                throw new InvalidArgumentError(fromPath, `Can't move root directory`);
+            }
+            return this.fs.move(this.toInnerPath(fromPath), this.toInnerPath(toPath), correlation);
+        });
+    }
+
+    copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return this.run(() => this.fs.copyFile(this.toInnerPath(fromPath), this.toFilePath(toPath), correlation));
+    }
+
+    copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation> {
+        return this.run(() => {
+            if (!resolvePathNodes(toPath).length) {
+                throw new InvalidArgumentError(toPath, `Can't copy over root directory`);
+            }
+            return this.fs.copyDirectory(this.toInnerPath(fromPath), this.toInnerPath(toPath), options, correlation);
+        });
+    }
+
+    batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation> {
+        return this.run(() => this.fs.batch(operations.map(operation =>
+            ({...operation, fullPath: this.toInnerPath(operation.fullPath)})), correlation));
+    }
+
+    loadTextFile(fullPath: string): Promise<string> {
+        return this.run(() => this.fs.loadTextFile(this.toInnerPath(fullPath)));
+    }
+
+    loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return this.run(() => this.fs.loadTextFileWithVersion(this.toInnerPath(fullPath)));
+    }
+
+    loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return this.run(() => this.fs.loadBinaryFile(this.toInnerPath(fullPath)));
+    }
+
+    loadDirectoryTree(fullPath: string = ''): Promise<Directory> {
+        return this.run(async () => this.toScopedNode(await this.fs.loadDirectoryTree(this.toInnerPath(fullPath))));
+    }
+
+    loadDirectoryChildren(fullPath: string): Promise<(File | ShallowDirectory)[]> {
+        return this.run(async () => (await this.fs.loadDirectoryChildren(this.toInnerPath(fullPath)))
+            .map(child => this.toScopedNode(child)));
+    }
+
+    stat(fullPath: string): Promise<SimpleStats> {
+        return this.run(() => this.fs.stat(this.toInnerPath(fullPath)));
+    }
+
+    findFiles(patterns: string | string[], options: FindFilesOptions = {}): Promise<string[]> {
+        return this.run(async () => {
+            const found = await this.fs.findFiles(patterns, {...options, cwd: this.toInnerPath(options.cwd || '')});
+            return found.map(fullPath => this.toScopedPath(fullPath)!);
+        });
+    }
+
+    searchText(query: string, options: SearchTextOptions = {}): Promise<TextSearchMatch[]> {
+        return this.run(async () => {
+            const glob = options.glob || '**';
+            const matches = await this.fs.searchText(query, {
+                ...options,
+                glob: (typeof glob === 'string' ? [glob] : glob).map(pattern => this.toInnerPattern(pattern))
+            });
+            return matches.map(match => ({...match, fullPath: this.toScopedPath(match.fullPath)!}));
+        });
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        const innerPathOrGlob = isGlob(pathOrGlob) ? this.toInnerPattern(pathOrGlob) : this.toInnerPath(pathOrGlob);
+        return this.fs.watch(innerPathOrGlob, this.createEventsTranslator(listener), options);
+    }
+
+    private toInnerPath(fullPath: string): string {
+        return normalizePathNodes(this.scopeNodes.concat(resolvePathNodes(fullPath)));
+    }
+
+    /**
+     * a file path can't be the root, which is a sub-directory of the wrapped file system
+     */
+    private toFilePath(fullPath: string): string {
+        if (!resolvePathNodes(fullPath).length) {
+            throw new InvalidArgumentError(fullPath, `root is not a legal file name`);
+        }
+        return this.toInnerPath(fullPath);
+    }
+
+    private toInnerPattern(pattern: string): string {
+        return normalizePathNodes(this.scopeNodes.concat(getPathNodes(pattern)));
+    }
+
+    /**
+     * @returns null for paths outside of the scope
+     */
+    private toScopedPath(innerPath: string): string | null {
+        const pathNodes = getPathNodes(innerPath);
+        if (pathNodes.length < this.scopeNodes.length || this.scopeNodes.some((node, i) => pathNodes[i] !== node)) {
+            return null;
+        }
+        return normalizePathNodes(pathNodes.slice(this.scopeNodes.length));
+    }
+
+    private toScopedNode<T extends FileSystemNode>(node: T): T {
+        const fullPath = this.toScopedPath(node.fullPath) || '';
+        const scoped = Object.assign(Object.create(Object.getPrototypeOf(node)), node, {fullPath});
+        if (!fullPath) {
+            scoped.name = '';
+        }
+        if (isDir(node) && node.children) {
+            scoped.children = node.children.map(child => this.toScopedNode(child));
+        }
+        return scoped;
+    }
+
+    /**
+     * reports errors with the paths the caller knows
+     */
+    private async run<T>(action: () => Promise<T>): Promise<T> {
+        try {
+            return await action();
+        } catch (e) {
+            if (isFileSystemError(e) && e.path !== undefined) {
+                const scopedPath = this.toScopedPath(e.path);
+                if (scopedPath !== e.path) {
+                    throw createFileSystemError(e.code, scopedPath || '');
+                }
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * @returns a listener to events of the wrapped file system, that passes on the events in the scope.
+     * events are passed on synchronously, unless an earlier one is still loading content
+     */
+    private createEventsTranslator(listener: WatchListener): WatchListener {
+        let pending: Promise<void> | null = null;
+        const passOn = (events: FileSystemEvents) => events.forEach(listener);
+        return (event: Events[keyof Events]) => {
+            if (!pending) {
+                const translated = this.translateEvent(event);
+                if (Array.isArray(translated)) {
+                    return passOn(translated);
+                }
+                pending = translated.then(passOn);
+            } else {
+                pending = pending.then(() => this.translateEvent(event)).then(passOn);
+            }
+            const current: Promise<void> = pending = pending
+                .catch(e => listener({type: 'unexpectedError', fullPath: '', stack: e && e.stack}))
+                .then(() => {
+                    if (pending === current) {
+                        pending = null;
+                    }
+                });
+        };
+    }
+
+    private translateEvent(event: Events[keyof Events]): FileSystemEvents | Promise<FileSystemEvents> {
+        const fullPath = this.toScopedPath(event.fullPath);
+        if (event.type === 'unexpectedError') {
+            return [{...event, fullPath: fullPath || ''}];
+        } else if (event.type === 'fileRenamed' || event.type === 'directoryRenamed') {
+            const {correlation} = event;
+            const oldFullPath = this.toScopedPath(event.oldFullPath);
+            if (fullPath && oldFullPath) {
+                return [{...event, fullPath, oldFullPath}];
+            } else if (oldFullPath) {
+                return [event.type === 'fileRenamed' ?
+                    {type: 'fileDeleted', fullPath: oldFullPath, correlation} :
+                    {type: 'directoryDeleted', fullPath: oldFullPath, correlation}];
+            } else if (fullPath) {
+                return this.describeCreation(event.fullPath, correlation);
+            }
+            return [];
+        }
+        return fullPath ? [{...event, fullPath}] : [];
+    }
+
+    /**
+     * the events of content that was moved into the scope
+     */
+    private async describeCreation(innerPath: string, correlation?: Correlation): Promise<FileSystemEvents> {
+        const fullPath = this.toScopedPath(innerPath)!;
+        if ((await this.fs.stat(innerPath)).type === 'file') {
+            const newContent = binaryToFileContent(await this.fs.loadBinaryFile(innerPath));
+            return [{type: 'fileCreated', fullPath, newContent, correlation}];
+        }
+        const events: FileSystemEvents = [{type: 'directoryCreated', fullPath, correlation}];
+        for (const child of await this.fs.loadDirectoryChildren(innerPath)) {
+            events.push(...await this.describeCreation(child.fullPath, correlation));
+        }
+        return events;
+    }
+}
@@ -0,0 +1,69 @@
+import {FileSystem, SearchTextOptions, TextSearchMatch} from './api';
+import {FileContent, isBinaryContent} from './model';
+import {binaryToFileContent} from './encoding';
+import {InvalidArgumentError} from './errors';
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * collects the matches of a single search, file by file
+ */
+export class TextSearch {
+    public readonly results: TextSearchMatch[] = [];
+    private readonly pattern: RegExp | null;
+    private readonly maxResults: number;
+
+    constructor(query: string, options: SearchTextOptions = {}) {
+        const flags = options.caseSensitive ? 'g' : 'gi';
+        try {
+            this.pattern = query ? new RegExp(options.regex ? query : escapeRegExp(query), flags) : null;
+        } catch (e) {
+            throw new InvalidArgumentError('', `Invalid regular expression '${query}'`);
+        }
+        this.maxResults = options.maxResults === undefined ? Infinity : options.maxResults;
+    }
+
+    get done(): boolean {
+        return !this.pattern || this.results.length >= this.maxResults;
+    }
+
+    /**
+     * binary files are skipped
+     */
+    searchFile(fullPath: string, content: FileContent) {
+        const text = isBinaryContent(content) ? binaryToFileContent(content) : content;
+        if (typeof text !== 'string' || !this.pattern) {
+            return;
+        }
+        const lines = text.split(/\r?\n/);
+        for (let i = 0; i < lines.length && !this.done; i++) {
+            const line = lines[i];
+            this.pattern.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while (!this.done && (match = this.pattern.exec(line))) {
+                this.results.push({fullPath, line: i + 1, column: match.index + 1, preview: line});
+                if (!match[0].length) {
+                    this.pattern.lastIndex++;
+                }
+            }
+        }
+    }
+}
+
+/**
+ * search the text files of any file system, by loading them one by one
+ */
+export async function searchTextInFileSystem(fs: FileSystem, query: string, options: SearchTextOptions = {}): Promise<TextSearchMatch[]> {
+    const search = new TextSearch(query, options);
+    if (!search.done) {
+        for (const fullPath of await fs.findFiles(options.glob || '**')) {
+            search.searchFile(fullPath, await fs.loadBinaryFile(fullPath));
+            if (search.done) {
+                break;
+            }
+        }
+    }
+    return search.results;
+}
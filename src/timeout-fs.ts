@@ -1,5 +1,20 @@
 import {Directory, File, ShallowDirectory, SimpleStats} from './model';
-import {Correlation, EventEmitter, FileSystem, isDisposable} from './api';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    EventEmitter,
+    FileSystem,
+    FindFilesOptions,
+    isDisposable,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
 import {timeoutPromise} from './promise-utils';
 
 export class TimeoutFileSystem implements FileSystem {
@@ -14,22 +29,50 @@ export class TimeoutFileSystem implements FileSystem {
         return this.fs.baseUrl;
     }
 
-    saveFile(fullPath: string, newContent: string, correlation?: Correlation): Promise<Correlation> {
-        return timeoutPromise(this.fs.saveFile(fullPath, newContent, correlation), this.timeout);
+    saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return timeoutPromise(this.fs.saveFile(fullPath, newContent, correlation, options), this.timeout);
     }
 
-    deleteFile(fullPath: string, correlation?: Correlation): Promise<Correlation> {
-        return timeoutPromise(this.fs.deleteFile(fullPath, correlation), this.timeout);
+    saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return timeoutPromise(this.fs.saveBinaryFile(fullPath, newContent, correlation, options), this.timeout);
+    }
+
+    deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        return timeoutPromise(this.fs.deleteFile(fullPath, correlation, options), this.timeout);
     }
 
     deleteDirectory(fullPath: string, recursive?: boolean, correlation?: Correlation): Promise<Correlation> {
         return timeoutPromise(this.fs.deleteDirectory(fullPath, recursive, correlation), this.timeout);
     }
 
+    move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return timeoutPromise(this.fs.move(fromPath, toPath, correlation), this.timeout);
+    }
+
+    copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        return timeoutPromise(this.fs.copyFile(fromPath, toPath, correlation), this.timeout);
+    }
+
+    copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation> {
+        return timeoutPromise(this.fs.copyDirectory(fromPath, toPath, options, correlation), this.timeout);
+    }
+
+    batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation> {
+        return timeoutPromise(this.fs.batch(operations, correlation), this.timeout);
+    }
+
     loadTextFile(fullPath: string): Promise<string> {
         return timeoutPromise(this.fs.loadTextFile(fullPath), this.timeout);
     }
 
+    loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        return timeoutPromise(this.fs.loadTextFileWithVersion(fullPath), this.timeout);
+    }
+
+    loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        return timeoutPromise(this.fs.loadBinaryFile(fullPath), this.timeout);
+    }
+
     loadDirectoryTree(fullPath?: string): Promise<Directory> {
         return timeoutPromise(this.fs.loadDirectoryTree(fullPath), this.timeout);
     }
@@ -42,6 +85,18 @@ export class TimeoutFileSystem implements FileSystem {
         return timeoutPromise(this.fs.stat(fullPath), this.timeout);
     }
 
+    findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]> {
+        return timeoutPromise(this.fs.findFiles(patterns, options), this.timeout);
+    }
+
+    searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        return timeoutPromise(this.fs.searchText(query, options), this.timeout);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return this.fs.watch(pathOrGlob, listener, options);
+    }
+
     ensureDirectory(fullPath: string, correlation?: Correlation): Promise<Correlation> {
         return timeoutPromise(this.fs.ensureDirectory(fullPath, correlation), this.timeout);
     }
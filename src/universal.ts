@@ -1,9 +1,23 @@
 export * from './api';
 export * from './model';
 export * from './constants';
+export * from './errors';
 export * from './user-utils';
+export {encodeUtf8, decodeUtf8} from './encoding';
+export {applyBatch} from './batch';
+export {searchTextInFileSystem} from './search';
+export {watchEvents} from './watch';
 export {MemoryFileSystem} from './memory-fs';
 export {CacheFileSystem} from './cache-fs';
 export {WampClientFileSystem} from './wamp-client-fs';
+export * from './json-rpc-client-fs';
+export * from './message-port-fs';
 export {TimeoutFileSystem} from './timeout-fs';
+export {FaultInjectingFileSystem} from './fault-injecting-fs';
+export {HistoryFileSystem} from './history-fs';
+// ReadOnlyFileSystem hides the sync API of the file system it wraps, ReadOnlyFileSystemSync forwards it
+export {ReadOnlyFileSystem, ReadOnlyFileSystemSync} from './read-only-fs';
+export {OverlayFileSystem} from './overlay-fs';
+export {ScopedFileSystem} from './scoped-fs';
+export {MountFileSystem, MountFileSystemSync} from './mount-fs';
 export {NoFeedbackEventsFileSystem, NoFeedbackEventsFileSystemSync} from './no-feedback-events-fs';
@@ -1,6 +1,6 @@
 import {FileSystem, FileSystemReadSync} from './api';
 import {checkExistsInDir, splitPathToDirAndFile} from './utils';
-import {DirectoryContent} from './model';
+import {DirectoryContent, isBinaryContent} from './model';
 
 export function checkExistsSync(expectedType: 'file' | 'dir', fs: FileSystemReadSync, targetPath: string): boolean {
     const {name, parentPath} = splitPathToDirAndFile(targetPath);
@@ -28,6 +28,8 @@ export async function addContentAsync(content: DirectoryContent, fs: FileSystem,
         const newPath = currentPath ? currentPath + '/' + fileOrDirName : fileOrDirName;
         if (typeof fileOrDir === 'string') {
             await fs.saveFile(newPath, fileOrDir);
+        } else if (isBinaryContent(fileOrDir)) {
+            await fs.saveBinaryFile(newPath, fileOrDir);
         } else {
             await fs.ensureDirectory(newPath);
             await addContentAsync(fileOrDir, fs, newPath);
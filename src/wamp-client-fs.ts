@@ -1,7 +1,23 @@
-import {Connection, Session} from 'autobahn';
-import {Correlation, FileSystem, fileSystemEventNames} from './api';
-import {InternalEventsEmitter, makeEventsEmitter} from './utils';
+import {Connection, ISubscription, Session} from 'autobahn';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    FileSystem,
+    fileSystemEventNames,
+    FindFilesOptions,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from './api';
+import {InternalEventsEmitter, makeCorrelationId, makeEventsEmitter} from './utils';
+import {deserializeBinary, deserializeEvent, deserializeStats, serializeBinary, serializeEvent} from './encoding';
 import {timeoutPromise} from './promise-utils';
+import {deserializeError} from './errors';
 import {Directory, File, ShallowDirectory, SimpleStats} from './model';
 
 export const noConnectionError = `WampClientFileSystem hasn't opened connection yet (forgot to init()?).`;
@@ -11,6 +27,7 @@ export class WampClientFileSystem implements FileSystem {
     private connection: Connection;
     private session?: Session;
     private realmPrefix?: string;
+    private watches = new Set<WatchHandle>();
 
     constructor(public baseUrl: string, private realm: string, private initTimeout: number = 5000) {
         this.realm = realm;
@@ -27,7 +44,7 @@ export class WampClientFileSystem implements FileSystem {
                 fileSystemEventNames.forEach(fsEvent => {
                     session.subscribe(
                         this.realmPrefix + fsEvent,
-                        res => this.events.emit(fsEvent, res && res[0])
+                        res => this.events.emit(fsEvent, res && deserializeEvent(res[0]))
                     );
                 });
                 resolve(this);
@@ -35,7 +52,7 @@ export class WampClientFileSystem implements FileSystem {
         }), initTimeout, `Cant't open connection to the WAMP server at ${baseUrl} for ${initTimeout}ms.`);
     }
 
-    async saveFile(fullPath: string, newContent: string, correlation?: Correlation): Promise<Correlation>;
+    async saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
     async saveFile(...args: any[]): Promise<Correlation> {
         if (!this.session || !this.session.isOpen) {
             throw new Error(noConnectionError);
@@ -43,11 +60,23 @@ export class WampClientFileSystem implements FileSystem {
         try {
             return await this.session.call<Correlation>(`${this.realmPrefix}saveFile`, args);
         } catch (error) {
-            throw new Error(error.args[0]);
+            throw deserializeError(error.args[0]);
         }
     }
 
-    async deleteFile(fullPath: string, correlation?: Correlation): Promise<Correlation>;
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
+    async saveBinaryFile(...args: any[]): Promise<Correlation> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            return await this.session.call<Correlation>(`${this.realmPrefix}saveBinaryFile`, args.map(serializeBinary));
+        } catch (error) {
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation>;
     async deleteFile(...args: any[]): Promise<Correlation> {
         if (!this.session || !this.session.isOpen) {
             throw new Error(noConnectionError);
@@ -55,7 +84,7 @@ export class WampClientFileSystem implements FileSystem {
         try {
             return await this.session.call<Correlation>(`${this.realmPrefix}deleteFile`, args);
         } catch (error) {
-            throw new Error(error.args[0]);
+            throw deserializeError(error.args[0]);
         }
     }
 
@@ -67,7 +96,7 @@ export class WampClientFileSystem implements FileSystem {
         try {
             return await this.session.call<Correlation>(`${this.realmPrefix}deleteDirectory`, args);
         } catch (error) {
-            throw new Error(error.args[0]);
+            throw deserializeError(error.args[0]);
         }
     }
 
@@ -79,7 +108,56 @@ export class WampClientFileSystem implements FileSystem {
         try {
             return await this.session.call<Correlation>(`${this.realmPrefix}ensureDirectory`, args);
         } catch (error) {
-            throw new Error(error.args[0]);
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+    async move(...args: any[]): Promise<Correlation> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            return await this.session.call<Correlation>(`${this.realmPrefix}move`, args);
+        } catch (error) {
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation>;
+    async copyFile(...args: any[]): Promise<Correlation> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            return await this.session.call<Correlation>(`${this.realmPrefix}copyFile`, args);
+        } catch (error) {
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation>;
+    async copyDirectory(...args: any[]): Promise<Correlation> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            return await this.session.call<Correlation>(`${this.realmPrefix}copyDirectory`, args);
+        } catch (error) {
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation>;
+    async batch(...args: any[]): Promise<Correlation> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            const serializedArgs = args.map(arg => Array.isArray(arg) ? arg.map(serializeEvent) : arg);
+            return await this.session.call<Correlation>(`${this.realmPrefix}batch`, serializedArgs);
+        } catch (error) {
+            throw deserializeError(error.args[0]);
         }
     }
 
@@ -91,7 +169,31 @@ export class WampClientFileSystem implements FileSystem {
         try {
             return await this.session.call<string>(`${this.realmPrefix}loadTextFile`, args);
         } catch (error) {
-            throw new Error(error.args[0]);
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile>;
+    async loadTextFileWithVersion(...args: any[]): Promise<VersionedTextFile> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            return await this.session.call<VersionedTextFile>(`${this.realmPrefix}loadTextFileWithVersion`, args);
+        } catch (error) {
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array>;
+    async loadBinaryFile(...args: any[]): Promise<Uint8Array> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            return deserializeBinary(await this.session.call<Uint8Array>(`${this.realmPrefix}loadBinaryFile`, args));
+        } catch (error) {
+            throw deserializeError(error.args[0]);
         }
     }
 
@@ -103,7 +205,7 @@ export class WampClientFileSystem implements FileSystem {
         try {
             return await this.session.call<Directory>(`${this.realmPrefix}loadDirectoryTree`, args);
         } catch (error) {
-            throw new Error(error.args[0]);
+            throw deserializeError(error.args[0]);
         }
     }
 
@@ -115,7 +217,7 @@ export class WampClientFileSystem implements FileSystem {
         try {
             return await this.session.call<(File | ShallowDirectory)[]>(`${this.realmPrefix}loadDirectoryChildren`, args);
         } catch (error) {
-            throw new Error(error.args[0]);
+            throw deserializeError(error.args[0]);
         }
     }
 
@@ -125,13 +227,85 @@ export class WampClientFileSystem implements FileSystem {
             throw new Error(noConnectionError);
         }
         try {
-            return await this.session.call<SimpleStats>(`${this.realmPrefix}stat`, args);
+            return deserializeStats(await this.session.call<SimpleStats>(`${this.realmPrefix}stat`, args));
+        } catch (error) {
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]>;
+    async findFiles(...args: any[]): Promise<string[]> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            return await this.session.call<string[]>(`${this.realmPrefix}findFiles`, args);
         } catch (error) {
-            throw new Error(error.args[0]);
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    async searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]>;
+    async searchText(...args: any[]): Promise<TextSearchMatch[]> {
+        if (!this.session || !this.session.isOpen) {
+            throw new Error(noConnectionError);
+        }
+        try {
+            return await this.session.call<TextSearchMatch[]>(`${this.realmPrefix}searchText`, args);
+        } catch (error) {
+            throw deserializeError(error.args[0]);
+        }
+    }
+
+    /**
+     * events are filtered by the server, which drops the watches of a session when it leaves
+     */
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        const session = this.session;
+        if (!session || !session.isOpen) {
+            throw new Error(noConnectionError);
         }
+        const id = makeCorrelationId() + makeCorrelationId();
+        let disposed = false;
+        let watched: ISubscription | undefined;
+        const subscribed = session.subscribe(`${this.realmPrefix}watch.${id}`, res => !disposed && listener(res && deserializeEvent(res[0])))
+            .then(async subscription => {
+                await session.call(`${this.realmPrefix}watch`, [id, pathOrGlob, options, session.id]);
+                return watched = subscription;
+            });
+        const ready = Promise.resolve(subscribed).then(() => undefined);
+        ready.catch(error => this.events.emit('unexpectedError', {type: 'unexpectedError', fullPath: pathOrGlob, stack: error.stack}));
+        const unwatch = (subscription: ISubscription) => {
+            if (session.isOpen) {
+                Promise.all([session.unsubscribe(subscription), session.call(`${this.realmPrefix}unwatch`, [id, session.id])])
+                    .catch(error => session.isOpen && this.events.emit('unexpectedError', {type: 'unexpectedError', fullPath: pathOrGlob, stack: error.stack}));
+            }
+        };
+        const handle: WatchHandle = {
+            ready,
+            dispose: () => {
+                if (disposed) {
+                    return;
+                }
+                disposed = true;
+                this.watches.delete(handle);
+                // an established watch is stopped right away, so that dispose() of the client can close the connection after it
+                if (watched) {
+                    unwatch(watched);
+                } else {
+                    subscribed.then(unwatch, () => undefined);
+                }
+            }
+        };
+        this.watches.add(handle);
+        return handle;
     }
 
+    /**
+     * stops the watches and closes the connection, the server drops the watches that are not established yet
+     */
     dispose() {
+        this.watches.forEach(watch => watch.dispose());
         this.connection && this.connection.close();
     }
 }
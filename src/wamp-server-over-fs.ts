@@ -1,8 +1,12 @@
 import {Connection, Session} from 'autobahn';
-import {FileSystem, fileSystemAsyncMethods, fileSystemEventNames, isDisposable} from './api';
+import WebSocket from 'ws';
+import {FileSystem, fileSystemAsyncMethods, fileSystemEventNames, isDisposable, WatchHandle} from './api';
 import {wampRealm, wampRealmPrefix} from './constants';
+import {deserializeArguments, serializeBinary, serializeEvent} from './encoding';
+import {serializeError} from './errors';
 
 import WampServer from 'wamp-server';
+import SessionManager from 'wamp-server/release/session-manager';
 
 export interface WampFsServer {
     router: {
@@ -18,6 +22,34 @@ export function wampServerOverFs(fs: FileSystem, port = 3000): Promise<WampFsSer
             realms: [wampRealm]
         });
 
+        // watch() is filtered here, the client picks the id and subscribes to its topic before calling.
+        // the watches are kept by the session of the client, and dropped when that session leaves the router
+        const watches = new Map<number, Map<string, WatchHandle>>();
+
+        function unwatch(sessionId: number, id: string) {
+            const sessionWatches = watches.get(sessionId);
+            const watch = sessionWatches && sessionWatches.get(id);
+            if (sessionWatches && watch) {
+                watch.dispose();
+                sessionWatches.delete(id);
+                if (!sessionWatches.size) {
+                    watches.delete(sessionId);
+                }
+            }
+        }
+
+        function dropLeftSessions() {
+            watches.forEach((sessionWatches, sessionId) => {
+                if (!SessionManager.getSession(wampRealm, sessionId)) {
+                    sessionWatches.forEach(watch => watch.dispose());
+                    watches.delete(sessionId);
+                }
+            });
+        }
+
+        // the router closes the session of a connection before these listeners run
+        router.wss.on('connection', (socket: WebSocket) => socket.on('close', dropLeftSessions));
+
         const connection = new Connection({
             realm: wampRealm,
             url: `ws://127.0.0.1:${port}/`,
@@ -25,13 +57,28 @@ export function wampServerOverFs(fs: FileSystem, port = 3000): Promise<WampFsSer
 
         connection.onopen = (session: Session) => {
             fileSystemEventNames.forEach(fsEvent => {
-                fs.events.on(fsEvent, data => session.isOpen && session.publish(`${wampRealmPrefix}${fsEvent}`, [data]));
+                fs.events.on(fsEvent, data => session.isOpen && session.publish(`${wampRealmPrefix}${fsEvent}`, [serializeEvent(data)]));
             });
 
             fileSystemAsyncMethods.forEach(ev => {
                 session.register(`${wampRealmPrefix}${ev}`,
-                    async (data: any[] = []) => (fs as any)[ev](...data).catch((e: Error) => Promise.reject(e.message)));
+                    async (data: any[] = []) => (fs as any)[ev](...deserializeArguments(ev, data))
+                        .then(serializeBinary)
+                        .catch((e: Error) => Promise.reject(serializeError(e))));
+            });
+
+            session.register(`${wampRealmPrefix}watch`, ([id, pathOrGlob, options, sessionId]: any[] = []) => {
+                if (!SessionManager.getSession(wampRealm, sessionId)) {
+                    throw new Error(`Unknown session ${sessionId}`);
+                }
+                unwatch(sessionId, id);
+                const watch = fs.watch(pathOrGlob, data =>
+                    session.isOpen && session.publish(`${wampRealmPrefix}watch.${id}`, [serializeEvent(data)]), options || undefined);
+                const sessionWatches = watches.get(sessionId) || new Map<string, WatchHandle>();
+                watches.set(sessionId, sessionWatches.set(id, watch));
+                return watch.ready;
             });
+            session.register(`${wampRealmPrefix}unwatch`, ([id, sessionId]: any[] = []) => unwatch(sessionId, id));
 
             resolve({
                 router,
@@ -40,6 +87,8 @@ export function wampServerOverFs(fs: FileSystem, port = 3000): Promise<WampFsSer
         };
 
         connection.onclose = (_reason, details) => {
+            watches.forEach(sessionWatches => sessionWatches.forEach(watch => watch.dispose()));
+            watches.clear();
             if (!details.will_retry && isDisposable(fs)) {
                 fs.dispose();
             }
@@ -1,4 +1,6 @@
 declare module 'wamp-server' {
+    import {Server as WsServer} from 'ws';
+
     interface ServerOptions {
         port: number
         realms: string[]
@@ -6,8 +8,16 @@ declare module 'wamp-server' {
 
     class Server {
         constructor(options: ServerOptions)
+        // the router keeps a session for each connection of its websocket server
+        wss: WsServer
         close(): void
     }
 
     export = Server
 }
+
+declare module 'wamp-server/release/session-manager' {
+    export default class SessionManager {
+        static getSession(realm: string, id: number): object | undefined
+    }
+}
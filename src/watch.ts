@@ -0,0 +1,67 @@
+import {EventEmitter, Events, fileSystemEventNames, WatchHandle, WatchListener, WatchOptions} from './api';
+import {pathSeparator} from './model';
+import {matchGlob} from './glob';
+import {getPathNodes, normalizePathNodes} from './utils';
+
+export function isGlob(pathOrGlob: string): boolean {
+    return /[*?[{]/.test(pathOrGlob);
+}
+
+/**
+ * the deepest directory that contains every path the glob can match
+ */
+export function getGlobBase(pathOrGlob: string): string {
+    const pathNodes = getPathNodes(pathOrGlob);
+    const globIndex = pathNodes.findIndex(isGlob);
+    return normalizePathNodes(globIndex === -1 ? pathNodes : pathNodes.slice(0, globIndex));
+}
+
+/**
+ * @returns a predicate for paths in the scope of a watch()
+ */
+export function createPathFilter(pathOrGlob: string, options: WatchOptions = {}): (fullPath: string) => boolean {
+    if (isGlob(pathOrGlob)) {
+        return fullPath => {
+            const pathNodes = getPathNodes(fullPath);
+            for (let length = pathNodes.length; length > 0; length--) {
+                if (matchGlob(pathOrGlob, normalizePathNodes(pathNodes.slice(0, length)))) {
+                    return true;
+                }
+                if (!options.recursive) {
+                    return false;
+                }
+            }
+            return false;
+        };
+    }
+    const basePath = normalizePathNodes(getPathNodes(pathOrGlob));
+    const prefix = basePath ? basePath + pathSeparator : '';
+    return fullPath => fullPath === basePath || (fullPath.startsWith(prefix) &&
+        (!!options.recursive || fullPath.indexOf(pathSeparator, prefix.length) === -1));
+}
+
+/**
+ * the paths an event is about: the old path of a rename too
+ */
+export function getEventPaths(event: Events[keyof Events]): string[] {
+    return event.type === 'fileRenamed' || event.type === 'directoryRenamed' ? [event.fullPath, event.oldFullPath] : [event.fullPath];
+}
+
+/**
+ * listen to the events of an emitter that are in the scope of a watch()
+ */
+export function watchEvents(events: EventEmitter, pathOrGlob: string, listener: WatchListener, options: WatchOptions = {}): WatchHandle {
+    const isInScope = createPathFilter(pathOrGlob, options);
+    const handler = (event: Events[keyof Events]) => {
+        if (getEventPaths(event).some(isInScope)) {
+            listener(event);
+        }
+    };
+    fileSystemEventNames.forEach(type => events.on(type, handler));
+    return {
+        ready: Promise.resolve(),
+        dispose() {
+            fileSystemEventNames.forEach(type => events.removeListener(type, handler));
+        }
+    };
+}
@@ -0,0 +1,78 @@
+import {readFile, writeFile} from 'fs-extra';
+import {Directory, DirectoryContent, File, isBinaryContent, isDir} from './model';
+import {MemoryFileSystem} from './memory-fs';
+import {binaryToFileContent} from './encoding';
+import {getPathNodes} from './utils';
+import {readZip, writeZip, ZipEntry} from './zip';
+
+let id = 0;
+
+// path segments that would reach the prototypes of the content objects
+const reservedNames = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * a file system over the entries of a zip archive. the archive is read by init() and changes are kept in memory
+ * until flush() writes them back
+ */
+export class ZipFileSystem extends MemoryFileSystem {
+
+    /**
+     * @param source path of the archive on the local disk, or its bytes
+     */
+    constructor(private readonly source: string | Uint8Array, baseUrl = typeof source === 'string' ? source : `zip-${id++}`) {
+        super(baseUrl);
+    }
+
+    async init(): Promise<this> {
+        const data = typeof this.source === 'string' ? new Uint8Array(await readFile(this.source)) : this.source;
+        const content: DirectoryContent = Object.create(null);
+        const entries = readZip(data);
+        entries.forEach(entry => {
+            const pathArr = getPathNodes(entry.name);
+            if (pathArr.some(name => name === '..' || reservedNames.indexOf(name) !== -1)) {
+                throw new Error(`Illegal zip entry path '${entry.name}'`);
+            }
+            const isDirectoryEntry = entry.name.endsWith('/');
+            const parent = pathArr.slice(0, isDirectoryEntry ? pathArr.length : -1).reduce((dir, name) => {
+                const child = dir[name] = dir[name] || Object.create(null);
+                if (typeof child === 'string' || isBinaryContent(child)) {
+                    throw new Error(`Zip entry '${entry.name}' conflicts with file '${name}'`);
+                }
+                return child;
+            }, content);
+            if (!isDirectoryEntry && pathArr.length) {
+                parent[pathArr[pathArr.length - 1]] = binaryToFileContent(entry.content);
+            }
+        });
+        this.root = Directory.fromContent(content);
+        entries.forEach(({name, date}) => {
+            if (date && getPathNodes(name).length) {
+                const time = date.getTime();
+                this.setTimes(this.findNode(name), {mtime: time, ctime: time, birthtime: time});
+            }
+        });
+        return this;
+    }
+
+    /**
+     * serializes the current content to a zip archive, writing it over the source archive if it was given as a path
+     */
+    async flush(): Promise<Uint8Array> {
+        const entries: ZipEntry[] = [];
+        const addEntries = (node: Directory | File) => {
+            const date = this.statSync(node.fullPath).mtime;
+            if (isDir(node)) {
+                entries.push({name: node.fullPath + '/', content: new Uint8Array(0), date});
+                node.children.forEach(addEntries);
+            } else {
+                entries.push({name: node.fullPath, content: this.loadBinaryFileSync(node.fullPath), date});
+            }
+        };
+        this.loadDirectoryTreeSync().children.forEach(addEntries);
+        const data = writeZip(entries);
+        if (typeof this.source === 'string') {
+            await writeFile(this.source, data);
+        }
+        return data;
+    }
+}
@@ -0,0 +1,165 @@
+import {deflateRawSync, inflateRawSync} from 'zlib';
+
+// minimal zip archive support: stored and deflated entries, no zip64, no encryption
+
+export interface ZipEntry {
+    /**
+     * path inside the archive, with `/` separators. directories end with `/`
+     */
+    name: string;
+    content: Uint8Array;
+    date?: Date;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const STORED = 0;
+const DEFLATED = 8;
+const UTF8_NAMES = 0x800;
+// names without the UTF8_NAMES flag are in code page 437, these are its characters from 0x80 on
+const CP437_HIGH = 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0';
+
+const crcTable = (() => {
+    const table = new Int32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = -1;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ -1) >>> 0;
+}
+
+function toBuffer(data: Uint8Array): Buffer {
+    return Buffer.from(data.buffer as ArrayBuffer, data.byteOffset, data.byteLength);
+}
+
+function toDosTime(date: Date): { time: number, date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+function decodeCp437(data: Buffer): string {
+    let result = '';
+    for (let i = 0; i < data.length; i++) {
+        result += data[i] < 0x80 ? String.fromCharCode(data[i]) : CP437_HIGH[data[i] - 0x80];
+    }
+    return result;
+}
+
+function fromDosTime(time: number, date: number): Date {
+    return new Date((date >> 9) + 1980, ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2);
+}
+
+export function readZip(data: Uint8Array): ZipEntry[] {
+    const buffer = toBuffer(data);
+    let end = buffer.length - 22;
+    while (end >= 0 && buffer.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) {
+        end--;
+    }
+    if (end < 0) {
+        throw new Error('Not a zip archive');
+    }
+    const count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error('Corrupt zip archive');
+        }
+        const flags = buffer.readUInt16LE(offset + 8);
+        const method = buffer.readUInt16LE(offset + 10);
+        const date = fromDosTime(buffer.readUInt16LE(offset + 12), buffer.readUInt16LE(offset + 14));
+        const crc = buffer.readUInt32LE(offset + 16);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const nameData = buffer.slice(offset + 46, offset + 46 + nameLength);
+        const name = flags & UTF8_NAMES ? nameData.toString('utf8') : decodeCp437(nameData);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const compressed = buffer.slice(dataStart, dataStart + compressedSize);
+        let content: Uint8Array;
+        if (method === STORED) {
+            content = new Uint8Array(compressed);
+        } else if (method === DEFLATED) {
+            content = new Uint8Array(inflateRawSync(compressed));
+        } else {
+            throw new Error(`Unsupported compression method ${method} of zip entry '${name}'`);
+        }
+        if (crc32(content) !== crc) {
+            throw new Error(`Corrupt zip entry '${name}'`);
+        }
+        entries.push({name, content, date});
+    }
+    return entries;
+}
+
+export function writeZip(entries: ZipEntry[]): Uint8Array {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+    entries.forEach(entry => {
+        const name = Buffer.from(entry.name, 'utf8');
+        const content = toBuffer(entry.content);
+        const deflated = deflateRawSync(content);
+        const method = deflated.length < content.length ? DEFLATED : STORED;
+        const data = method === DEFLATED ? deflated : content;
+        const crc = crc32(entry.content);
+        const {time, date} = toDosTime(entry.date || new Date());
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(UTF8_NAMES, 6);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(entry.content.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        localParts.push(local, name, data);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(UTF8_NAMES, 8);
+        central.writeUInt16LE(method, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(entry.content.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(entry.name.endsWith('/') ? 0x10 : 0, 38);
+        central.writeUInt32LE(offset, 42);
+        centralParts.push(central, name);
+
+        offset += local.length + name.length + data.length;
+    });
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+    return new Uint8Array(Buffer.concat([...localParts, ...centralParts, end]));
+}
@@ -0,0 +1,85 @@
+/**
+ * saves, reads and deletes many files in a single folder of memory-fs and of cache-fs over it.
+ * to compare with an older version, check it out aside and point BASELINE at its sources:
+ *
+ *   git worktree add /tmp/baseline <commit>
+ *   ln -s $PWD/node_modules /tmp/baseline/node_modules
+ *   BASELINE=/tmp/baseline/src node -r @ts-tools/node test/benchmark/path-index.ts
+ *
+ * lookups and deletes are indexed, so their time per file should not grow with the number of siblings.
+ * the benchmark fails when deleting from the largest folder is much slower per file than from the smallest
+ */
+import * as current from '../../src/universal';
+import {FileSystem} from '../../src/universal';
+
+type Implementation = Pick<typeof current, 'MemoryFileSystem' | 'CacheFileSystem'>;
+
+const sizes = [1000, 5000, 20000];
+// linear deletes would be about 20 times slower per file in the largest folder, leave room for noise
+const maxDeleteSlowdown = 4;
+
+/**
+ * @returns the time per file, in µs
+ */
+async function measure(name: string, size: number, action: (name: string) => Promise<any>): Promise<number> {
+    const start = Date.now();
+    for (let i = 0; i < size; i++) {
+        await action(`file${i}.txt`);
+    }
+    const time = Date.now() - start;
+    const timePerFile = time * 1000 / size;
+    console.log(`    ${name}: ${time}ms (${timePerFile.toFixed(1)}µs per file)`);
+    return timePerFile;
+}
+
+/**
+ * @returns the time per deleted file, in µs
+ */
+async function benchmarkFileSystem(fs: FileSystem, size: number): Promise<number> {
+    await measure('save', size, name => fs.saveFile(`dir/${name}`, 'content'));
+    await measure('load', size, name => fs.loadTextFile(`dir/${name}`));
+    // in the order of saving, from the start of the children array, where removing from an array costs the most
+    return measure('delete', size, name => fs.deleteFile(`dir/${name}`));
+}
+
+function assertConstantDeletes(label: string, deleteTimes: number[]) {
+    const slowdown = deleteTimes[deleteTimes.length - 1] / deleteTimes[0];
+    if (slowdown > maxDeleteSlowdown) {
+        throw new Error(`${label}: deleting from ${sizes[sizes.length - 1]} files is ${slowdown.toFixed(1)} times slower per file than from ${sizes[0]} files`);
+    }
+}
+
+async function main() {
+    const implementations: Array<[string, Implementation]> = [['current', current]];
+    if (process.env.BASELINE) {
+        implementations.push(['baseline', require(`${process.env.BASELINE}/universal`)]);
+    }
+    // so that the smallest folder is not measured with cold code
+    console.log(`warming up:`);
+    for (const [, {MemoryFileSystem, CacheFileSystem}] of implementations) {
+        await benchmarkFileSystem(new MemoryFileSystem(), sizes[sizes.length - 1]);
+        await benchmarkFileSystem(new CacheFileSystem(new MemoryFileSystem()), sizes[sizes.length - 1]);
+    }
+    const memoryDeleteTimes: number[] = [];
+    const cacheDeleteTimes: number[] = [];
+    for (const size of sizes) {
+        for (const [label, {MemoryFileSystem, CacheFileSystem}] of implementations) {
+            console.log(`${size} files, ${label}:`);
+            console.log(`  memory-fs:`);
+            const memoryDeleteTime = await benchmarkFileSystem(new MemoryFileSystem(), size);
+            console.log(`  cache-fs over memory-fs:`);
+            const cacheDeleteTime = await benchmarkFileSystem(new CacheFileSystem(new MemoryFileSystem()), size);
+            if (label === 'current') {
+                memoryDeleteTimes.push(memoryDeleteTime);
+                cacheDeleteTimes.push(cacheDeleteTime);
+            }
+        }
+    }
+    assertConstantDeletes('memory-fs', memoryDeleteTimes);
+    assertConstantDeletes('cache-fs over memory-fs', cacheDeleteTimes);
+}
+
+main().catch(e => {
+    console.error(e);
+    process.exit(1);
+});
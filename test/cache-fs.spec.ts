@@ -3,7 +3,7 @@ import {expect} from 'chai';
 import {EventsMatcher} from './events-matcher';
 import {SlowFs} from './slow-fs';
 
-import {CacheFileSystem, FileSystem, fileSystemEventNames, MemoryFileSystem} from '../src/universal';
+import {CacheFileSystem, FaultInjectingFileSystem, FileSystem, fileSystemEventNames, MemoryFileSystem, SimpleStats} from '../src/universal';
 
 import {
     assertFileSystemContract,
@@ -12,8 +12,9 @@ import {
     dirName,
     fileName,
 } from './implementation-suite';
-import {spy} from 'sinon';
+import {spy, stub} from 'sinon';
 import {FileSystemReadSync} from '../src/api';
+import {delayedPromise, retryPromise} from '../src/promise-utils';
 
 const existingFileName = 'existing_' + fileName;
 const existingDirName = 'existing_' + dirName;
@@ -209,6 +210,117 @@ describe(`the cache file system proxy`, () => {
         });
     });
 
+    describe(`stats`, () => {
+        it('reports the stats of the underlying fs for a loaded file', async () => {
+            const original = new MemoryFileSystem('', {content: {[existingFileName]: 'foo'}});
+            const fs = new CacheFileSystem(original);
+            const originalStats = await original.stat(existingFileName);
+            await delayedPromise(20);
+            await fs.loadTextFile(existingFileName);
+            expect(await fs.stat(existingFileName)).to.eql(originalStats);
+        });
+
+        it('updates cached stats when a file is changed', async () => {
+            const original = new MemoryFileSystem('', {content: {[existingFileName]: 'foo'}});
+            const fs = new CacheFileSystem(original);
+            const cachedStats = await fs.stat(existingFileName);
+            await delayedPromise(20);
+            const statSpy = spy(original, 'stat');
+            await original.saveFile(existingFileName, 'foo bar');
+            const stats = await fs.stat(existingFileName);
+            expect(stats.size).to.equal(7);
+            expect(stats.mtime.getTime()).to.be.greaterThan(cachedStats.mtime.getTime());
+            expect(stats.birthtime).to.eql(cachedStats.birthtime);
+            await retryPromise(async () => expect(await fs.stat(existingFileName)).to.eql(await original.stat(existingFileName)), {interval: 10, retries: 10});
+            expect(statSpy).to.have.been.calledWith(existingFileName);
+        });
+
+        it('takes the stats of a written file from the underlying fs', async () => {
+            const original = new MemoryFileSystem('', {content: {[existingFileName]: 'foo'}});
+            const fs = new CacheFileSystem(original);
+            const changedStats: SimpleStats = {type: 'file', size: 7, mtime: new Date(1000), ctime: new Date(1000), birthtime: new Date(0)};
+            stub(original, 'stat').resolves(changedStats);
+            await fs.saveFile(existingFileName, 'foo bar');
+            await retryPromise(async () => expect(await fs.stat(existingFileName)).to.eql(changedStats), {interval: 10, retries: 10});
+        });
+    });
+
+    describe(`batch`, () => {
+        it('keeps the cache as it was when the batch fails', async () => {
+            const original = new MemoryFileSystem('', {content: {'a.txt': 'foo'}});
+            const fs = new CacheFileSystem(original);
+            await fs.loadDirectoryTree();
+            await expect(fs.loadTextFile('a.txt')).to.become('foo');
+            await expect(fs.batch([
+                {type: 'saveFile', fullPath: 'a.txt', newContent: 'bar'},
+                {type: 'ensureDirectory', fullPath: 'a.txt/b'}
+            ])).to.be.rejectedWith('a.txt');
+            await expect(fs.loadTextFile('a.txt')).to.become('foo');
+            expect(fs.loadDirectoryTreeSync().children).to.have.length(1);
+        });
+
+        it('caches the result of a successful batch', async () => {
+            const original = new MemoryFileSystem('', {content: {'a.txt': 'foo'}});
+            const fs = new CacheFileSystem(original);
+            await fs.batch([{type: 'saveFile', fullPath: 'b.txt', newContent: 'bar'}, {type: 'deleteFile', fullPath: 'a.txt'}]);
+            const loadTextFileSpy = spy(original, 'loadTextFile');
+            await expect(fs.loadTextFile('b.txt')).to.become('bar');
+            await expect(fs.loadTextFile('a.txt')).to.be.rejectedWith('a.txt');
+            expect(loadTextFileSpy).to.have.callCount(0);
+        });
+
+        it('emits the events of the batch with its correlation', async () => {
+            const original = new MemoryFileSystem('', {content: {'a.txt': 'foo', 'dir': {}}});
+            // the underlying events arrive after the batch, so the cache emits its own
+            const fs = new CacheFileSystem(new FaultInjectingFileSystem(original, {eventFaults: [{delay: 50}]}));
+            await fs.loadDirectoryTree();
+            const events: any[] = [];
+            fs.events.on('fileDeleted', event => events.push(event));
+            fs.events.on('directoryDeleted', event => events.push(event));
+            await fs.batch([{type: 'deleteFile', fullPath: 'a.txt'}, {type: 'deleteDirectory', fullPath: 'dir'}], 'batch');
+            expect(events).to.containSubset([
+                {type: 'fileDeleted', fullPath: 'a.txt', correlation: 'batch'},
+                {type: 'directoryDeleted', fullPath: 'dir', correlation: 'batch'}
+            ]).and.have.length(2);
+            fs.dispose();
+        });
+    });
+
+    describe(`findFiles`, () => {
+        it('answers from the cache when the directory tree is cached', async () => {
+            const original = new MemoryFileSystem('', {content: {src: {'index.ts': 'foo', 'index.js': 'foo'}}});
+            const fs = new CacheFileSystem(original);
+            const findFilesSpy = spy(original, 'findFiles');
+            await fs.loadDirectoryTree();
+            expect(await fs.findFiles('**/*.ts')).to.eql(['src/index.ts']);
+            await original.saveFile('src/other.ts', 'foo');
+            expect(await fs.findFiles('**/*.ts')).to.eql(['src/index.ts', 'src/other.ts']);
+            expect(findFilesSpy).to.have.callCount(0);
+        });
+
+        it('delegates to the underlying fs otherwise', async () => {
+            const original = new MemoryFileSystem('', {content: {src: {'index.ts': 'foo'}}});
+            const fs = new CacheFileSystem(original);
+            const findFilesSpy = spy(original, 'findFiles');
+            expect(await fs.findFiles('*.ts', {cwd: 'src'})).to.eql(['src/index.ts']);
+            expect(findFilesSpy).to.have.been.calledWithExactly('*.ts', {cwd: 'src'});
+        });
+    });
+
+    describe(`searchText`, () => {
+        it('searches in the cache when all the files are cached', async () => {
+            const original = new MemoryFileSystem('', {content: {src: {'index.ts': 'foo'}}});
+            const fs = new CacheFileSystem(original);
+            const searchTextSpy = spy(original, 'searchText');
+            await fs.loadDirectoryTree();
+            await fs.searchText('foo');
+            expect(searchTextSpy).to.have.callCount(1);
+            await fs.loadTextFile('src/index.ts');
+            expect(await fs.searchText('foo')).to.eql([{fullPath: 'src/index.ts', line: 1, column: 1, preview: 'foo'}]);
+            expect(searchTextSpy).to.have.callCount(1);
+        });
+    });
+
     describe(`lazyness`, () => {
         let fs: FileSystem;
         let original: FileSystem;
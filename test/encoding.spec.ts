@@ -0,0 +1,92 @@
+import {expect} from 'chai';
+import {
+    binaryToFileContent,
+    decodeBase64,
+    decodeUtf8,
+    deserializeArguments,
+    deserializeBinary,
+    encodeBase64,
+    encodeUtf8,
+    getContentVersion,
+    isSameContent,
+    isUtf8,
+    serializeBinary
+} from '../src/encoding';
+
+describe('encoding', () => {
+    const text = 'aא€😀';
+    const utf8 = new Uint8Array([0x61, 0xd7, 0x90, 0xe2, 0x82, 0xac, 0xf0, 0x9f, 0x98, 0x80]);
+    const notUtf8 = new Uint8Array([0, 0xff, 0x80, 1]);
+
+    describe('UTF-8', () => {
+        it('encodes text', () => {
+            expect(encodeUtf8(text)).to.eql(utf8);
+        });
+
+        it('decodes text', () => {
+            expect(decodeUtf8(utf8)).to.equal(text);
+        });
+
+        it('replaces malformed sequences when decoding', () => {
+            expect(decodeUtf8(notUtf8)).to.equal('\u0000��\u0001');
+        });
+
+        it('detects valid UTF-8', () => {
+            expect(isUtf8(utf8)).to.equal(true);
+            expect(isUtf8(notUtf8)).to.equal(false);
+        });
+    });
+
+    describe('binaryToFileContent', () => {
+        it('returns text for valid UTF-8', () => {
+            expect(binaryToFileContent(utf8)).to.equal(text);
+        });
+
+        it('returns the data itself otherwise', () => {
+            expect(binaryToFileContent(notUtf8)).to.equal(notUtf8);
+        });
+    });
+
+    describe('isSameContent', () => {
+        it('compares text with binary', () => {
+            expect(isSameContent(text, utf8)).to.equal(true);
+            expect(isSameContent(utf8, 'a')).to.equal(false);
+            expect(isSameContent(notUtf8, new Uint8Array(notUtf8))).to.equal(true);
+        });
+    });
+
+    describe('getContentVersion', () => {
+        it('is the same for text and its UTF-8 bytes', () => {
+            expect(getContentVersion(text)).to.equal(getContentVersion(utf8));
+        });
+
+        it('changes with the content', () => {
+            expect(getContentVersion('a')).to.not.equal(getContentVersion('b'));
+            expect(getContentVersion('')).to.not.equal(getContentVersion(new Uint8Array([0])));
+        });
+    });
+
+    describe('base64', () => {
+        it('round-trips data of any length', () => {
+            [0, 1, 2, 3, 4].forEach(length => {
+                const data = utf8.slice(0, length);
+                expect(decodeBase64(encodeBase64(data))).to.eql(data);
+            });
+        });
+
+        it('serializes only binary data', () => {
+            expect(serializeBinary(notUtf8)).to.eql({base64: 'AP+AAQ=='});
+            expect(serializeBinary('text')).to.equal('text');
+            expect(deserializeBinary(serializeBinary(notUtf8))).to.eql(notUtf8);
+        });
+
+        it('deserializes only the content arguments of calls', () => {
+            const serialized = serializeBinary(notUtf8);
+            expect(deserializeArguments('saveBinaryFile', ['file.bin', serialized, null])).to.eql(['file.bin', notUtf8, undefined]);
+            expect(deserializeArguments('batch', [[{type: 'saveFile', fullPath: 'file.bin', newContent: serialized}]]))
+                .to.eql([[{type: 'saveFile', fullPath: 'file.bin', newContent: notUtf8}]]);
+            expect(deserializeArguments('saveFile', ['file.txt', serialized])).to.eql(['file.txt', serialized]);
+            expect(deserializeArguments('findFiles', [['*.ts'], null])).to.eql([['*.ts'], undefined]);
+        });
+    });
+});
@@ -0,0 +1,44 @@
+import {expect} from 'chai';
+import {
+    AlreadyExistsError,
+    createFileSystemError,
+    deserializeError,
+    FileNotFoundError,
+    FileSystemError,
+    isFileSystemError,
+    serializeError
+} from '../src/errors';
+
+describe('errors', () => {
+    it('are instances of FileSystemError with a code', () => {
+        const error = new FileNotFoundError('foo');
+        expect(error).to.be.instanceOf(Error);
+        expect(error).to.be.instanceOf(FileSystemError);
+        expect(error).to.include({code: 'ENOENT', path: 'foo', name: 'FileNotFoundError'});
+    });
+
+    it('are created by code', () => {
+        expect(createFileSystemError('EEXIST', 'foo')).to.be.instanceOf(AlreadyExistsError);
+    });
+
+    it('are identified by code', () => {
+        const error = new AlreadyExistsError('foo');
+        expect(isFileSystemError(error)).to.equal(true);
+        expect(isFileSystemError(error, 'EEXIST')).to.equal(true);
+        expect(isFileSystemError(error, 'ENOENT')).to.equal(false);
+        expect(isFileSystemError(new Error('EEXIST'))).to.equal(false);
+    });
+
+    it('survive serialization', () => {
+        const error = deserializeError(JSON.parse(JSON.stringify(serializeError(new FileNotFoundError('foo', 'gone')))));
+        expect(error).to.be.instanceOf(FileNotFoundError);
+        expect(error).to.include({code: 'ENOENT', path: 'foo', message: 'gone'});
+    });
+
+    it('serialize other errors by message', () => {
+        const error = deserializeError(serializeError(new TypeError('oops')));
+        expect(error).to.be.instanceOf(Error);
+        expect(error).to.not.be.instanceOf(FileSystemError);
+        expect(error.message).to.equal('oops');
+    });
+});
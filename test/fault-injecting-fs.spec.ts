@@ -0,0 +1,110 @@
+import {expect} from 'chai';
+import {
+    CacheFileSystem,
+    Events,
+    FaultInjectingFileSystem,
+    FileSystemError,
+    MemoryFileSystem,
+    TimeoutError,
+    TimeoutFileSystem
+} from '../src/universal';
+import {delayedPromise} from '../src/promise-utils';
+import {assertFileSystemContract} from './implementation-suite';
+
+function recordEvents(fs: FaultInjectingFileSystem, types: Array<keyof Events> = ['fileCreated', 'fileChanged']) {
+    const events: any[] = [];
+    types.forEach(type => fs.events.on(type, event => events.push(event)));
+    return events;
+}
+
+async function outcomes(fs: FaultInjectingFileSystem, count: number): Promise<boolean[]> {
+    const results: boolean[] = [];
+    for (let i = 0; i < count; i++) {
+        results.push(await fs.saveFile('file.txt', `${i}`).then(() => true, () => false));
+    }
+    return results;
+}
+
+describe(`the fault injecting filesystem`, () => {
+    let fs: FaultInjectingFileSystem | undefined;
+
+    afterEach(() => {
+        if (fs) {
+            fs.dispose();
+            fs = undefined;
+        }
+    });
+
+    assertFileSystemContract(
+        () => Promise.resolve(new FaultInjectingFileSystem(new MemoryFileSystem())),
+        {retries: 15, interval: 2, timeout: 40, noExtraEventsGrace: 10}
+    );
+
+    it(`fails calls of the configured methods and paths with the configured error code`, async () => {
+        fs = new FaultInjectingFileSystem(new MemoryFileSystem(), {
+            faults: [{methods: ['saveFile'], paths: 'src/**', failureRate: 1, errorCode: 'EROFS'}]
+        });
+        await expect(fs.saveFile('src/a.ts', 'a')).to.be.rejectedWith(FileSystemError).and.eventually.include({code: 'EROFS', path: 'src/a.ts'});
+        await fs.saveFile('b.ts', 'b');
+        await fs.ensureDirectory('src');
+        await expect(fs.loadTextFile('src/a.ts')).to.be.rejectedWith(FileSystemError).and.eventually.include({code: 'ENOENT'});
+    });
+
+    it(`fails the same calls when seeded the same`, async () => {
+        const options = {seed: 42, faults: [{failureRate: 0.5}]};
+        const first = await outcomes(fs = new FaultInjectingFileSystem(new MemoryFileSystem(), options), 20);
+        fs.dispose();
+        const second = await outcomes(fs = new FaultInjectingFileSystem(new MemoryFileSystem(), options), 20);
+        expect(first).to.eql(second);
+        expect(first).to.include(true).and.include(false);
+    });
+
+    it(`adds latency`, async () => {
+        fs = new FaultInjectingFileSystem(new MemoryFileSystem(), {faults: [{methods: ['loadTextFile'], latency: [40, 50]}]});
+        await fs.saveFile('file.txt', 'content');
+        const start = Date.now();
+        await fs.loadTextFile('file.txt');
+        expect(Date.now() - start).to.be.gte(35);
+    });
+
+    it(`times out under TimeoutFileSystem`, async () => {
+        fs = new FaultInjectingFileSystem(new MemoryFileSystem(), {faults: [{latency: 50}]});
+        await expect(new TimeoutFileSystem(10, fs).loadTextFile('file.txt')).to.be.rejectedWith(TimeoutError);
+    });
+
+    it(`drops and duplicates events`, async () => {
+        fs = new FaultInjectingFileSystem(new MemoryFileSystem(), {
+            eventFaults: [
+                {types: ['fileCreated'], dropRate: 1},
+                {types: ['fileChanged'], paths: 'twice.txt', duplicateRate: 1}
+            ]
+        });
+        const events = recordEvents(fs);
+        await fs.saveFile('twice.txt', 'a');
+        await fs.saveFile('twice.txt', 'b');
+        await fs.saveFile('once.txt', 'a');
+        await fs.saveFile('once.txt', 'b');
+        expect(events.map(({fullPath}) => fullPath)).to.eql(['twice.txt', 'twice.txt', 'once.txt']);
+    });
+
+    it(`delays and reorders events`, async () => {
+        fs = new FaultInjectingFileSystem(new MemoryFileSystem(), {eventFaults: [{paths: 'late.txt', delay: 30}]});
+        const events = recordEvents(fs);
+        await fs.saveFile('late.txt', 'content');
+        await fs.saveFile('early.txt', 'content');
+        expect(events.map(({fullPath}) => fullPath)).to.eql(['early.txt']);
+        await delayedPromise(60);
+        expect(events.map(({fullPath}) => fullPath)).to.eql(['early.txt', 'late.txt']);
+    });
+
+    it(`lets CacheFileSystem re-sync after an unexpected error`, async () => {
+        const underlyingFs = new MemoryFileSystem();
+        fs = new FaultInjectingFileSystem(underlyingFs, {eventFaults: [{types: ['fileChanged'], dropRate: 1}]});
+        const cacheFs = new CacheFileSystem(fs);
+        await cacheFs.saveFile('file.txt', 'cached');
+        await underlyingFs.saveFile('file.txt', 'changed');
+        expect(await cacheFs.loadTextFile('file.txt')).to.equal('cached');
+        underlyingFs.events.emit('unexpectedError', {type: 'unexpectedError'});
+        expect(await cacheFs.loadTextFile('file.txt')).to.equal('changed');
+    });
+});
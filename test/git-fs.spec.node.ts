@@ -0,0 +1,92 @@
+import {dir} from 'tmp';
+import {execFileSync} from 'child_process';
+import {mkdirSync, unlinkSync, writeFileSync} from 'fs';
+import {join} from 'path';
+import {expect} from 'chai';
+import {EventsMatcher} from './events-matcher';
+import {FileSystemError, fileSystemEventNames, GitFileSystem, ReadOnlyError} from '../src/nodejs';
+
+describe(`the git file system`, () => {
+    let dirCleanup: () => void;
+    let repoPath: string;
+    let firstCommit: string;
+    let fs: GitFileSystem;
+
+    function git(...args: string[]): string {
+        return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@test', ...args], {cwd: repoPath}).toString().trim();
+    }
+
+    before(done => {
+        dir({unsafeCleanup: true}, (_err, path, cleanupCallback) => {
+            dirCleanup = cleanupCallback;
+            repoPath = path;
+            git('init', '-q');
+            writeFileSync(join(repoPath, 'readme.md'), 'hello');
+            writeFileSync(join(repoPath, 'removed.txt'), 'removed');
+            mkdirSync(join(repoPath, 'src'));
+            writeFileSync(join(repoPath, 'src', 'index.ts'), 'first');
+            git('add', '-A');
+            git('commit', '-q', '-m', 'first');
+            firstCommit = git('rev-parse', 'HEAD');
+            writeFileSync(join(repoPath, 'src', 'index.ts'), 'second');
+            unlinkSync(join(repoPath, 'removed.txt'));
+            mkdirSync(join(repoPath, 'lib'));
+            writeFileSync(join(repoPath, 'lib', 'added.ts'), 'added');
+            git('add', '-A');
+            git('commit', '-q', '-m', 'second');
+            git('tag', 'second');
+            done();
+        });
+    });
+
+    after(() => {
+        dirCleanup();
+    });
+
+    beforeEach(async () => {
+        fs = await new GitFileSystem(repoPath, firstCommit).init();
+    });
+
+    afterEach(() => {
+        fs.dispose();
+    });
+
+    it(`reads the files of the revision`, async () => {
+        expect(await fs.loadTextFile('src/index.ts')).to.equal('first');
+        expect(await fs.loadDirectoryTree()).to.containSubset({
+            children: [
+                {name: 'readme.md', type: 'file'},
+                {name: 'removed.txt', type: 'file'},
+                {name: 'src', type: 'dir', children: [{name: 'index.ts', fullPath: 'src/index.ts'}]}
+            ]
+        });
+        expect((await fs.loadDirectoryChildren('src')).map(({fullPath}) => fullPath)).to.eql(['src/index.ts']);
+        expect(await fs.stat('readme.md')).to.include({type: 'file', size: 5});
+        expect(await fs.findFiles('**/*.ts')).to.eql(['src/index.ts']);
+    });
+
+    it(`reports missing paths`, async () => {
+        await expect(fs.loadTextFile('lib/added.ts')).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
+        await expect(fs.loadTextFile('src')).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EISDIR');
+        await expect(new GitFileSystem(repoPath, 'no-such-branch').init()).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL');
+    });
+
+    it(`rejects writes`, async () => {
+        await expect(fs.saveFile('readme.md', 'changed')).to.be.rejectedWith(ReadOnlyError);
+        await expect(fs.deleteDirectory('src', true)).to.be.rejectedWith(ReadOnlyError);
+    });
+
+    it(`emits the differences when switching revisions`, async () => {
+        const matcher = new EventsMatcher({retries: 20, interval: 25, timeout: 1000, noExtraEventsGrace: 50});
+        matcher.track(fs.events, ...fileSystemEventNames);
+        const correlation = await fs.checkout('second');
+        await matcher.expect([
+            {type: 'fileDeleted', fullPath: 'removed.txt', correlation},
+            {type: 'directoryCreated', fullPath: 'lib', correlation},
+            {type: 'fileCreated', fullPath: 'lib/added.ts', newContent: 'added', correlation},
+            {type: 'fileChanged', fullPath: 'src/index.ts', newContent: 'second', correlation}
+        ]);
+        expect(fs.ref).to.equal('second');
+        expect(await fs.loadTextFile('src/index.ts')).to.equal('second');
+    });
+});
@@ -0,0 +1,37 @@
+import {expect} from 'chai';
+import {createFileMatcher, expandBraces, matchGlob} from '../src/glob';
+
+describe('glob', () => {
+    it('matches names within a single directory', () => {
+        expect(matchGlob('*.ts', 'index.ts')).to.equal(true);
+        expect(matchGlob('*.ts', 'src/index.ts')).to.equal(false);
+        expect(matchGlob('index.?s', 'index.js')).to.equal(true);
+        expect(matchGlob('[a-c]*.ts', 'b.ts')).to.equal(true);
+        expect(matchGlob('[!a-c]*.ts', 'b.ts')).to.equal(false);
+        expect(matchGlob('a+(b).ts', 'a+(b).ts')).to.equal(true);
+    });
+
+    it('matches any number of directories with **', () => {
+        expect(matchGlob('**/*.ts', 'index.ts')).to.equal(true);
+        expect(matchGlob('**/*.ts', 'src/a/b/index.ts')).to.equal(true);
+        expect(matchGlob('src/**/test/*.ts', 'src/test/index.ts')).to.equal(true);
+        expect(matchGlob('src/**', 'lib/index.ts')).to.equal(false);
+    });
+
+    it('expands braces', () => {
+        expect(expandBraces('{src,test}/*.{js,ts}')).to.eql(['src/*.js', 'src/*.ts', 'test/*.js', 'test/*.ts']);
+        expect(expandBraces('a{b,{c,d}}')).to.eql(['ab', 'ac', 'ad']);
+        expect(expandBraces('a{b}')).to.eql(['a{b}']);
+    });
+
+    it('tells which directories may contain matching files', () => {
+        const matcher = createFileMatcher(['src/*/*.ts', 'test/**'], 'test/fixtures');
+        expect(matcher.matchDirectory('src')).to.equal(true);
+        expect(matcher.matchDirectory('src/a')).to.equal(true);
+        expect(matcher.matchDirectory('src/a/b')).to.equal(false);
+        expect(matcher.matchDirectory('lib')).to.equal(false);
+        expect(matcher.matchDirectory('test/a/b')).to.equal(true);
+        expect(matcher.matchDirectory('test/fixtures')).to.equal(false);
+        expect(matcher.matchFile('test/fixtures/a.ts')).to.equal(false);
+    });
+});
@@ -0,0 +1,129 @@
+import {expect} from 'chai';
+import {spy} from 'sinon';
+import {HistoryFileSystem, MemoryFileSystem} from '../src/universal';
+import {EventsMatcher} from './events-matcher';
+import {assertFileSystemContract} from './implementation-suite';
+
+const eventMatcherOptions: EventsMatcher.Options = {retries: 15, interval: 2, timeout: 40, noExtraEventsGrace: 10};
+
+describe(`the history filesystem`, () => {
+    let underlyingFs: MemoryFileSystem;
+    let fs: HistoryFileSystem;
+
+    beforeEach(() => {
+        underlyingFs = new MemoryFileSystem();
+        fs = new HistoryFileSystem(underlyingFs);
+    });
+
+    assertFileSystemContract(() => Promise.resolve(new HistoryFileSystem(new MemoryFileSystem())), eventMatcherOptions);
+
+    it(`undoes a save along with the directories it created, with events`, async () => {
+        await fs.ensureDirectory('src');
+        const saveCorrelation = await fs.saveFile('src/deep/nested/file.txt', 'content');
+        expect(fs.history).to.have.length(2);
+        expect(fs.history[1]).to.containSubset({correlation: saveCorrelation, changes: [{fullPath: 'src/deep', before: null}]});
+
+        const matcher = new EventsMatcher(eventMatcherOptions);
+        matcher.track(fs.events, 'fileDeleted', 'directoryDeleted');
+        const correlation = await fs.undo();
+        await matcher.expect([{type: 'directoryDeleted', fullPath: 'src/deep', correlation}]);
+        expect(underlyingFs.loadDirectoryContentSync()).to.eql({src: {}});
+        expect(fs.canUndo).to.equal(true);
+        expect(fs.canRedo).to.equal(true);
+
+        await fs.redo();
+        expect(underlyingFs.loadDirectoryContentSync()).to.eql({src: {deep: {nested: {'file.txt': 'content'}}}});
+    });
+
+    it(`undoes mutations that share a correlation as one step`, async () => {
+        await fs.saveFile('index.ts', 'index');
+        await fs.saveFile('component/component.ts', 'component', 'create component');
+        await fs.saveFile('component/component.css', 'style', 'create component');
+        await fs.saveFile('index.ts', 'index with component', 'create component');
+        expect(fs.history.map(({correlation}) => correlation).slice(1)).to.eql(['create component']);
+
+        await fs.undo();
+        expect(underlyingFs.loadDirectoryContentSync()).to.eql({'index.ts': 'index'});
+        await fs.redo();
+        expect(underlyingFs.loadDirectoryContentSync()).to.eql({
+            'index.ts': 'index with component',
+            'component': {'component.ts': 'component', 'component.css': 'style'}
+        });
+    });
+
+    it(`restores deleted, moved and binary content`, async () => {
+        await fs.saveFile('dir/file.txt', 'text');
+        await fs.saveBinaryFile('dir/file.bin', new Uint8Array([0, 255]));
+        await fs.move('dir/file.txt', 'moved/file.txt');
+        await fs.deleteDirectory('dir', true);
+        expect(underlyingFs.loadDirectoryContentSync()).to.eql({moved: {'file.txt': 'text'}});
+
+        await fs.undo();
+        expect(underlyingFs.loadBinaryFileSync('dir/file.bin')).to.eql(new Uint8Array([0, 255]));
+        await fs.undo();
+        expect(underlyingFs.loadTextFileSync('dir/file.txt')).to.equal('text');
+        expect(underlyingFs.loadDirectoryContentSync()).to.not.have.property('moved');
+    });
+
+    it(`forgets undone steps on new mutations`, async () => {
+        await fs.saveFile('file.txt', 'a');
+        await fs.undo();
+        await fs.saveFile('other.txt', 'b');
+        expect(fs.canRedo).to.equal(false);
+        await expect(fs.redo()).to.be.rejectedWith('Nothing to redo');
+    });
+
+    it(`doesn't record mutations that change nothing or fail`, async () => {
+        await fs.saveFile('file.txt', 'a');
+        await fs.saveFile('file.txt', 'a');
+        await expect(fs.deleteDirectory('file.txt')).to.be.rejectedWith(Error);
+        expect(fs.history).to.have.length(1);
+        await fs.undo();
+        expect(fs.canUndo).to.equal(false);
+        await expect(fs.undo()).to.be.rejectedWith('Nothing to undo');
+    });
+
+    it(`reads only what a mutation can change`, async () => {
+        await fs.saveFile('src/big.txt', 'big');
+        await fs.saveFile('template/file.txt', 'template');
+        await fs.saveFile('src/file.txt', 'a');
+        const loadBinaryFile = spy(underlyingFs, 'loadBinaryFile');
+
+        await fs.ensureDirectory('src');
+        await fs.saveFile('src/file.txt', 'b');
+        expect(loadBinaryFile.args.map(([path]) => path)).to.eql(['src/file.txt', 'src/file.txt']);
+
+        loadBinaryFile.resetHistory();
+        await fs.copyDirectory('template', 'src', {overwrite: true});
+        expect(loadBinaryFile.args.map(([path]) => path)).to.eql(['src/file.txt', 'src/file.txt']);
+
+        loadBinaryFile.resetHistory();
+        await fs.move('src', 'deep/moved/src');
+        expect(loadBinaryFile).to.have.callCount(0);
+        expect(fs.history[fs.history.length - 1].changes).to.eql([
+            {type: 'move', fromPath: 'src', toPath: 'deep/moved/src', createdDirectory: 'deep'}
+        ]);
+
+        await fs.undo();
+        expect(underlyingFs.loadDirectoryContentSync()).to.eql({
+            src: {'big.txt': 'big', 'file.txt': 'template'},
+            template: {'file.txt': 'template'}
+        });
+        await fs.redo();
+        expect(underlyingFs.loadDirectoryContentSync()).to.eql({
+            deep: {moved: {src: {'big.txt': 'big', 'file.txt': 'template'}}},
+            template: {'file.txt': 'template'}
+        });
+    });
+
+    it(`keeps a limited number of steps`, async () => {
+        fs = new HistoryFileSystem(underlyingFs, {limit: 2});
+        await fs.saveFile('file.txt', 'a');
+        await fs.saveFile('file.txt', 'b');
+        await fs.saveFile('file.txt', 'c');
+        await fs.undo();
+        await fs.undo();
+        expect(fs.canUndo).to.equal(false);
+        expect(underlyingFs.loadTextFileSync('file.txt')).to.equal('a');
+    });
+});
@@ -0,0 +1,114 @@
+import {expect} from 'chai';
+import {request} from 'http';
+import {parse} from 'url';
+import {spy} from 'sinon';
+import {HttpClientFileSystem, HttpFsServer, httpServerOverFs, noHttpConnectionError} from '../src/nodejs';
+import {fileSystemAsyncMethods, MemoryFileSystem} from '../src/universal';
+import {EventsMatcher} from './events-matcher';
+import {assertFileSystemContract} from './implementation-suite';
+
+const msg = 'foo';
+const fakeArgs = ['foo', 'bar'];
+const port = 3010;
+
+function post(url: string, body: string, headers: { [name: string]: string }): Promise<number | undefined> {
+    return new Promise((resolve, reject) => {
+        const postRequest = request({...parse(url), method: 'POST', headers}, response => {
+            response.resume();
+            resolve(response.statusCode);
+        });
+        postRequest.on('error', reject);
+        postRequest.end(body);
+    });
+}
+
+describe(`the http client filesystem proxy`, () => {
+    let httpServer: HttpFsServer;
+    let underlyingFs: MemoryFileSystem;
+    let fs: HttpClientFileSystem | undefined;
+
+    async function getInitedFS(): Promise<HttpClientFileSystem> {
+        fs = new HttpClientFileSystem(`http://127.0.0.1:${port}`);
+        return fs.init();
+    }
+
+    const eventMatcherOptions: EventsMatcher.Options = {
+        retries: 25,
+        interval: 20,
+        noExtraEventsGrace: 60,
+        timeout: 1000
+    };
+
+    beforeEach(async () => {
+        underlyingFs = new MemoryFileSystem();
+        httpServer = await httpServerOverFs(underlyingFs, port);
+    });
+
+    afterEach(async () => {
+        if (fs) {
+            fs.dispose();
+            fs = undefined;
+        }
+        await httpServer.close();
+    });
+
+    fileSystemAsyncMethods.forEach(asyncMethodName => {
+        describe(`${asyncMethodName} method`, () => {
+            it(`fails when not inited`, async () => {
+                const withoutInit = new HttpClientFileSystem(`http://127.0.0.1:${port}`);
+                return expect((withoutInit[asyncMethodName] as Function)(...fakeArgs)).to.eventually.be.rejectedWith(noHttpConnectionError);
+            });
+
+            it(`passes arguments and results correctly`, async () => {
+                const client = await getInitedFS();
+                const methodImpl = spy(async () => msg);
+                (underlyingFs as any)[asyncMethodName] = methodImpl;
+                const res = await (client[asyncMethodName] as Function)(...fakeArgs);
+                expect(res).to.eql(msg);
+                expect(methodImpl).to.have.been.calledWith(...fakeArgs);
+            });
+
+            it(`reports original error messages`, async () => {
+                const client = await getInitedFS();
+                (underlyingFs as any)[asyncMethodName] = async () => {
+                    throw new Error(msg);
+                };
+                await expect((client[asyncMethodName] as Function)(...fakeArgs)).to.eventually.be.rejectedWith(msg);
+            });
+        });
+    });
+
+    it(`fails to init when there is no server`, async () => {
+        await expect(new HttpClientFileSystem(`http://127.0.0.1:${port + 1}`).init()).to.be.rejectedWith(Error);
+    });
+
+    describe(`the server`, () => {
+        const url = `http://127.0.0.1:${port}/loadTextFile`;
+        const json = {'Content-Type': 'application/json'};
+
+        beforeEach(() => underlyingFs.saveFile('file.txt', 'content'));
+
+        it(`accepts calls from its own origin, and from allowed origins only`, async () => {
+            await httpServer.close();
+            httpServer = await httpServerOverFs(underlyingFs, port, {allowedOrigins: ['http://localhost:8080']});
+            await expect(post(url, '["file.txt"]', json)).to.become(200);
+            await expect(post(url, '["file.txt"]', {...json, Origin: `http://127.0.0.1:${port}`})).to.become(200);
+            await expect(post(url, '["file.txt"]', {...json, Origin: 'http://localhost:8080'})).to.become(200);
+            await expect(post(url, '["file.txt"]', {...json, Origin: 'http://example.com'})).to.become(403);
+        });
+
+        it(`accepts calls as JSON only`, async () => {
+            await expect(post(url, '["file.txt"]', {'Content-Type': 'application/json; charset=utf-8'})).to.become(200);
+            await expect(post(url, '["file.txt"]', {'Content-Type': 'text/plain'})).to.become(415);
+        });
+
+        it(`rejects calls larger than the maximum body size`, async () => {
+            await httpServer.close();
+            httpServer = await httpServerOverFs(underlyingFs, port, {maxBodySize: 20});
+            await expect(post(url, '["file.txt"]', json)).to.become(200);
+            await expect(post(url, `["${'a'.repeat(20)}.txt"]`, json)).to.become(413);
+        });
+    });
+
+    assertFileSystemContract(getInitedFS, eventMatcherOptions);
+});
@@ -1,6 +1,16 @@
 import {expect} from 'chai';
-import {Directory, DirectoryContent, FileSystem, fileSystemEventNames, FileSystemReadSync, isDisposable} from '../src/universal';
+import {
+    Directory,
+    DirectoryContent,
+    FileSystem,
+    FileSystemError,
+    fileSystemEventNames,
+    FileSystemReadSync,
+    isDisposable
+} from '../src/universal';
 import {EventsMatcher} from './events-matcher';
+import {delayedPromise} from '../src/promise-utils';
+import {makeEventsEmitter} from '../src/utils';
 
 export const dirName = 'foo';
 export const fileName = 'bar.txt';
@@ -28,7 +38,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
         });
 
         it(`loading a non-existing file - fails`, function () {
-            return expect(fs.loadTextFile(fileName)).to.be.rejectedWith(Error);
+            return expect(fs.loadTextFile(fileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
         });
 
         it(`loading a directory as a file - fails`, function () {
@@ -36,7 +46,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
                 .then((correlation) => {
                     return matcher.expect([{type: 'directoryCreated', fullPath: dirName, correlation}]);
                 })
-                .then(() => expect(fs.loadTextFile(dirName)).to.be.rejectedWith(Error))
+                .then(() => expect(fs.loadTextFile(dirName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EISDIR'))
                 .then(() => matcher.expect([]));
         });
 
@@ -56,12 +66,36 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
             expect(type).to.equal('file');
         });
 
+        it(`stat a file - size and times`, async function () {
+            const startTime = Date.now();
+            await fs.saveFile(fileName, 'אבג');
+
+            const {size, mtime, ctime, birthtime} = await fs.stat(fileName);
+
+            expect(size).to.equal(6);
+            [mtime, ctime, birthtime].forEach(time => expect(time).to.be.instanceOf(Date));
+            expect(mtime.getTime()).to.be.closeTo(startTime, 5000);
+        });
+
+        it(`stat a modified file`, async function () {
+            await fs.saveFile(fileName, content);
+            const stats = await fs.stat(fileName);
+            await delayedPromise(20);
+            await fs.saveFile(fileName, `_${content}`);
+
+            const newStats = await fs.stat(fileName);
+
+            expect(newStats.size).to.equal(content.length + 1);
+            expect(newStats.mtime.getTime()).to.be.greaterThan(stats.mtime.getTime());
+            expect(newStats.birthtime.getTime()).to.equal(stats.birthtime.getTime());
+        });
+
         it(`stat a non-existing file/folder - fails`, function () {
-            return expect(fs.stat(fileName)).to.be.rejectedWith(Error);
+            return expect(fs.stat(fileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
         });
 
         it(`saving an illegal file name - fails`, function () {
-            return expect(fs.saveFile('', content)).to.be.rejectedWith(Error)
+            return expect(fs.saveFile('', content)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL')
                 .then(() => {
                     return matcher.expect([]);
                 });
@@ -101,7 +135,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
         it(`saving a file over a directory - fails`, function () {
             return fs.ensureDirectory(dirName)
                 .then((correlation) => matcher.expect([{type: 'directoryCreated', fullPath: dirName, correlation}]))
-                .then(() => expect(fs.saveFile(dirName, content)).to.be.rejectedWith(Error))
+                .then(() => expect(fs.saveFile(dirName, content)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EISDIR'))
                 .then(() => expect(fs.loadDirectoryTree()).to.become({
                     type: 'dir', name: '', fullPath: '', children: [
                         {type: 'dir', name: dirName, fullPath: dirName, children: []}
@@ -119,7 +153,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
                     newContent: content,
                     correlation
                 }]))
-                .then(() => expect(fs.saveFile(`${fileNameAsDir}/${fileName}`, '_${content}')).to.be.rejectedWith(Error))
+                .then(() => expect(fs.saveFile(`${fileNameAsDir}/${fileName}`, '_${content}')).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOTDIR'))
                 .then(() => expect(fs.loadDirectoryTree()).to.become({
                     type: 'dir', name: '', fullPath: '', children: [
                         {type: 'file', name: fileNameAsDir, fullPath: fileNameAsDir}
@@ -212,7 +246,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
         });
 
         it(`deleting root directory - fails`, function () {
-            return expect(fs.deleteDirectory('')).to.be.rejectedWith(Error)
+            return expect(fs.deleteDirectory('')).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL')
                 .then(() => matcher.expect([]));
         });
 
@@ -263,7 +297,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
                     newContent: content,
                     correlation
                 }]))
-                .then(() => expect(fs.deleteDirectory(fileName)).to.be.rejectedWith(Error))
+                .then(() => expect(fs.deleteDirectory(fileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOTDIR'))
                 .then(() => matcher.expect([]));
         });
 
@@ -278,7 +312,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
                         newContent: content,
                         correlation
                     }]))
-                .then(() => expect(fs.deleteDirectory(`${dirName}/_${dirName}`)).to.be.rejectedWith(Error))
+                .then(() => expect(fs.deleteDirectory(`${dirName}/_${dirName}`)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOTEMPTY'))
                 .then(() => matcher.expect([]));
         });
 
@@ -306,7 +340,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
                     fullPath: dirNameAsFileName,
                     correlation
                 }]))
-                .then(() => expect(fs.deleteFile(dirNameAsFileName)).to.be.rejectedWith(Error))
+                .then(() => expect(fs.deleteFile(dirNameAsFileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EISDIR'))
                 .then(() => matcher.expect([]));
         });
 
@@ -368,7 +402,7 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
         });
 
         it(`loadDirectoryTree on an illegal sub-path`, function () {
-            return expect(fs.loadDirectoryTree(fileName)).to.be.rejectedWith(Error);
+            return expect(fs.loadDirectoryTree(fileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
         });
 
         it(`loadDirectoryChildren`, function () {
@@ -385,7 +419,435 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
         });
 
         it(`loadDirectoryChildren on an illegal sub-path`, function () {
-            return expect(fs.loadDirectoryChildren(fileName)).to.be.rejectedWith(Error);
+            return expect(fs.loadDirectoryChildren(fileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
+        });
+
+        describe(`move`, function () {
+            it(`moving a file`, async () => {
+                await fs.saveFile(fileName, content);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                const correlation = await fs.move(fileName, `_${fileName}`);
+                await matcher.expect([{type: 'fileRenamed', fullPath: `_${fileName}`, oldFullPath: fileName, correlation}]);
+                await expect(fs.loadTextFile(`_${fileName}`)).to.become(content);
+                await expect(fs.loadTextFile(fileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
+                await expect(fs.loadDirectoryTree()).to.eventually.have.property('children').eql([
+                    {type: 'file', name: `_${fileName}`, fullPath: `_${fileName}`}
+                ]);
+            });
+
+            it(`moving a file into a new directory`, async () => {
+                await fs.saveFile(fileName, content);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                const correlation = await fs.move(fileName, `${dirName}/${fileName}`);
+                await matcher.expect([
+                    {type: 'directoryCreated', fullPath: dirName, correlation},
+                    {type: 'fileRenamed', fullPath: `${dirName}/${fileName}`, oldFullPath: fileName, correlation}
+                ]);
+                await expect(fs.loadTextFile(`${dirName}/${fileName}`)).to.become(content);
+            });
+
+            it(`moving a directory`, async () => {
+                await fs.saveFile(`${dirName}/_${dirName}/${fileName}`, content);
+                await matcher.expect([{type: 'fileCreated', fullPath: `${dirName}/_${dirName}/${fileName}`}]);
+                const correlation = await fs.move(dirName, `_${dirName}`);
+                await matcher.expect([{type: 'directoryRenamed', fullPath: `_${dirName}`, oldFullPath: dirName, correlation}]);
+                await expect(fs.loadDirectoryTree()).to.eventually.have.property('children').eql([
+                    {
+                        type: 'dir', name: `_${dirName}`, fullPath: `_${dirName}`, children: [
+                            {
+                                type: 'dir', name: `_${dirName}`, fullPath: `_${dirName}/_${dirName}`, children: [
+                                    {type: 'file', name: fileName, fullPath: `_${dirName}/_${dirName}/${fileName}`}
+                                ]
+                            }]
+                    }]);
+                await expect(fs.loadTextFile(`_${dirName}/_${dirName}/${fileName}`)).to.become(content);
+            });
+
+            it(`moving a non-existing file - fails`, async () => {
+                await expect(fs.move(fileName, `_${fileName}`)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
+                await matcher.expect([]);
+            });
+
+            it(`moving over an existing file - fails`, async () => {
+                await fs.saveFile(fileName, content);
+                await fs.saveFile(`_${fileName}`, `_${content}`);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}, {type: 'fileCreated', fullPath: `_${fileName}`}]);
+                await expect(fs.move(fileName, `_${fileName}`)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EEXIST');
+                await expect(fs.loadTextFile(`_${fileName}`)).to.become(`_${content}`);
+                await matcher.expect([]);
+            });
+
+            it(`moving a directory into itself - fails`, async () => {
+                await fs.ensureDirectory(dirName);
+                await matcher.expect([{type: 'directoryCreated', fullPath: dirName}]);
+                await expect(fs.move(dirName, `${dirName}/_${dirName}`)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL');
+                await matcher.expect([]);
+            });
+
+            it(`moving root directory - fails`, async () => {
+                await expect(fs.move('', dirName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL');
+                await matcher.expect([]);
+            });
+        });
+
+        describe(`copy`, function () {
+            const sourcePath = `${dirName}/_${dirName}`;
+            const targetPath = `_${dirName}`;
+
+            it(`copying a file`, async () => {
+                await fs.saveFile(fileName, content);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                const correlation = await fs.copyFile(fileName, `${dirName}/${fileName}`);
+                await matcher.expect([
+                    {type: 'directoryCreated', fullPath: dirName, correlation},
+                    {type: 'fileCreated', fullPath: `${dirName}/${fileName}`, newContent: content, correlation}
+                ]);
+                await expect(fs.loadTextFile(fileName)).to.become(content);
+                await expect(fs.loadTextFile(`${dirName}/${fileName}`)).to.become(content);
+            });
+
+            it(`copying a file over an existing file`, async () => {
+                await fs.saveFile(fileName, content);
+                await fs.saveFile(`_${fileName}`, `_${content}`);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}, {type: 'fileCreated', fullPath: `_${fileName}`}]);
+                const correlation = await fs.copyFile(fileName, `_${fileName}`);
+                await matcher.expect([{type: 'fileChanged', fullPath: `_${fileName}`, newContent: content, correlation}]);
+                await expect(fs.loadTextFile(`_${fileName}`)).to.become(content);
+            });
+
+            it(`copying a non-existing file - fails`, async () => {
+                await expect(fs.copyFile(fileName, `_${fileName}`)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
+                await matcher.expect([]);
+            });
+
+            it(`copying a directory as a file - fails`, async () => {
+                await fs.ensureDirectory(dirName);
+                await matcher.expect([{type: 'directoryCreated', fullPath: dirName}]);
+                await expect(fs.copyFile(dirName, fileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EISDIR');
+                await matcher.expect([]);
+            });
+
+            it(`copying a directory`, async () => {
+                await fs.saveFile(`${sourcePath}/${fileName}`, content);
+                await fs.ensureDirectory(`${sourcePath}/${dirName}`);
+                await matcher.expect([
+                    {type: 'fileCreated', fullPath: `${sourcePath}/${fileName}`},
+                    {type: 'directoryCreated', fullPath: `${sourcePath}/${dirName}`}
+                ]);
+                const correlation = await fs.copyDirectory(sourcePath, targetPath);
+                await matcher.expect([
+                    {type: 'directoryCreated', fullPath: targetPath, correlation},
+                    {type: 'directoryCreated', fullPath: `${targetPath}/${dirName}`, correlation},
+                    {type: 'fileCreated', fullPath: `${targetPath}/${fileName}`, newContent: content, correlation}
+                ]);
+                await expect(fs.loadDirectoryChildren(targetPath)).to.eventually.have.deep.members([
+                    {type: 'dir', name: dirName, fullPath: `${targetPath}/${dirName}`},
+                    {type: 'file', name: fileName, fullPath: `${targetPath}/${fileName}`}
+                ]);
+                await expect(fs.loadTextFile(`${targetPath}/${fileName}`)).to.become(content);
+                await expect(fs.loadTextFile(`${sourcePath}/${fileName}`)).to.become(content);
+            });
+
+            it(`copying a directory over an existing directory - fails`, async () => {
+                await fs.saveFile(`${sourcePath}/${fileName}`, content);
+                await fs.ensureDirectory(targetPath);
+                await matcher.expect([
+                    {type: 'fileCreated', fullPath: `${sourcePath}/${fileName}`},
+                    {type: 'directoryCreated', fullPath: targetPath}
+                ]);
+                await expect(fs.copyDirectory(sourcePath, targetPath)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EEXIST');
+                await expect(fs.loadDirectoryChildren(targetPath)).to.eventually.eql([]);
+                await matcher.expect([]);
+            });
+
+            it(`copying a directory over an existing directory (with overwrite option)`, async () => {
+                await fs.saveFile(`${sourcePath}/${fileName}`, content);
+                await fs.saveFile(`${targetPath}/${fileName}`, `_${content}`);
+                await fs.saveFile(`${targetPath}/_${fileName}`, `_${content}`);
+                await matcher.expect([
+                    {type: 'fileCreated', fullPath: `${sourcePath}/${fileName}`},
+                    {type: 'fileCreated', fullPath: `${targetPath}/${fileName}`},
+                    {type: 'fileCreated', fullPath: `${targetPath}/_${fileName}`}
+                ]);
+                const correlation = await fs.copyDirectory(sourcePath, targetPath, {overwrite: true});
+                await matcher.expect([{type: 'fileChanged', fullPath: `${targetPath}/${fileName}`, newContent: content, correlation}]);
+                await expect(fs.loadTextFile(`${targetPath}/${fileName}`)).to.become(content);
+                await expect(fs.loadTextFile(`${targetPath}/_${fileName}`)).to.become(`_${content}`);
+            });
+
+            it(`copying a directory into itself - fails`, async () => {
+                await fs.ensureDirectory(dirName);
+                await matcher.expect([{type: 'directoryCreated', fullPath: dirName}]);
+                await expect(fs.copyDirectory(dirName, `${dirName}/_${dirName}`)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL');
+                await matcher.expect([]);
+            });
+        });
+
+        describe(`binary content`, function () {
+            // not valid UTF-8, so it can't be mistaken for text
+            const binaryContent = new Uint8Array([0, 0xff, 0x80, 1]);
+
+            it(`saving and loading a binary file`, async () => {
+                const correlation = await fs.saveBinaryFile(fileName, binaryContent);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName, newContent: binaryContent, correlation}]);
+                await expect(fs.loadBinaryFile(fileName)).to.become(binaryContent);
+                await matcher.expect([]);
+            });
+
+            it(`saving a binary file with different content`, async () => {
+                await fs.saveBinaryFile(fileName, binaryContent);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName, newContent: binaryContent}]);
+                const newContent = new Uint8Array([0, 0xff, 0x80, 2]);
+                const correlation = await fs.saveBinaryFile(fileName, newContent);
+                await matcher.expect([{type: 'fileChanged', fullPath: fileName, newContent, correlation}]);
+                await expect(fs.loadBinaryFile(fileName)).to.become(newContent);
+            });
+
+            it(`loading a text file as binary`, async () => {
+                await fs.saveFile(fileName, 'אבג');
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName, newContent: 'אבג'}]);
+                await expect(fs.loadBinaryFile(fileName)).to.become(new Uint8Array([0xd7, 0x90, 0xd7, 0x91, 0xd7, 0x92]));
+            });
+
+            it(`loading a binary file as text`, async () => {
+                await fs.saveBinaryFile(fileName, new Uint8Array([0x61, 0x62]));
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                await expect(fs.loadTextFile(fileName)).to.become('ab');
+            });
+
+            it(`saving a binary file over a directory - fails`, async () => {
+                await fs.ensureDirectory(dirName);
+                await matcher.expect([{type: 'directoryCreated', fullPath: dirName}]);
+                await expect(fs.saveBinaryFile(dirName, binaryContent)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EISDIR');
+                await matcher.expect([]);
+            });
+
+            it(`loading a non-existing binary file - fails`, () => {
+                return expect(fs.loadBinaryFile(fileName)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
+            });
+        });
+
+        describe(`optimistic concurrency`, function () {
+            it(`loads a text file with its version`, async () => {
+                await fs.saveFile(fileName, content);
+                const {content: loadedContent, version} = await fs.loadTextFileWithVersion(fileName);
+                expect(loadedContent).to.equal(content);
+                expect(version).to.be.a('string');
+                await fs.saveFile(fileName, `_${content}`);
+                expect((await fs.loadTextFileWithVersion(fileName)).version).to.not.equal(version);
+                await fs.saveFile(fileName, content);
+                expect((await fs.loadTextFileWithVersion(fileName)).version).to.equal(version);
+            });
+
+            it(`saving a file with a matching version`, async () => {
+                await fs.saveFile(fileName, content);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                const {version} = await fs.loadTextFileWithVersion(fileName);
+                const correlation = await fs.saveFile(fileName, `_${content}`, undefined, {ifMatch: version});
+                await matcher.expect([{type: 'fileChanged', fullPath: fileName, newContent: `_${content}`, correlation}]);
+            });
+
+            it(`saving a file that was changed meanwhile - fails`, async () => {
+                await fs.saveFile(fileName, content);
+                const {version} = await fs.loadTextFileWithVersion(fileName);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                await fs.saveFile(fileName, `_${content}`);
+                await matcher.expect([{type: 'fileChanged', fullPath: fileName}]);
+                await expect(fs.saveFile(fileName, `__${content}`, undefined, {ifMatch: version}))
+                    .to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ECONFLICT');
+                await expect(fs.loadTextFile(fileName)).to.become(`_${content}`);
+                await matcher.expect([]);
+            });
+
+            it(`saving a file that was deleted meanwhile - fails`, async () => {
+                await fs.saveFile(fileName, content);
+                const {version} = await fs.loadTextFileWithVersion(fileName);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                await fs.deleteFile(fileName);
+                await matcher.expect([{type: 'fileDeleted', fullPath: fileName}]);
+                await expect(fs.saveBinaryFile(fileName, new Uint8Array([1]), undefined, {ifMatch: version}))
+                    .to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ECONFLICT');
+                await matcher.expect([]);
+            });
+
+            it(`deleting a file with a matching version`, async () => {
+                await fs.saveFile(fileName, content);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                const {version} = await fs.loadTextFileWithVersion(fileName);
+                const correlation = await fs.deleteFile(fileName, undefined, {ifMatch: version});
+                await matcher.expect([{type: 'fileDeleted', fullPath: fileName, correlation}]);
+            });
+
+            it(`deleting a file that was changed meanwhile - fails`, async () => {
+                await fs.saveFile(fileName, content);
+                const {version} = await fs.loadTextFileWithVersion(fileName);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                await fs.saveFile(fileName, `_${content}`);
+                await matcher.expect([{type: 'fileChanged', fullPath: fileName}]);
+                await expect(fs.deleteFile(fileName, undefined, {ifMatch: version}))
+                    .to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ECONFLICT');
+                await expect(fs.loadTextFile(fileName)).to.become(`_${content}`);
+                await matcher.expect([]);
+            });
+        });
+
+        describe(`batch`, function () {
+            it(`applies the operations with one correlation`, async () => {
+                await fs.saveFile(fileName, content);
+                await matcher.expect([{type: 'fileCreated', fullPath: fileName}]);
+                const correlation = await fs.batch([
+                    {type: 'ensureDirectory', fullPath: `${dirName}/sub`},
+                    {type: 'saveFile', fullPath: `${dirName}/${fileName}`, newContent: content},
+                    {type: 'saveBinaryFile', fullPath: `${dirName}/sub/${fileName}`, newContent: new Uint8Array([0xff, 0xfe])},
+                    {type: 'deleteFile', fullPath: fileName}
+                ]);
+                await matcher.expect([
+                    {type: 'directoryCreated', fullPath: dirName, correlation},
+                    {type: 'directoryCreated', fullPath: `${dirName}/sub`, correlation},
+                    {type: 'fileCreated', fullPath: `${dirName}/${fileName}`, newContent: content, correlation},
+                    {type: 'fileCreated', fullPath: `${dirName}/sub/${fileName}`, newContent: new Uint8Array([0xff, 0xfe]), correlation},
+                    {type: 'fileDeleted', fullPath: fileName, correlation}
+                ]);
+                await expect(fs.loadBinaryFile(`${dirName}/sub/${fileName}`)).to.become(new Uint8Array([0xff, 0xfe]));
+            });
+
+            it(`uses the given correlation`, async () => {
+                await fs.batch([{type: 'ensureDirectory', fullPath: dirName}, {type: 'saveFile', fullPath: `${dirName}/${fileName}`, newContent: content}], testCorrelation);
+                await matcher.expect([
+                    {type: 'directoryCreated', fullPath: dirName, correlation: testCorrelation},
+                    {type: 'fileCreated', fullPath: `${dirName}/${fileName}`, correlation: testCorrelation}
+                ]);
+            });
+
+            it(`fails on a failing operation`, async () => {
+                await fs.ensureDirectory(dirName);
+                await matcher.expect([{type: 'directoryCreated', fullPath: dirName}]);
+                await expect(fs.batch([{type: 'saveFile', fullPath: dirName, newContent: content}]))
+                    .to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EISDIR');
+            });
+        });
+
+        describe(`findFiles`, function () {
+            beforeEach(async () => {
+                await fs.saveFile(`src/index.ts`, content);
+                await fs.saveFile(`src/utils/path.ts`, content);
+                await fs.saveFile(`src/utils/path.js`, content);
+                await fs.saveFile(`node_modules/lib/index.ts`, content);
+                await fs.saveFile(`README.md`, content);
+            });
+
+            it(`finds files matching a pattern`, async () => {
+                await expect(fs.findFiles('**/*.ts')).to.become(['node_modules/lib/index.ts', 'src/index.ts', 'src/utils/path.ts']);
+                await expect(fs.findFiles('*.md')).to.become(['README.md']);
+                await expect(fs.findFiles('src/*/pat?.{js,ts}')).to.become(['src/utils/path.js', 'src/utils/path.ts']);
+            });
+
+            it(`finds files matching any of the patterns`, () => {
+                return expect(fs.findFiles(['*.md', 'src/*.ts'])).to.become(['README.md', 'src/index.ts']);
+            });
+
+            it(`does not report directories`, () => {
+                return expect(fs.findFiles('src/*')).to.become(['src/index.ts']);
+            });
+
+            it(`excludes ignored files and directories`, async () => {
+                await expect(fs.findFiles('**/*.ts', {ignore: 'node_modules'})).to.become(['src/index.ts', 'src/utils/path.ts']);
+                await expect(fs.findFiles('**', {ignore: ['node_modules', '**/*.js']})).to.become(['README.md', 'src/index.ts', 'src/utils/path.ts']);
+            });
+
+            it(`matches patterns relative to cwd`, async () => {
+                await expect(fs.findFiles('**/*.ts', {cwd: 'src'})).to.become(['src/index.ts', 'src/utils/path.ts']);
+                await expect(fs.findFiles('*.ts', {cwd: 'src', ignore: 'index.ts'})).to.become([]);
+            });
+
+            it(`in a non-existing cwd - fails`, () => {
+                return expect(fs.findFiles('**', {cwd: dirName})).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'ENOENT');
+            });
+        });
+
+        describe(`searchText`, function () {
+            beforeEach(async () => {
+                await fs.saveFile(`src/a.ts`, `const foo = 1;\nconst bar = foo + Foo;\n`);
+                await fs.saveFile(`src/b.js`, `foo()`);
+                await fs.saveBinaryFile(`foo.bin`, new Uint8Array([0x66, 0x6f, 0x6f, 0xff]));
+            });
+
+            it(`finds matches in text files`, () => {
+                return expect(fs.searchText('foo')).to.become([
+                    {fullPath: 'src/a.ts', line: 1, column: 7, preview: 'const foo = 1;'},
+                    {fullPath: 'src/a.ts', line: 2, column: 13, preview: 'const bar = foo + Foo;'},
+                    {fullPath: 'src/a.ts', line: 2, column: 19, preview: 'const bar = foo + Foo;'},
+                    {fullPath: 'src/b.js', line: 1, column: 1, preview: 'foo()'}
+                ]);
+            });
+
+            it(`respects the options`, async () => {
+                await expect(fs.searchText('Foo', {caseSensitive: true})).to.eventually.have.length(1);
+                await expect(fs.searchText('foo', {glob: '**/*.js'})).to.eventually.eql([{fullPath: 'src/b.js', line: 1, column: 1, preview: 'foo()'}]);
+                await expect(fs.searchText('f.o\\b', {regex: true, glob: 'src/*.ts'})).to.eventually.have.length(3);
+                await expect(fs.searchText('f.o', {glob: 'src/*.ts'})).to.become([]);
+                await expect(fs.searchText('foo', {maxResults: 2})).to.eventually.have.length(2);
+            });
+        });
+
+        describe(`watch`, function () {
+            let scopedMatcher: EventsMatcher;
+            const scopedEvents = makeEventsEmitter();
+            const watchScope = async (pathOrGlob: string, recursive?: boolean) => {
+                const watch = fs.watch(pathOrGlob, event => scopedEvents.emit(event.type, event), {recursive});
+                await watch.ready;
+                return watch;
+            };
+
+            beforeEach(async () => {
+                await fs.ensureDirectory(`${dirName}/sub`);
+                await matcher.expect([{type: 'directoryCreated', fullPath: dirName}, {type: 'directoryCreated', fullPath: `${dirName}/sub`}]);
+                scopedMatcher = new EventsMatcher(options);
+                scopedMatcher.track(scopedEvents, ...fileSystemEventNames);
+            });
+
+            afterEach(() => {
+                scopedEvents.removeAllListeners();
+            });
+
+            it(`reports the events of a directory and its children`, async () => {
+                await watchScope(dirName);
+                await fs.saveFile(fileName, content);
+                await fs.saveFile(`${dirName}/${fileName}`, content);
+                await fs.saveFile(`${dirName}/sub/${fileName}`, content);
+                await matcher.expect([{type: 'fileCreated'}, {type: 'fileCreated'}, {type: 'fileCreated'}]);
+                await scopedMatcher.expect([{type: 'fileCreated', fullPath: `${dirName}/${fileName}`}]);
+            });
+
+            it(`reports the events of a whole sub tree`, async () => {
+                await watchScope(dirName, true);
+                await fs.saveFile(fileName, content);
+                await fs.saveFile(`${dirName}/sub/${fileName}`, content);
+                await matcher.expect([{type: 'fileCreated'}, {type: 'fileCreated'}]);
+                await fs.deleteDirectory(`${dirName}/sub`, true);
+                await matcher.expect([{type: 'fileDeleted'}, {type: 'directoryDeleted'}]);
+                await scopedMatcher.expect([
+                    {type: 'fileCreated', fullPath: `${dirName}/sub/${fileName}`},
+                    {type: 'fileDeleted', fullPath: `${dirName}/sub/${fileName}`},
+                    {type: 'directoryDeleted', fullPath: `${dirName}/sub`}
+                ]);
+            });
+
+            it(`reports the events of paths that match a glob`, async () => {
+                await watchScope('**/*.txt');
+                await fs.saveFile(`${dirName}/sub/${fileName}`, content);
+                await fs.saveFile(`${dirName}/sub/foo.md`, content);
+                await matcher.expect([{type: 'fileCreated'}, {type: 'fileCreated'}]);
+                await scopedMatcher.expect([{type: 'fileCreated', fullPath: `${dirName}/sub/${fileName}`}]);
+            });
+
+            it(`stops reporting once disposed`, async () => {
+                const watch = await watchScope(dirName, true);
+                watch.dispose();
+                await fs.saveFile(`${dirName}/${fileName}`, content);
+                await matcher.expect([{type: 'fileCreated', fullPath: `${dirName}/${fileName}`}]);
+                await scopedMatcher.expect([]);
+            });
         });
 
         describe(`correlation as argument`, function () {
@@ -450,6 +912,26 @@ export function assertFileSystemContract(fsProvider: () => Promise<FileSystem>,
                 }]);
             });
 
+            it(`move()`, async () => {
+                await fs.saveFile(fileName, content);
+                await matcher.expect([{
+                    type: 'fileCreated',
+                    fullPath: fileName
+                }]);
+                const correlationResult = await fs.move(fileName, `${dirName}/${fileName}`, correlation);
+                expect(correlationResult).to.eql(correlation);
+                await matcher.expect([{
+                    type: 'directoryCreated',
+                    fullPath: dirName,
+                    correlation
+                }, {
+                    type: 'fileRenamed',
+                    fullPath: `${dirName}/${fileName}`,
+                    oldFullPath: fileName,
+                    correlation
+                }]);
+            });
+
             it(`ensureDirectory()`, async () => {
                 const correlationResult = await fs.ensureDirectory(`${dirName}/${dirName}`, correlation);
                 expect(correlationResult).to.eql(correlation);
@@ -526,7 +1008,7 @@ export function assertFileSystemSyncContract(fsProvider: () => Promise<FileSyste
 
 
         it(`loading a non-existing file - fails`, function () {
-            return expect(() => fs.loadTextFileSync(fileName)).to.throw(Error);
+            return expect(() => fs.loadTextFileSync(fileName)).to.throw(FileSystemError).with.property('code', 'ENOENT');
         });
 
         it(`loading an existing file - works`, async function () {
@@ -539,10 +1021,16 @@ export function assertFileSystemSyncContract(fsProvider: () => Promise<FileSyste
                 .then((correlation) => {
                     return matcher.expect([{type: 'directoryCreated', fullPath: dirName, correlation}]);
                 })
-                .then(() => expect(() => fs.loadTextFileSync(dirName)).to.throw(Error))
+                .then(() => expect(() => fs.loadTextFileSync(dirName)).to.throw(FileSystemError).with.property('code', 'EISDIR'))
                 .then(() => matcher.expect([]));
         });
 
+        it(`loading an existing binary file - works`, async function () {
+            const binaryContent = new Uint8Array([0, 0xff, 0x80, 1]);
+            await fs.saveBinaryFile(fileName, binaryContent);
+            return expect(fs.loadBinaryFileSync(fileName)).to.eql(binaryContent);
+        });
+
         it(`statSync an existing directory`, async function () {
             await fs.ensureDirectory(dirName);
 
@@ -559,8 +1047,17 @@ export function assertFileSystemSyncContract(fsProvider: () => Promise<FileSyste
             expect(type).to.equal('file');
         });
 
+        it(`statSync an existing file - size and times`, async function () {
+            await fs.saveFile(fileName, content);
+
+            const {size, mtime} = fs.statSync(fileName);
+
+            expect(size).to.equal(content.length);
+            expect(mtime).to.be.instanceOf(Date);
+        });
+
         it(`statSync a non-existing file - fails`, function () {
-            return expect(() => fs.statSync(fileName)).to.throw(Error);
+            return expect(() => fs.statSync(fileName)).to.throw(FileSystemError).with.property('code', 'ENOENT');
         });
 
         it(`loadDirectoryTreeSync`, function () {
@@ -586,7 +1083,7 @@ export function assertFileSystemSyncContract(fsProvider: () => Promise<FileSyste
         });
 
         it(`loadDirectoryTreeSync on an illegal sub-path`, function () {
-            return expect(() => fs.loadDirectoryTreeSync(fileName)).to.throw(Error);
+            return expect(() => fs.loadDirectoryTreeSync(fileName)).to.throw(FileSystemError).with.property('code', 'ENOENT');
         });
 
         it(`loadDirectoryChildrenSync`, function () {
@@ -605,7 +1102,7 @@ export function assertFileSystemSyncContract(fsProvider: () => Promise<FileSyste
         });
 
         it(`loadDirectoryChildrenSync on an illegal sub-path`, function () {
-            return expect(() => fs.loadDirectoryChildrenSync(fileName)).to.throw(Error);
+            return expect(() => fs.loadDirectoryChildrenSync(fileName)).to.throw(FileSystemError).with.property('code', 'ENOENT');
         });
 
         it(`loadDirectoryContentSync`, function () {
@@ -631,7 +1128,7 @@ export function assertFileSystemSyncContract(fsProvider: () => Promise<FileSyste
         });
 
         it(`loadDirectoryTreeSync on an illegal sub-path`, function () {
-            return expect(() => fs.loadDirectoryTreeSync(fileName)).to.throw(Error);
+            return expect(() => fs.loadDirectoryTreeSync(fileName)).to.throw(FileSystemError).with.property('code', 'ENOENT');
         });
     });
 }
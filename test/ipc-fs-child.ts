@@ -0,0 +1,12 @@
+import {IpcClientFileSystem} from '../src/nodejs';
+
+// forked by ipc-fs.spec.node.ts: reads and writes the file system of the parent, then reports what it saw.
+// disposing the client closes its listener, which lets the process exit
+const fs = new IpcClientFileSystem();
+fs.events.on('fileChanged', event => process.send!({report: 'event', event}));
+(async () => {
+    const content = await fs.loadTextFile('from-parent.txt');
+    await fs.saveFile('from-parent.txt', content + ' and child');
+    await fs.saveBinaryFile('from-child.bin', new Uint8Array([1, 2, 3]));
+    process.send!({report: 'done', content, stats: await fs.stat('from-child.bin')});
+})().catch(error => process.send!({report: 'error', message: error.message})).then(() => fs.dispose());
@@ -0,0 +1,73 @@
+import {fork} from 'child_process';
+import {EventEmitter} from 'events';
+import {join} from 'path';
+import {expect} from 'chai';
+import {exposeFileSystemOverIpc, IpcChannel, IpcClientFileSystem, MemoryFileSystem} from '../src/nodejs';
+import {assertFileSystemContract} from './implementation-suite';
+
+/**
+ * the two ends of a connected IPC channel, passing messages through JSON like node does
+ */
+function makeChannels(): [IpcChannel & EventEmitter, IpcChannel & EventEmitter] {
+    const makeChannel = () => Object.assign(new EventEmitter(), {connected: true, send: (_message: any) => undefined as any});
+    const channels = [makeChannel(), makeChannel()];
+    channels.forEach((channel, index) => {
+        const other = channels[1 - index];
+        channel.send = message => {
+            const json = JSON.stringify(message);
+            setImmediate(() => other.emit('message', JSON.parse(json)));
+        };
+    });
+    return channels as [IpcChannel & EventEmitter, IpcChannel & EventEmitter];
+}
+
+describe(`the ipc filesystem proxy`, () => {
+    let client: IpcClientFileSystem | undefined;
+
+    afterEach(() => {
+        if (client) {
+            client.dispose();
+            client = undefined;
+        }
+    });
+
+    assertFileSystemContract(async () => {
+        const [parent, child] = makeChannels();
+        exposeFileSystemOverIpc(new MemoryFileSystem(), child);
+        return client = new IpcClientFileSystem(parent);
+    }, {retries: 15, interval: 5, noExtraEventsGrace: 20, timeout: 100});
+
+    it(`stops serving and rejects calls once the channel is closed`, async () => {
+        const [parent, child] = makeChannels();
+        const fs = new MemoryFileSystem();
+        exposeFileSystemOverIpc(fs, child);
+        client = new IpcClientFileSystem(parent);
+        expect(fs.events.listenerCount('fileCreated')).to.equal(1);
+        child.emit('exit');
+        expect(fs.events.listenerCount('fileCreated')).to.equal(0);
+        parent.emit('disconnect');
+        await expect(client.loadTextFile('file.txt')).to.be.rejectedWith('disposed');
+    });
+
+    it(`serves a forked child process`, async function () {
+        this.timeout(20000);
+        const fs = new MemoryFileSystem('', {content: {'from-parent.txt': 'parent'}});
+        const child = fork(join(__dirname, 'ipc-fs-child.ts'), [], {execArgv: ['-r', '@ts-tools/node']});
+        exposeFileSystemOverIpc(fs, child);
+        const reports: any[] = [];
+        try {
+            await new Promise(resolve => {
+                child.on('message', message => message.report && reports.push(message));
+                child.on('exit', resolve);
+            });
+        } finally {
+            child.kill();
+        }
+        expect(reports).to.containSubset([
+            {report: 'event', event: {type: 'fileChanged', fullPath: 'from-parent.txt', newContent: 'parent and child'}},
+            {report: 'done', content: 'parent', stats: {type: 'file', size: 3}}
+        ]);
+        expect(fs.loadBinaryFileSync('from-child.bin')).to.eql(new Uint8Array([1, 2, 3]));
+        expect(fs.events.listenerCount('fileChanged')).to.equal(0);
+    });
+});
@@ -0,0 +1,120 @@
+import {expect} from 'chai';
+import {spy} from 'sinon';
+import WebSocket from 'ws';
+import {JsonRpcFsServer, jsonRpcServerOverFs} from '../src/nodejs';
+import {fileSystemAsyncMethods, JsonRpcClientFileSystem, MemoryFileSystem, noJsonRpcConnectionError} from '../src/universal';
+import {EventsMatcher} from './events-matcher';
+import {assertFileSystemContract} from './implementation-suite';
+
+const msg = 'foo';
+const fakeArgs = ['foo', 'bar'];
+const port = 3020;
+const url = `ws://127.0.0.1:${port}`;
+
+describe(`the json-rpc client filesystem proxy`, () => {
+    let jsonRpcServer: JsonRpcFsServer;
+    let underlyingFs: MemoryFileSystem;
+    let fs: JsonRpcClientFileSystem | undefined;
+
+    async function getInitedFS(): Promise<JsonRpcClientFileSystem> {
+        fs = new JsonRpcClientFileSystem(url, 5000, WebSocket);
+        return fs.init();
+    }
+
+    function rawCall(message: string): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(url);
+            socket.onopen = () => socket.send(message);
+            socket.onmessage = ({data}) => {
+                socket.close();
+                resolve(JSON.parse(data as string));
+            };
+            socket.onerror = reject;
+        });
+    }
+
+    const eventMatcherOptions: EventsMatcher.Options = {
+        retries: 25,
+        interval: 20,
+        noExtraEventsGrace: 60,
+        timeout: 1000
+    };
+
+    beforeEach(async () => {
+        underlyingFs = new MemoryFileSystem();
+        jsonRpcServer = await jsonRpcServerOverFs(underlyingFs, port);
+    });
+
+    afterEach(async () => {
+        if (fs) {
+            fs.dispose();
+            fs = undefined;
+        }
+        await jsonRpcServer.close();
+    });
+
+    fileSystemAsyncMethods.forEach(asyncMethodName => {
+        describe(`${asyncMethodName} method`, () => {
+            it(`fails when not inited`, async () => {
+                const withoutInit = new JsonRpcClientFileSystem(url, 5000, WebSocket);
+                return expect((withoutInit[asyncMethodName] as Function)(...fakeArgs)).to.eventually.be.rejectedWith(noJsonRpcConnectionError);
+            });
+
+            it(`passes arguments and results correctly`, async () => {
+                const client = await getInitedFS();
+                const methodImpl = spy(async () => msg);
+                (underlyingFs as any)[asyncMethodName] = methodImpl;
+                const res = await (client[asyncMethodName] as Function)(...fakeArgs);
+                expect(res).to.eql(msg);
+                expect(methodImpl).to.have.been.calledWith(...fakeArgs);
+            });
+
+            it(`reports original error messages`, async () => {
+                const client = await getInitedFS();
+                (underlyingFs as any)[asyncMethodName] = async () => {
+                    throw new Error(msg);
+                };
+                await expect((client[asyncMethodName] as Function)(...fakeArgs)).to.eventually.be.rejectedWith(msg);
+            });
+        });
+    });
+
+    it(`answers plain JSON-RPC 2.0 requests`, async () => {
+        await underlyingFs.saveFile('file.txt', 'content');
+        expect(await rawCall(JSON.stringify({jsonrpc: '2.0', id: 1, method: 'loadTextFile', params: ['file.txt']})))
+            .to.eql({jsonrpc: '2.0', id: 1, result: 'content'});
+        expect(await rawCall(JSON.stringify([
+            {jsonrpc: '2.0', id: 1, method: 'loadTextFile', params: ['file.txt']},
+            {jsonrpc: '2.0', method: 'loadTextFile', params: ['file.txt']},
+            {jsonrpc: '2.0', id: 2, method: 'dispose'}
+        ]))).to.containSubset([
+            {jsonrpc: '2.0', id: 1, result: 'content'},
+            {jsonrpc: '2.0', id: 2, error: {code: -32601}}
+        ]).and.have.length(2);
+        expect(await rawCall('{')).to.containSubset({jsonrpc: '2.0', id: null, error: {code: -32700}});
+        expect(await rawCall(JSON.stringify({jsonrpc: '2.0', id: 3, method: 'loadTextFile', params: ['missing.txt']})))
+            .to.containSubset({jsonrpc: '2.0', id: 3, error: {code: -32000, data: {code: 'ENOENT', path: 'missing.txt'}}});
+    });
+
+    it(`accepts connections from its own origin, and from allowed origins only`, async () => {
+        await jsonRpcServer.close();
+        jsonRpcServer = await jsonRpcServerOverFs(underlyingFs, port, {allowedOrigins: ['http://localhost:8080']});
+        const connect = (origin: string) => new Promise<void>((resolve, reject) => {
+            const socket = new WebSocket(url, {origin});
+            socket.onopen = () => {
+                socket.close();
+                resolve();
+            };
+            socket.onerror = ({message}) => reject(new Error(message));
+        });
+        await connect(`http://127.0.0.1:${port}`);
+        await connect('http://localhost:8080');
+        await expect(connect('http://example.com')).to.be.rejectedWith('401');
+    });
+
+    it(`fails to init when there is no server`, async () => {
+        await expect(new JsonRpcClientFileSystem(`ws://127.0.0.1:${port + 1}`, 5000, WebSocket).init()).to.be.rejectedWith(Error);
+    });
+
+    assertFileSystemContract(getInitedFS, eventMatcherOptions);
+});
@@ -1,5 +1,5 @@
 import {dir} from 'tmp';
-import {mkdirSync, rmdirSync, unlinkSync, writeFileSync} from 'fs';
+import {existsSync, mkdirSync, rmdirSync, unlinkSync, writeFileSync} from 'fs';
 import {join} from 'path';
 import {expect} from 'chai';
 import {
@@ -10,7 +10,7 @@ import {
     fileName
 } from './implementation-suite';
 import {EventsMatcher} from './events-matcher';
-import {FileSystem, fileSystemEventNames, LocalFileSystem} from '../src/nodejs';
+import {CacheFileSystem, encodeUtf8, FileSystem, fileSystemEventNames, LocalFileSystem} from '../src/nodejs';
 
 const eventMatcherOptions = {
     retries: 20,
@@ -115,26 +115,26 @@ describe(`the local filesystem implementation`, () => {
         });
 
         describe(`events with 'newContent'`, () => {
-            it(`emits 'unexpectedError' if 'loadTextFile' rejected in watcher 'add' callback`, () => {
-                fs.loadTextFile = () => Promise.reject('go away!');
+            it(`emits 'unexpectedError' if 'loadBinaryFile' rejected in watcher 'add' callback`, () => {
+                fs.loadBinaryFile = () => Promise.reject('go away!');
                 const path = join(testPath, fileName);
                 writeFileSync(path, content);
                 return matcher.expect([{type: 'unexpectedError'}]);
             });
 
-            it(`emits 'unexpectedError' if 'loadTextFile' rejected in watcher 'change' callback`, async () => {
+            it(`emits 'unexpectedError' if 'loadBinaryFile' rejected in watcher 'change' callback`, async () => {
                 await fs.saveFile(fileName, content);
                 await matcher.expect([{type: 'fileCreated', fullPath: fileName, newContent: content}]);
-                fs.loadTextFile = () => Promise.reject('go away!');
+                fs.loadBinaryFile = () => Promise.reject('go away!');
                 await fs.saveFile(fileName, `_${content}`);
                 await matcher.expect([{type: 'unexpectedError'}]);
             });
 
-            it(`emits exactly one 'change' event if 'loadTextFile' returns same content on multiple change events (unit for stress scenario)`, async () => {
+            it(`emits exactly one 'change' event if 'loadBinaryFile' returns same content on multiple change events (unit for stress scenario)`, async () => {
                 await fs.saveFile(fileName, content);
                 await matcher.expect([{type: 'fileCreated', fullPath: fileName, newContent: content}]);
                 const newContent = `newContent`;
-                fs.loadTextFile = async () => newContent;
+                fs.loadBinaryFile = async () => encodeUtf8(newContent);
                 await fs.saveFile(fileName, '123');
                 await matcher.expect([{type: 'fileChanged', fullPath: fileName, newContent: newContent}]);
                 await fs.saveFile(fileName, '456');
@@ -145,6 +145,73 @@ describe(`the local filesystem implementation`, () => {
 
         });
 
+        describe(`watch without watching the root`, () => {
+            let scopedFs: LocalFileSystem;
+
+            beforeEach(() => {
+                scopedFs = new LocalFileSystem(testPath, {...fileSystemOptions, watchRoot: false});
+            });
+
+            afterEach(() => {
+                scopedFs.dispose();
+            });
+
+            it(`only reports changes in watched paths`, async () => {
+                mkdirSync(join(testPath, dirName));
+                const scopedMatcher = new EventsMatcher(eventMatcherOptions);
+                scopedMatcher.track((await scopedFs.init()).events, ...fileSystemEventNames);
+                const watched: string[] = [];
+                await scopedFs.watch(dirName, event => watched.push(event.fullPath)).ready;
+                writeFileSync(join(testPath, fileName), content);
+                writeFileSync(join(testPath, dirName, fileName), content);
+                await scopedMatcher.expect([{type: 'fileCreated', fullPath: `${dirName}/${fileName}`, newContent: content}]);
+                expect(watched).to.eql([`${dirName}/${fileName}`]);
+            });
+        });
+
+        describe(`move`, () => {
+            it(`reports changes of the moved paths right after the move`, async () => {
+                mkdirSync(join(testPath, dirName));
+                writeFileSync(join(testPath, dirName, fileName), content);
+                await matcher.expect([{type: 'directoryCreated', fullPath: dirName}, {type: 'fileCreated', fullPath: `${dirName}/${fileName}`}]);
+                const correlation = await fs.move(dirName, `moved_${dirName}`);
+                await matcher.expect([{type: 'directoryRenamed', fullPath: `moved_${dirName}`, oldFullPath: dirName, correlation}]);
+                mkdirSync(join(testPath, dirName));
+                await matcher.expect([{type: 'directoryCreated', fullPath: dirName}]);
+                rmdirSync(join(testPath, dirName));
+                await matcher.expect([{type: 'directoryDeleted', fullPath: dirName}]);
+            });
+        });
+
+        describe(`optimistic concurrency`, () => {
+            it(`accepts only one of concurrent writes with the same version`, async () => {
+                await fs.saveFile(fileName, content);
+                const {version} = await fs.loadTextFileWithVersion(fileName);
+                const results = await Promise.all(['a', 'b', 'c'].map(newContent =>
+                    fs.saveFile(fileName, newContent, undefined, {ifMatch: version}).then(() => newContent, () => null)));
+                const saved = results.filter(result => result !== null);
+                expect(saved).to.have.length(1);
+                await expect(fs.loadTextFile(fileName)).to.become(saved[0]);
+            });
+
+            it(`doesn't interleave a move with a write of the moved file`, async () => {
+                await fs.saveFile(fileName, content);
+                const {version} = await fs.loadTextFileWithVersion(fileName);
+                await Promise.all([fs.saveFile(fileName, 'changed', undefined, {ifMatch: version}), fs.move(fileName, `moved_${fileName}`)]);
+                await expect(fs.loadTextFile(`moved_${fileName}`)).to.become('changed');
+                expect(existsSync(join(testPath, fileName))).to.equal(false);
+            });
+
+            it(`has the same versions for files that are not UTF-8 behind a cache`, async () => {
+                writeFileSync(join(testPath, fileName), new Buffer([0x41, 0xFF, 0x42]));
+                const cacheFs = new CacheFileSystem(fs);
+                await cacheFs.loadTextFile(fileName);
+                const {version} = await cacheFs.loadTextFileWithVersion(fileName);
+                await cacheFs.saveFile(fileName, content, undefined, {ifMatch: version});
+                await expect(fs.loadTextFile(fileName)).to.become(content);
+            });
+        });
+
         describe('events noise', function () {
             fileSystemEventNames.forEach(type => {
                 it(`de-dupe events of type ${type}`, async () => {
@@ -1,5 +1,5 @@
 import {assertFileSystemContract, assertFileSystemSyncContract} from './implementation-suite';
-import {Directory, MemoryFileSystem} from '../src/universal';
+import {Directory, File, MemoryFileSystem} from '../src/universal';
 import {expect} from 'chai';
 
 const content = {
@@ -54,6 +54,117 @@ describe(`the in-memory implementation`, function () {
         });
     });
 
+    describe('path index', () => {
+        it('follows children arrays of the model that are replaced or added to from outside', () => {
+            const model = Directory.fromContent(content);
+            const fs = new MemoryFileSystem(undefined, {model});
+            expect(fs.loadTextFileSync('a.file')).to.equal('hello');
+            model.children = model.children.filter(({name}) => name !== 'a.file');
+            expect(() => fs.loadTextFileSync('a.file')).to.throw('a.file');
+            model.children.push(new File('b.file', 'b.file', 'world'));
+            expect(fs.loadTextFileSync('b.file')).to.equal('world');
+        });
+    });
+
+    describe('batch', () => {
+        it('applies none of the operations if one of them fails', async () => {
+            const fs = new MemoryFileSystem('', {content});
+            const statsBefore = fs.statSync('src');
+            const events: any[] = [];
+            fs.events.on('fileCreated', event => events.push(event));
+            await expect(fs.batch([
+                {type: 'saveFile', fullPath: 'src/new.ts', newContent: 'new'},
+                {type: 'deleteFile', fullPath: 'src/a.ts'},
+                {type: 'deleteDirectory', fullPath: 'src/nested'}
+            ])).to.be.rejectedWith('not empty');
+            expect(fs.loadDirectoryContentSync()).to.eql(content);
+            expect(fs.statSync('src')).to.eql(statsBefore);
+            expect(events).to.eql([]);
+        });
+    });
+
+    describe('snapshot() and restore()', () => {
+        it('keeps snapshots unaffected by later changes', async () => {
+            const fs = new MemoryFileSystem('', {content});
+            const snapshot = fs.snapshot();
+            fs.saveFileSync('src/a.ts', 'changed');
+            fs.saveFileSync('src/nested/new.ts', 'new');
+            fs.deleteFileSync('a.file');
+            fs.moveSync('src/nested', 'moved');
+            fs.ensureDirectorySync('src/dir');
+            MemoryFileSystem.addContent(fs, {'added.ts': 'added'}, 'src');
+            expect(new MemoryFileSystem('', {model: snapshot.root}).loadDirectoryContentSync()).to.eql(content);
+            fs.restore(snapshot);
+            expect(fs.loadDirectoryContentSync()).to.eql(content);
+            fs.saveFileSync('src/nested/file.zag', 'changed after restore');
+            expect(new MemoryFileSystem('', {model: snapshot.root}).loadDirectoryContentSync()).to.eql(content);
+        });
+
+        it('shares the unchanged parts of the tree', () => {
+            const fs = new MemoryFileSystem('', {content});
+            const snapshot = fs.snapshot();
+            expect(fs.snapshot().root).to.equal(snapshot.root);
+            fs.saveFileSync('a.file', 'changed');
+            const next = fs.snapshot();
+            expect(next.root).to.not.equal(snapshot.root);
+            expect(next.root.children.find(({name}) => name === 'src')).to.equal(snapshot.root.children.find(({name}) => name === 'src'));
+        });
+
+        it('emits only the differences when restoring', () => {
+            const fs = new MemoryFileSystem('', {content});
+            const snapshot = fs.snapshot();
+            fs.saveFileSync('src/a.ts', 'changed');
+            fs.saveFileSync('src/b.js', 'changed');
+            fs.saveFileSync('src/b.js', 'b');
+            fs.deleteDirectorySync('src/nested', true);
+            fs.saveFileSync('new/file.ts', 'new');
+            const events: any[] = [];
+            fs.events.on('fileCreated', event => events.push(event));
+            fs.events.on('fileChanged', event => events.push(event));
+            fs.events.on('fileDeleted', event => events.push(event));
+            fs.events.on('directoryCreated', event => events.push(event));
+            fs.events.on('directoryDeleted', event => events.push(event));
+            const correlation = fs.restore(snapshot);
+            expect(events).to.have.deep.members([
+                {type: 'directoryDeleted', fullPath: 'new', correlation},
+                {type: 'fileDeleted', fullPath: 'new/file.ts', correlation},
+                {type: 'fileChanged', fullPath: 'src/a.ts', newContent: 'a', correlation},
+                {type: 'directoryCreated', fullPath: 'src/nested', correlation},
+                {type: 'fileCreated', fullPath: 'src/nested/file.zag', newContent: 'nested-file', correlation}
+            ]);
+        });
+    });
+
+    describe('serialize() and deserialize()', () => {
+        it('round-trips content and metadata through JSON', () => {
+            const fs = new MemoryFileSystem('', {content});
+            fs.saveBinaryFileSync('binary.bin', new Uint8Array([0, 255]));
+            fs.saveFileSync('empty.txt', '');
+            fs.ensureDirectorySync('empty-dir');
+            const loaded = new MemoryFileSystem();
+            loaded.deserialize(JSON.parse(JSON.stringify(fs.serialize())));
+            expect(loaded.loadDirectoryContentSync()).to.eql(fs.loadDirectoryContentSync());
+            expect(loaded.loadBinaryFileSync('binary.bin')).to.eql(new Uint8Array([0, 255]));
+            expect(loaded.statSync('src/nested/file.zag')).to.eql(fs.statSync('src/nested/file.zag'));
+            expect(loaded.statSync('empty-dir')).to.eql(fs.statSync('empty-dir'));
+        });
+
+        it('emits the differences from the current content', () => {
+            const fs = new MemoryFileSystem('', {content});
+            const data = fs.serialize();
+            fs.saveFileSync('src/a.ts', 'changed');
+            const events: any[] = [];
+            fs.events.on('fileChanged', event => events.push(event));
+            const correlation = fs.deserialize(data);
+            expect(events).to.eql([{type: 'fileChanged', fullPath: 'src/a.ts', newContent: 'a', correlation}]);
+        });
+
+        it('rejects unknown versions', () => {
+            const data: any = {...new MemoryFileSystem().serialize(), version: 2};
+            expect(() => new MemoryFileSystem().deserialize(data)).to.throw('version 2');
+        });
+    });
+
     describe('static addContent()', () => {
         it('adds content to an existing memory files system', async () => {
             const fs = new MemoryFileSystem('', {content: {'a.file': 'hello'}});
@@ -0,0 +1,81 @@
+import {expect} from 'chai';
+import {Disposable, exposeFileSystem, FileSystemError, MemoryFileSystem, MessagePortFileSystem} from '../src/universal';
+import {EventsMatcher} from './events-matcher';
+import {assertFileSystemContract} from './implementation-suite';
+
+// worker_threads has no typings in the node types this project uses,
+// and older nodejs versions (which CI still runs) don't have it at all
+const MessageChannel = loadMessageChannel();
+
+function loadMessageChannel(): any {
+    try {
+        return require('worker_threads').MessageChannel;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+(MessageChannel ? describe : describe.skip)(`the message port filesystem proxy`, () => {
+    let channel: any;
+    let exposed: Disposable;
+    let underlyingFs: MemoryFileSystem;
+    let fs: MessagePortFileSystem | undefined;
+
+    async function getFS(): Promise<MessagePortFileSystem> {
+        channel = new MessageChannel();
+        underlyingFs = new MemoryFileSystem();
+        exposed = exposeFileSystem(underlyingFs, channel.port1);
+        fs = new MessagePortFileSystem(channel.port2);
+        return fs;
+    }
+
+    const eventMatcherOptions: EventsMatcher.Options = {
+        retries: 15,
+        interval: 5,
+        noExtraEventsGrace: 20,
+        timeout: 100
+    };
+
+    afterEach(() => {
+        if (fs) {
+            fs.dispose();
+            fs = undefined;
+            exposed.dispose();
+            channel.port1.close();
+        }
+    });
+
+    assertFileSystemContract(getFS, eventMatcherOptions);
+
+    it(`carries binary content, stats and errors`, async () => {
+        const client = await getFS();
+        await client.saveBinaryFile('file.bin', new Uint8Array([0, 255]));
+        expect(await client.loadBinaryFile('file.bin')).to.eql(new Uint8Array([0, 255]));
+        expect((await client.stat('file.bin')).mtime).to.be.instanceOf(Date);
+        await expect(client.loadTextFile('missing.txt')).to.be.rejectedWith(FileSystemError).and.eventually.include({code: 'ENOENT', path: 'missing.txt'});
+    });
+
+    it(`forwards events with their correlation`, async () => {
+        const client = await getFS();
+        const matcher = new EventsMatcher(eventMatcherOptions);
+        matcher.track(client.events, 'fileCreated');
+        await underlyingFs.saveFile('file.txt', 'content', 'my-correlation');
+        await matcher.expect([{type: 'fileCreated', fullPath: 'file.txt', newContent: 'content', correlation: 'my-correlation'}]);
+    });
+
+    it(`ignores other messages on the port`, async () => {
+        const client = await getFS();
+        channel.port1.postMessage('not for the file system');
+        channel.port1.postMessage({kissfs: 'result', id: 1000});
+        await client.saveFile('file.txt', 'content');
+        expect(await client.loadTextFile('file.txt')).to.equal('content');
+    });
+
+    it(`rejects calls once disposed`, async () => {
+        const client = await getFS();
+        const pending = client.loadTextFile('file.txt');
+        client.dispose();
+        await expect(pending).to.be.rejectedWith('MessagePortFileSystem is disposed');
+        await expect(client.saveFile('file.txt', 'content')).to.be.rejectedWith('MessagePortFileSystem is disposed');
+    });
+});
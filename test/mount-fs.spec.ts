@@ -0,0 +1,107 @@
+import {expect} from 'chai';
+import {EventsMatcher} from './events-matcher';
+import {assertFileSystemContract, assertFileSystemSyncContract} from './implementation-suite';
+import {
+    FileSystemError,
+    fileSystemEventNames,
+    isFileSystemReadSync,
+    MemoryFileSystem,
+    MountFileSystem,
+    MountFileSystemSync
+} from '../src/universal';
+import {SlowFs} from './slow-fs';
+
+describe(`the mount file system`, () => {
+    const eventMatcherOptions: EventsMatcher.Options = {retries: 15, interval: 2, timeout: 40, noExtraEventsGrace: 10};
+
+    assertFileSystemContract(
+        async () => new MountFileSystem('', {mounts: {'': new MemoryFileSystem()}}),
+        eventMatcherOptions
+    );
+
+    assertFileSystemSyncContract(
+        async () => new MountFileSystemSync('', {mounts: {'': new MemoryFileSystem()}}),
+        eventMatcherOptions
+    );
+
+    describe(`with several mounts`, () => {
+        let src: MemoryFileSystem;
+        let virtual: MemoryFileSystem;
+        let fs: MountFileSystemSync;
+        let matcher: EventsMatcher;
+
+        beforeEach(() => {
+            src = new MemoryFileSystem('', {content: {'index.ts': 'index', 'lib': {'a.ts': 'a'}}});
+            virtual = new MemoryFileSystem('', {content: {'generated.ts': 'generated'}});
+            fs = new MountFileSystemSync('', {mounts: {'/src': src, '/mnt/virtual': virtual}});
+            matcher = new EventsMatcher(eventMatcherOptions);
+            matcher.track(fs.events, ...fileSystemEventNames);
+        });
+
+        it(`lists mount points as directories`, async () => {
+            expect((await fs.loadDirectoryChildren('')).map(({name, type}) => ({name, type}))).to.eql([
+                {name: 'mnt', type: 'dir'},
+                {name: 'src', type: 'dir'}
+            ]);
+            expect(await fs.loadDirectoryTree()).to.containSubset({
+                fullPath: '', children: [
+                    {fullPath: 'mnt', children: [{name: 'virtual', fullPath: 'mnt/virtual', children: [{fullPath: 'mnt/virtual/generated.ts'}]}]},
+                    {fullPath: 'src', children: [{fullPath: 'src/index.ts'}, {fullPath: 'src/lib', children: [{fullPath: 'src/lib/a.ts'}]}]}
+                ]
+            });
+            expect((await fs.stat('mnt')).type).to.equal('dir');
+            expect(await fs.findFiles('**/*.ts')).to.eql(['mnt/virtual/generated.ts', 'src/index.ts', 'src/lib/a.ts']);
+        });
+
+        it(`routes calls to the mounted file systems`, async () => {
+            await fs.saveFile('mnt/virtual/new.ts', 'new');
+            expect(virtual.loadTextFileSync('new.ts')).to.equal('new');
+            expect(await fs.loadTextFile('src/lib/a.ts')).to.equal('a');
+            await expect(fs.saveFile('outside.ts', 'outside')).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL');
+            await expect(fs.deleteDirectory('src', true)).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL');
+        });
+
+        it(`emits the events of every mount with prefixed paths`, async () => {
+            await src.saveFile('lib/b.ts', 'b');
+            await virtual.move('generated.ts', 'moved.ts');
+            await matcher.expect([
+                {type: 'fileCreated', fullPath: 'src/lib/b.ts', newContent: 'b'},
+                {type: 'fileRenamed', fullPath: 'mnt/virtual/moved.ts', oldFullPath: 'mnt/virtual/generated.ts'}
+            ]);
+        });
+
+        it(`moves between mounts by copying`, async () => {
+            await fs.move('src/lib', 'mnt/virtual/lib');
+            await matcher.expect([
+                {type: 'directoryCreated', fullPath: 'mnt/virtual/lib'},
+                {type: 'fileCreated', fullPath: 'mnt/virtual/lib/a.ts', newContent: 'a'},
+                {type: 'directoryDeleted', fullPath: 'src/lib'},
+                {type: 'fileDeleted', fullPath: 'src/lib/a.ts'}
+            ]);
+            expect(virtual.loadTextFileSync('lib/a.ts')).to.equal('a');
+            expect(src.loadDirectoryContentSync()).to.eql({'index.ts': 'index'});
+        });
+
+        it(`applies a batch of a single mount with that mount`, async () => {
+            await expect(fs.batch([
+                {type: 'saveFile', fullPath: 'src/c.ts', newContent: 'c'},
+                {type: 'saveFile', fullPath: 'src/lib', newContent: 'not a directory'}
+            ])).to.be.rejectedWith(FileSystemError);
+            expect(src.loadDirectoryContentSync()).to.eql({'index.ts': 'index', 'lib': {'a.ts': 'a'}});
+        });
+
+        it(`reads synchronously`, () => {
+            expect(fs.loadTextFileSync('src/index.ts')).to.equal('index');
+            expect(fs.loadDirectoryContentSync('')).to.eql({
+                'mnt': {'virtual': {'generated.ts': 'generated'}},
+                'src': {'index.ts': 'index', 'lib': {'a.ts': 'a'}}
+            });
+            expect(fs.statSync('mnt/virtual').type).to.equal('dir');
+        });
+    });
+
+    it(`is FileSystemReadSync only in its sync flavor`, () => {
+        expect(isFileSystemReadSync(new MountFileSystem('', {mounts: {'': new SlowFs(0)}}))).to.equal(false);
+        expect(isFileSystemReadSync(new MountFileSystemSync('', {mounts: {'': new MemoryFileSystem()}}))).to.equal(true);
+    });
+});
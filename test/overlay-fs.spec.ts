@@ -0,0 +1,143 @@
+import {expect} from 'chai';
+import {EventsMatcher} from './events-matcher';
+import {assertFileSystemContract} from './implementation-suite';
+import {fileSystemEventNames, MemoryFileSystem, OverlayFileSystem} from '../src/universal';
+
+describe(`the overlay file system`, () => {
+    const eventMatcherOptions: EventsMatcher.Options = {retries: 15, interval: 2, timeout: 40, noExtraEventsGrace: 10};
+
+    assertFileSystemContract(
+        async () => new OverlayFileSystem(new MemoryFileSystem()),
+        eventMatcherOptions
+    );
+
+    describe(`over existing content`, () => {
+        let lower: MemoryFileSystem;
+        let upper: MemoryFileSystem;
+        let fs: OverlayFileSystem;
+        let matcher: EventsMatcher;
+
+        beforeEach(() => {
+            lower = new MemoryFileSystem('', {
+                content: {
+                    'a.txt': 'a',
+                    'src': {
+                        'b.txt': 'b',
+                        'nested': {'c.txt': 'c'}
+                    }
+                }
+            });
+            upper = new MemoryFileSystem();
+            fs = new OverlayFileSystem(lower, upper);
+            matcher = new EventsMatcher(eventMatcherOptions);
+            matcher.track(fs.events, ...fileSystemEventNames);
+        });
+
+        it(`reads through to the lower layer`, async () => {
+            expect(await fs.loadTextFile('src/nested/c.txt')).to.equal('c');
+            expect(await fs.loadDirectoryTree()).to.eql(await lower.loadDirectoryTree());
+        });
+
+        it(`writes to the upper layer only`, async () => {
+            await fs.saveFile('a.txt', 'changed');
+            await fs.saveFile('src/new.txt', 'new');
+            await matcher.expect([
+                {type: 'fileChanged', fullPath: 'a.txt', newContent: 'changed'},
+                {type: 'fileCreated', fullPath: 'src/new.txt', newContent: 'new'}
+            ]);
+            expect(await fs.loadTextFile('a.txt')).to.equal('changed');
+            expect(lower.loadTextFileSync('a.txt')).to.equal('a');
+            expect(lower.loadDirectoryChildrenSync('src').map(({name}) => name)).to.not.include('new.txt');
+            expect(upper.loadTextFileSync('src/new.txt')).to.equal('new');
+        });
+
+        it(`merges the directories of both layers`, async () => {
+            await fs.saveFile('src/nested/d.txt', 'd');
+            expect((await fs.loadDirectoryChildren('src/nested')).map(({name}) => name)).to.eql(['c.txt', 'd.txt']);
+            expect(await fs.findFiles('**/*.txt')).to.eql(['a.txt', 'src/b.txt', 'src/nested/c.txt', 'src/nested/d.txt']);
+        });
+
+        it(`hides deleted lower files and directories without deleting them`, async () => {
+            await fs.deleteFile('a.txt');
+            await fs.deleteDirectory('src/nested', true);
+            await matcher.expect([
+                {type: 'fileDeleted', fullPath: 'a.txt'},
+                {type: 'directoryDeleted', fullPath: 'src/nested'},
+                {type: 'fileDeleted', fullPath: 'src/nested/c.txt'}
+            ]);
+            expect(await fs.findFiles('**')).to.eql(['src/b.txt']);
+            await expect(fs.loadTextFile('a.txt')).to.be.rejectedWith(Error);
+            expect(lower.loadTextFileSync('a.txt')).to.equal('a');
+            expect(lower.loadTextFileSync('src/nested/c.txt')).to.equal('c');
+        });
+
+        it(`does not show the lower content of a deleted directory that was created again`, async () => {
+            await fs.deleteDirectory('src', true);
+            await fs.saveFile('src/b.txt', 'new b');
+            expect(await fs.findFiles('**')).to.eql(['a.txt', 'src/b.txt']);
+            expect(await fs.loadTextFile('src/b.txt')).to.equal('new b');
+        });
+
+        it(`emits the events of the lower layer that are not hidden by the upper layer`, async () => {
+            await fs.saveFile('a.txt', 'changed');
+            await fs.deleteFile('src/b.txt');
+            await matcher.expect([
+                {type: 'fileChanged', fullPath: 'a.txt'},
+                {type: 'fileDeleted', fullPath: 'src/b.txt'}
+            ]);
+            await lower.saveFile('a.txt', 'lower change');
+            await lower.saveFile('src/b.txt', 'lower change');
+            await lower.saveFile('src/nested/c.txt', 'lower change');
+            await matcher.expect([{type: 'fileChanged', fullPath: 'src/nested/c.txt', newContent: 'lower change'}]);
+        });
+
+        it(`commit() writes the changes to the lower layer without emitting events`, async () => {
+            await fs.saveFile('a.txt', 'changed');
+            await fs.deleteDirectory('src/nested', true);
+            await fs.saveBinaryFile('src/nested/bin', new Uint8Array([0xff, 0xfe]));
+            await fs.move('src/b.txt', 'b.txt');
+            await matcher.expect([
+                {type: 'fileChanged', fullPath: 'a.txt'},
+                {type: 'directoryDeleted', fullPath: 'src/nested'},
+                {type: 'fileDeleted', fullPath: 'src/nested/c.txt'},
+                {type: 'directoryCreated', fullPath: 'src/nested'},
+                {type: 'fileCreated', fullPath: 'src/nested/bin'},
+                {type: 'fileRenamed', fullPath: 'b.txt', oldFullPath: 'src/b.txt'}
+            ]);
+            const merged = await fs.loadDirectoryTree();
+
+            await fs.commit();
+
+            await matcher.expect([]);
+            expect(lower.loadDirectoryContentSync()).to.eql({
+                'a.txt': 'changed',
+                'b.txt': 'b',
+                'src': {'nested': {'bin': new Uint8Array([0xff, 0xfe])}}
+            });
+            expect(upper.loadDirectoryChildrenSync('')).to.eql([]);
+            expect(await fs.loadDirectoryTree()).to.eql(merged);
+        });
+
+        it(`discard() drops the changes and emits the events that revert them`, async () => {
+            await fs.saveFile('a.txt', 'changed');
+            await fs.deleteFile('src/b.txt');
+            await fs.saveFile('new/d.txt', 'd');
+            await matcher.expect([
+                {type: 'fileChanged', fullPath: 'a.txt'},
+                {type: 'fileDeleted', fullPath: 'src/b.txt'},
+                {type: 'directoryCreated', fullPath: 'new'},
+                {type: 'fileCreated', fullPath: 'new/d.txt'}
+            ]);
+
+            await fs.discard();
+
+            await matcher.expect([
+                {type: 'directoryDeleted', fullPath: 'new'},
+                {type: 'fileDeleted', fullPath: 'new/d.txt'},
+                {type: 'fileChanged', fullPath: 'a.txt', newContent: 'a'},
+                {type: 'fileCreated', fullPath: 'src/b.txt', newContent: 'b'}
+            ]);
+            expect(await fs.loadDirectoryTree()).to.eql(await lower.loadDirectoryTree());
+        });
+    });
+});
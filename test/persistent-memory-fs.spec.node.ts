@@ -0,0 +1,110 @@
+import {dirSync, SynchrounousResult} from 'tmp';
+import {existsSync, readdirSync, writeFileSync} from 'fs';
+import {join} from 'path';
+import {expect} from 'chai';
+import {PersistentMemoryFileSystem} from '../src/nodejs';
+import {delayedPromise, retryPromise} from '../src/promise-utils';
+
+const content = {
+    'a.file': 'hello',
+    'src': {
+        'nested': {
+            'file.zag': 'nested-file'
+        }
+    }
+};
+
+describe(`the persistent in-memory implementation`, () => {
+    let tempDir: SynchrounousResult;
+    let storagePath: string;
+    let fs: PersistentMemoryFileSystem | undefined;
+
+    beforeEach(() => {
+        tempDir = dirSync({unsafeCleanup: true});
+        storagePath = join(tempDir.name, 'fs.json');
+    });
+
+    afterEach(() => {
+        if (fs) {
+            fs.dispose();
+            fs = undefined;
+        }
+        tempDir.removeCallback();
+    });
+
+    it(`saves to a local file and loads from it`, async () => {
+        const original = new PersistentMemoryFileSystem('', {content});
+        await original.save(storagePath);
+        expect(readdirSync(tempDir.name)).to.eql(['fs.json']);
+        const loaded = await PersistentMemoryFileSystem.load(storagePath);
+        expect(loaded.loadDirectoryContentSync()).to.eql(content);
+        expect(loaded.statSync('a.file')).to.eql(original.statSync('a.file'));
+        original.saveFileSync('a.file', 'changed');
+        original.saveSync(storagePath);
+        expect(PersistentMemoryFileSystem.loadSync(storagePath).loadTextFileSync('a.file')).to.equal('changed');
+    });
+
+    it(`saves to the same file concurrently`, async () => {
+        const original = new PersistentMemoryFileSystem('', {content});
+        await Promise.all([original.save(storagePath), original.save(storagePath), original.save(storagePath)]);
+        expect(readdirSync(tempDir.name)).to.eql(['fs.json']);
+        expect(PersistentMemoryFileSystem.loadSync(storagePath).loadDirectoryContentSync()).to.eql(content);
+    });
+
+    it(`fails to load unsupported files`, async () => {
+        writeFileSync(storagePath, JSON.stringify({version: 0}));
+        await expect(PersistentMemoryFileSystem.load(storagePath)).to.be.rejectedWith('version 0');
+    });
+
+    it(`autosaves after a debounce of changes`, async () => {
+        fs = new PersistentMemoryFileSystem('', {autosave: {path: storagePath, delay: 20}});
+        fs.saveFileSync('a.txt', 'a');
+        fs.saveFileSync('b.txt', 'b');
+        expect(existsSync(storagePath)).to.equal(false);
+        await retryPromise(async () => {
+            expect(PersistentMemoryFileSystem.loadSync(storagePath).loadDirectoryContentSync()).to.eql({'a.txt': 'a', 'b.txt': 'b'});
+        }, {retries: 20, interval: 20});
+    });
+
+    it(`autosaves when changes keep coming for longer than maxWait`, async () => {
+        fs = new PersistentMemoryFileSystem('', {autosave: {path: storagePath, delay: 50, maxWait: 100}});
+        for (let i = 0; i < 20 && !existsSync(storagePath); i++) {
+            fs.saveFileSync('a.txt', `${i}`);
+            await delayedPromise(20);
+        }
+        expect(existsSync(storagePath)).to.equal(true);
+    });
+
+    it(`autosaves moves`, async () => {
+        fs = new PersistentMemoryFileSystem('', {content, autosave: {path: storagePath, delay: 20}});
+        fs.saveSync(storagePath);
+        fs.moveSync('src', 'moved');
+        await retryPromise(async () => {
+            expect(PersistentMemoryFileSystem.loadSync(storagePath).loadDirectoryContentSync()).to.eql({'a.file': 'hello', 'moved': content.src});
+        }, {retries: 20, interval: 20});
+    });
+
+    it(`saves the last changes when disposed while autosaving`, async () => {
+        fs = new PersistentMemoryFileSystem('', {autosave: {path: storagePath, delay: 0}});
+        fs.saveFileSync('a.txt', 'first');
+        await delayedPromise(1);
+        fs.saveFileSync('a.txt', 'last');
+        fs.dispose();
+        await retryPromise(async () => {
+            expect(PersistentMemoryFileSystem.loadSync(storagePath).loadTextFileSync('a.txt')).to.equal('last');
+        }, {retries: 20, interval: 20});
+        await delayedPromise(50);
+        expect(PersistentMemoryFileSystem.loadSync(storagePath).loadTextFileSync('a.txt')).to.equal('last');
+        expect(readdirSync(tempDir.name)).to.eql(['fs.json']);
+    });
+
+    it(`saves pending changes when disposed`, async () => {
+        fs = new PersistentMemoryFileSystem('', {autosave: {path: storagePath, delay: 1000}});
+        fs.saveFileSync('a.txt', 'a');
+        fs.dispose();
+        expect(PersistentMemoryFileSystem.loadSync(storagePath).loadTextFileSync('a.txt')).to.equal('a');
+        fs.saveFileSync('a.txt', 'changed');
+        await delayedPromise(50);
+        expect(PersistentMemoryFileSystem.loadSync(storagePath).loadTextFileSync('a.txt')).to.equal('a');
+    });
+});
@@ -0,0 +1,74 @@
+import {expect} from 'chai';
+import {assertFileSystemContract, assertFileSystemSyncContract} from './implementation-suite';
+import {
+    deserializeError,
+    isFileSystemReadSync,
+    MemoryFileSystem,
+    ReadOnlyError,
+    ReadOnlyFileSystem,
+    ReadOnlyFileSystemSync,
+    serializeError
+} from '../src/universal';
+
+describe('the read-only file system proxy', () => {
+    const eventMatcherOptions = {retries: 15, interval: 2, timeout: 40, noExtraEventsGrace: 10};
+
+    describe('when writable', () => {
+        assertFileSystemContract(
+            async () => new ReadOnlyFileSystem(new MemoryFileSystem(), false),
+            eventMatcherOptions
+        );
+
+        assertFileSystemSyncContract(
+            async () => new ReadOnlyFileSystemSync(new MemoryFileSystem(), false),
+            eventMatcherOptions
+        );
+    });
+
+    describe('when read-only', () => {
+        let original: MemoryFileSystem;
+        let fs: ReadOnlyFileSystemSync;
+
+        beforeEach(() => {
+            original = new MemoryFileSystem('', {content: {'dir': {'file.txt': 'content'}}});
+            fs = new ReadOnlyFileSystemSync(original);
+        });
+
+        it('reads through', async () => {
+            expect(await fs.loadTextFile('dir/file.txt')).to.equal('content');
+            expect(fs.loadDirectoryContentSync()).to.eql({'dir': {'file.txt': 'content'}});
+            expect(await fs.findFiles('**')).to.eql(['dir/file.txt']);
+        });
+
+        it('rejects writes with a ReadOnlyError', async () => {
+            await expect(fs.saveFile('dir/file.txt', 'changed')).to.be.rejectedWith(ReadOnlyError).and.eventually.have.property('code', 'EROFS');
+            await expect(fs.saveBinaryFile('dir/file.bin', new Uint8Array([1]))).to.be.rejectedWith(ReadOnlyError);
+            await expect(fs.deleteFile('dir/file.txt')).to.be.rejectedWith(ReadOnlyError);
+            await expect(fs.deleteDirectory('dir', true)).to.be.rejectedWith(ReadOnlyError);
+            await expect(fs.ensureDirectory('other')).to.be.rejectedWith(ReadOnlyError);
+            await expect(fs.move('dir', 'other')).to.be.rejectedWith(ReadOnlyError);
+            await expect(fs.copyFile('dir/file.txt', 'copy.txt')).to.be.rejectedWith(ReadOnlyError);
+            await expect(fs.copyDirectory('dir', 'copy')).to.be.rejectedWith(ReadOnlyError);
+            await expect(fs.batch([{type: 'deleteFile', fullPath: 'dir/file.txt'}])).to.be.rejectedWith(ReadOnlyError);
+            expect(original.loadDirectoryContentSync()).to.eql({'dir': {'file.txt': 'content'}});
+        });
+
+        it('can be made writable at runtime', async () => {
+            fs.readOnly = false;
+            await fs.saveFile('dir/file.txt', 'changed');
+            fs.readOnly = true;
+            await expect(fs.saveFile('dir/file.txt', 'changed again')).to.be.rejectedWith(ReadOnlyError);
+            expect(original.loadTextFileSync('dir/file.txt')).to.equal('changed');
+        });
+
+        it('is FileSystemReadSync only in its sync flavor', () => {
+            expect(isFileSystemReadSync(fs)).to.equal(true);
+            expect(isFileSystemReadSync(new ReadOnlyFileSystem(original))).to.equal(false);
+        });
+
+        it('rejects with an error that survives serialization', async () => {
+            const error = await fs.saveFile('dir/file.txt', 'changed').catch(e => e);
+            expect(deserializeError(serializeError(error))).to.be.instanceOf(ReadOnlyError).and.include({path: 'dir/file.txt'});
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import {expect} from 'chai';
+import {EventsMatcher} from './events-matcher';
+import {assertFileSystemContract} from './implementation-suite';
+import {FileSystemError, fileSystemEventNames, MemoryFileSystem, ScopedFileSystem} from '../src/universal';
+
+describe(`the scoped file system`, () => {
+    const eventMatcherOptions: EventsMatcher.Options = {retries: 15, interval: 2, timeout: 40, noExtraEventsGrace: 10};
+
+    assertFileSystemContract(
+        async () => new ScopedFileSystem(new MemoryFileSystem('', {content: {'project': {}}}), 'project'),
+        eventMatcherOptions
+    );
+
+    describe(`over a shared file system`, () => {
+        let original: MemoryFileSystem;
+        let fs: ScopedFileSystem;
+        let matcher: EventsMatcher;
+
+        beforeEach(() => {
+            original = new MemoryFileSystem('/root', {
+                content: {
+                    'outside.txt': 'outside',
+                    'packages': {
+                        'a': {'index.ts': 'a'},
+                        'b': {'index.ts': 'b'}
+                    }
+                }
+            });
+            fs = new ScopedFileSystem(original, 'packages/a');
+            matcher = new EventsMatcher(eventMatcherOptions);
+            matcher.track(fs.events, ...fileSystemEventNames);
+        });
+
+        it(`reports the base url of the scope`, () => {
+            expect(fs.baseUrl).to.equal('/root/packages/a');
+        });
+
+        it(`reads and writes inside the scope`, async () => {
+            await fs.saveFile('src/file.ts', 'file');
+            expect(original.loadTextFileSync('packages/a/src/file.ts')).to.equal('file');
+            expect(await fs.loadTextFile('index.ts')).to.equal('a');
+            expect(await fs.loadDirectoryTree('src')).to.containSubset({name: 'src', fullPath: 'src', children: [{fullPath: 'src/file.ts'}]});
+            expect(await fs.findFiles('**/*.ts')).to.eql(['index.ts', 'src/file.ts']);
+        });
+
+        it(`does not let '..' leave the scope`, async () => {
+            expect(await fs.loadTextFile('src/../index.ts')).to.equal('a');
+            await expect(fs.loadTextFile('../b/index.ts')).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL');
+            await expect(fs.saveFile('..\\..\\outside.txt', 'oops')).to.be.rejectedWith(FileSystemError).and.eventually.have.property('code', 'EINVAL');
+            expect(original.loadTextFileSync('outside.txt')).to.equal('outside');
+        });
+
+        it(`reports errors with scoped paths`, async () => {
+            await expect(fs.loadTextFile('missing.ts')).to.be.rejectedWith(FileSystemError).and.eventually.have.property('path', 'missing.ts');
+        });
+
+        it(`emits the events of the scope only, with scoped paths`, async () => {
+            await original.saveFile('outside.txt', 'changed');
+            await original.saveFile('packages/b/index.ts', 'changed');
+            await original.saveFile('packages/a/index.ts', 'changed');
+            await matcher.expect([{type: 'fileChanged', fullPath: 'index.ts', newContent: 'changed'}]);
+        });
+
+        it(`reports moves across the scope boundary as deletion and creation`, async () => {
+            await original.move('packages/a/index.ts', 'index.ts');
+            await matcher.expect([{type: 'fileDeleted', fullPath: 'index.ts'}]);
+            await original.move('packages/b', 'packages/a/b');
+            await matcher.expect([
+                {type: 'directoryCreated', fullPath: 'b'},
+                {type: 'fileCreated', fullPath: 'b/index.ts', newContent: 'b'}
+            ]);
+        });
+
+        it(`does not dispose the wrapped file system`, async () => {
+            fs.dispose();
+            await original.saveFile('packages/a/index.ts', 'changed');
+            await matcher.expect([]);
+            expect(original.loadTextFileSync('packages/a/index.ts')).to.equal('changed');
+        });
+    });
+});
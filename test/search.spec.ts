@@ -0,0 +1,33 @@
+import {expect} from 'chai';
+import {MemoryFileSystem} from '../src/memory-fs';
+import {searchTextInFileSystem, TextSearch} from '../src/search';
+import {FileSystemError} from '../src/errors';
+
+describe('text search', () => {
+    it('reports every match in a line', () => {
+        const search = new TextSearch('a');
+        search.searchFile('foo', 'bar\r\nAbba');
+        expect(search.results.map(({line, column}) => [line, column])).to.eql([[1, 2], [2, 1], [2, 4]]);
+    });
+
+    it('does not loop on empty regular expression matches', () => {
+        const search = new TextSearch('x*', {regex: true});
+        search.searchFile('foo', 'ab');
+        expect(search.results.map(({column}) => column)).to.eql([1, 2, 3]);
+    });
+
+    it('finds nothing for an empty query', () => {
+        const search = new TextSearch('');
+        search.searchFile('foo', 'bar');
+        expect(search.results).to.eql([]);
+    });
+
+    it('rejects invalid regular expressions', () => {
+        expect(() => new TextSearch('(', {regex: true})).to.throw(FileSystemError).with.property('code', 'EINVAL');
+    });
+
+    it('searches any file system', async () => {
+        const fs = new MemoryFileSystem('', {content: {src: {'a.txt': 'foo', 'b.txt': 'bar'}}});
+        expect(await searchTextInFileSystem(fs, 'bar')).to.eql([{fullPath: 'src/b.txt', line: 1, column: 1, preview: 'bar'}]);
+    });
+});
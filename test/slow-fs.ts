@@ -1,4 +1,18 @@
-import {Correlation, FileSystem, isDisposable} from '../src/api';
+import {
+    BatchOperation,
+    CopyDirectoryOptions,
+    Correlation,
+    FileSystem,
+    FindFilesOptions,
+    isDisposable,
+    SearchTextOptions,
+    TextSearchMatch,
+    VersionedTextFile,
+    WatchHandle,
+    WatchListener,
+    WatchOptions,
+    WriteOptions
+} from '../src/api';
 import {MemoryFileSystem} from '../src/memory-fs';
 import {InternalEventsEmitter} from '../src/utils';
 import {delayedPromise} from '../src/promise-utils';
@@ -14,14 +28,19 @@ export class SlowFs implements FileSystem {
         this.events = this.fs.events as InternalEventsEmitter;
     }
 
-    async saveFile(fullPath: string, newContent: string, correlation?: Correlation): Promise<Correlation> {
+    async saveFile(fullPath: string, newContent: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
         await delayedPromise(this.delay);
-        return this.fs.saveFile(fullPath, newContent, correlation);
+        return this.fs.saveFile(fullPath, newContent, correlation, options);
     }
 
-    async deleteFile(fullPath: string, correlation?: Correlation): Promise<Correlation> {
+    async saveBinaryFile(fullPath: string, newContent: Uint8Array, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
         await delayedPromise(this.delay);
-        return this.fs.deleteFile(fullPath, correlation);
+        return this.fs.saveBinaryFile(fullPath, newContent, correlation, options);
+    }
+
+    async deleteFile(fullPath: string, correlation?: Correlation, options?: WriteOptions): Promise<Correlation> {
+        await delayedPromise(this.delay);
+        return this.fs.deleteFile(fullPath, correlation, options);
     }
 
     async deleteDirectory(fullPath: string, recursive: boolean = false, correlation?: Correlation): Promise<Correlation> {
@@ -34,11 +53,41 @@ export class SlowFs implements FileSystem {
         return this.fs.ensureDirectory(fullPath, correlation);
     }
 
+    async move(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        await delayedPromise(this.delay);
+        return this.fs.move(fromPath, toPath, correlation);
+    }
+
+    async copyFile(fromPath: string, toPath: string, correlation?: Correlation): Promise<Correlation> {
+        await delayedPromise(this.delay);
+        return this.fs.copyFile(fromPath, toPath, correlation);
+    }
+
+    async copyDirectory(fromPath: string, toPath: string, options?: CopyDirectoryOptions, correlation?: Correlation): Promise<Correlation> {
+        await delayedPromise(this.delay);
+        return this.fs.copyDirectory(fromPath, toPath, options, correlation);
+    }
+
+    async batch(operations: BatchOperation[], correlation?: Correlation): Promise<Correlation> {
+        await delayedPromise(this.delay);
+        return this.fs.batch(operations, correlation);
+    }
+
     async loadTextFile(fullPath: string): Promise<string> {
         await delayedPromise(this.delay);
         return this.fs.loadTextFile(fullPath);
     }
 
+    async loadTextFileWithVersion(fullPath: string): Promise<VersionedTextFile> {
+        await delayedPromise(this.delay);
+        return this.fs.loadTextFileWithVersion(fullPath);
+    }
+
+    async loadBinaryFile(fullPath: string): Promise<Uint8Array> {
+        await delayedPromise(this.delay);
+        return this.fs.loadBinaryFile(fullPath);
+    }
+
     async loadDirectoryTree(fullPath?: string): Promise<Directory> {
         await delayedPromise(this.delay);
         return this.fs.loadDirectoryTree(fullPath);
@@ -54,6 +103,20 @@ export class SlowFs implements FileSystem {
         return this.fs.stat(fullPath);
     }
 
+    async findFiles(patterns: string | string[], options?: FindFilesOptions): Promise<string[]> {
+        await delayedPromise(this.delay);
+        return this.fs.findFiles(patterns, options);
+    }
+
+    async searchText(query: string, options?: SearchTextOptions): Promise<TextSearchMatch[]> {
+        await delayedPromise(this.delay);
+        return this.fs.searchText(query, options);
+    }
+
+    watch(pathOrGlob: string, listener: WatchListener, options?: WatchOptions): WatchHandle {
+        return this.fs.watch(pathOrGlob, listener, options);
+    }
+
     dispose() {
         setTimeout(() => isDisposable(this.fs) && this.fs.dispose(), this.delay);
     }
@@ -1,7 +1,7 @@
 import { expect } from 'chai';
 import { assertFileSystemContract, dirName, fileName } from './implementation-suite';
 import { SlowFs } from './slow-fs';
-import { FileSystem, MemoryFileSystem, TimeoutFileSystem } from '../src/universal';
+import { FileSystem, MemoryFileSystem, TimeoutError, TimeoutFileSystem } from '../src/universal';
 
 describe('the timeout file system proxy', () => {
     const timeout = 200;
@@ -55,5 +55,9 @@ describe('the timeout file system proxy', () => {
             await expect(fs.stat(dirName)).to.eventually.be.rejectedWith('timed out');
             expect(startTimestamp - Date.now()).to.be.below(delay);
         });
+
+        it(`rejects with a timeout error`, async () => {
+            await expect(fs.stat(dirName)).to.eventually.be.rejectedWith(TimeoutError).and.have.property('code', 'ETIMEDOUT');
+        });
     });
 });
@@ -1,6 +1,7 @@
+import { Connection, Session } from 'autobahn';
 import { expect } from 'chai';
 import { retryPromise } from '../src/promise-utils';
-import { wampRealm, WampFsServer, wampServerOverFs } from '../src/nodejs';
+import { wampRealm, wampRealmPrefix, WampFsServer, wampServerOverFs } from '../src/nodejs';
 import { MemoryFileSystem, WampClientFileSystem } from '../src/universal';
 import { noConnectionError } from '../src/wamp-client-fs';
 import { EventsMatcher } from './events-matcher';
@@ -83,5 +84,63 @@ describe(`the wamp client filesystem proxy`, () => {
         });
     });
 
+    it(`stops watching when the server connection closes`, async () => {
+        const fs = await getInitedFS();
+        const watch = spy(underlyingFs, 'watch');
+        await fs.watch('dir', () => undefined).ready;
+        const dispose = spy(watch.firstCall.returnValue, 'dispose');
+        wampServer.connection.close();
+        await retryPromise(async () => expect(dispose).to.have.callCount(1), {interval: 50, retries: 10});
+        fs.dispose();
+    });
+
+    it(`stops its watches when disposed`, async () => {
+        const fs = await getInitedFS();
+        const handle = fs.watch('dir', () => undefined);
+        await handle.ready;
+        await fs.watch('other', () => undefined).ready;
+        const call = spy((fs as any).session, 'call');
+        handle.dispose();
+        fs.dispose();
+        expect(call.args.filter(([procedure]) => procedure === `${wampRealmPrefix}unwatch`)).to.have.length(2);
+    });
+
+    it(`reports a failing unwatch call`, async () => {
+        const fs = await getInitedFS();
+        const handle = fs.watch('dir', () => undefined);
+        await handle.ready;
+        const unexpectedError = spy();
+        const unhandledRejection = spy();
+        fs.events.on('unexpectedError', unexpectedError);
+        process.on('unhandledRejection', unhandledRejection);
+        try {
+            wampServer.connection.close();
+            await retryPromise(async () => expect((wampServer.connection as any).isConnected).to.equal(false), {interval: 50, retries: 10});
+            handle.dispose();
+            await retryPromise(async () => expect(unexpectedError).to.have.callCount(1), {interval: 50, retries: 10});
+            expect(unhandledRejection).to.have.callCount(0);
+        } finally {
+            process.removeListener('unhandledRejection', unhandledRejection);
+            fs.dispose();
+        }
+    });
+
+    it(`stops the watches of a client session when it leaves`, async () => {
+        const fs = await getInitedFS();
+        const watch = spy(underlyingFs, 'watch');
+        await fs.watch('dir', () => undefined).ready;
+        const connection = new Connection({url: `ws://127.0.0.1:3000`, realm: wampRealm});
+        const session = await new Promise<Session>(resolve => {
+            connection.onopen = resolve;
+            connection.open();
+        });
+        await session.call(`${wampRealmPrefix}watch`, ['left', 'dir', undefined, session.id]);
+        const [fsWatch, leftWatch] = watch.getCalls().map(call => spy(call.returnValue, 'dispose'));
+        connection.close();
+        await retryPromise(async () => expect(leftWatch).to.have.callCount(1), {interval: 50, retries: 10});
+        expect(fsWatch).to.have.callCount(0);
+        fs.dispose();
+    });
+
     assertFileSystemContract(getInitedFS, eventMatcherOptions);
 });
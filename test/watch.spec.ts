@@ -0,0 +1,31 @@
+import {expect} from 'chai';
+import {createPathFilter, getGlobBase} from '../src/watch';
+
+describe('watch scope', () => {
+    it('contains a path and its direct children', () => {
+        const isInScope = createPathFilter('src');
+        expect(isInScope('src')).to.equal(true);
+        expect(isInScope('src/a.ts')).to.equal(true);
+        expect(isInScope('src/a/b.ts')).to.equal(false);
+        expect(isInScope('src2')).to.equal(false);
+        expect(createPathFilter('')('a.ts')).to.equal(true);
+        expect(createPathFilter('')('src/a.ts')).to.equal(false);
+    });
+
+    it('contains the whole sub tree when recursive', () => {
+        expect(createPathFilter('src', {recursive: true})('src/a/b.ts')).to.equal(true);
+        expect(createPathFilter('', {recursive: true})('src/a/b.ts')).to.equal(true);
+    });
+
+    it('contains the paths that match a glob, and their children when recursive', () => {
+        expect(createPathFilter('*/lib')('src/lib')).to.equal(true);
+        expect(createPathFilter('*/lib')('src/lib/a.ts')).to.equal(false);
+        expect(createPathFilter('*/lib', {recursive: true})('src/lib/a/b.ts')).to.equal(true);
+    });
+
+    it('finds the base directory of a glob', () => {
+        expect(getGlobBase('src/lib/**/*.ts')).to.equal('src/lib');
+        expect(getGlobBase('*.ts')).to.equal('');
+        expect(getGlobBase('src/lib')).to.equal('src/lib');
+    });
+});
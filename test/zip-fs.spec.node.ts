@@ -0,0 +1,107 @@
+import {fileSync} from 'tmp';
+import {readFileSync, writeFileSync} from 'fs';
+import {expect} from 'chai';
+import {assertFileSystemContract, assertFileSystemSyncContract} from './implementation-suite';
+import {EventsMatcher} from './events-matcher';
+import {fileSystemEventNames, ZipFileSystem} from '../src/nodejs';
+import {writeZip} from '../src/zip';
+
+// made with `zip -X -r fixture.zip readme.md src empty`
+const fixture = new Uint8Array(Buffer.from('UEsDBBQAAAAIAAAAIVBXN2KFCwAAACMAAAAJAAAAcmVhZG1lLm1ky0jNyclXyMBHAgBQSwMECgAAAAAAAAAhUAAAAAAAAAAAAAAAAAQAAABzcmMvUEsDBAoAAAAAAAAAIVDGRyXXCgAAAAoAAAAMAAAAc3JjL2luZGV4LnRzZXhwb3J0IHt9O1BLAwQKAAAAAAAAACFQAAAAAAAAAAAAAAAABgAAAGVtcHR5L1BLAQIeAxQAAAAIAAAAIVBXN2KFCwAAACMAAAAJAAAAAAAAAAEAAACkgQAAAAByZWFkbWUubWRQSwECHgMKAAAAAAAAACFQAAAAAAAAAAAAAAAABAAAAAAAAAAAABAA7UEyAAAAc3JjL1BLAQIeAwoAAAAAAAAAIVDGRyXXCgAAAAoAAAAMAAAAAAAAAAEAAACkgVQAAABzcmMvaW5kZXgudHNQSwECHgMKAAAAAAAAACFQAAAAAAAAAAAAAAAABgAAAAAAAAAAABAA7UGIAAAAZW1wdHkvUEsFBgAAAAAEAAQA1wAAAKwAAAAAAA==', 'base64'));
+const fixtureContent = {
+    'readme.md': 'hello hello hello hello hello hello',
+    'src': {'index.ts': 'export {};'},
+    'empty': {}
+};
+
+describe(`the zip file system`, () => {
+    const eventMatcherOptions = {retries: 15, interval: 2, timeout: 40, noExtraEventsGrace: 10};
+
+    assertFileSystemContract(() => new ZipFileSystem(writeZip([])).init(), eventMatcherOptions);
+    assertFileSystemSyncContract(() => new ZipFileSystem(writeZip([])).init(), eventMatcherOptions);
+
+    it(`reads the entries of an archive`, async () => {
+        const fs = await new ZipFileSystem(fixture).init();
+        expect(fs.loadDirectoryContentSync()).to.eql(fixtureContent);
+        expect(await fs.loadDirectoryTree()).to.containSubset({
+            children: [
+                {name: 'readme.md', type: 'file', fullPath: 'readme.md'},
+                {name: 'src', type: 'dir', children: [{name: 'index.ts', type: 'file', fullPath: 'src/index.ts'}]},
+                {name: 'empty', type: 'dir', children: []}
+            ]
+        });
+    });
+
+    it(`writes changes back to the archive on flush()`, async () => {
+        const {name, removeCallback} = fileSync();
+        try {
+            writeFileSync(name, fixture);
+            const fs = await new ZipFileSystem(name).init();
+            await fs.saveFile('src/index.ts', 'changed');
+            await fs.saveBinaryFile('bin/data', new Uint8Array([0, 255, 1]));
+            await fs.deleteFile('readme.md');
+            expect(new Uint8Array(readFileSync(name))).to.eql(fixture);
+
+            const data = await fs.flush();
+            expect(new Uint8Array(readFileSync(name))).to.eql(data);
+            const reopened = await new ZipFileSystem(name).init();
+            expect(reopened.loadDirectoryContentSync()).to.eql({
+                'src': {'index.ts': 'changed'},
+                'empty': {},
+                'bin': {'data': new Uint8Array([0, 255, 1])}
+            });
+        } finally {
+            removeCallback();
+        }
+    });
+
+    it(`emits events when entries are added or removed`, async () => {
+        const fs = await new ZipFileSystem(fixture).init();
+        const matcher = new EventsMatcher(eventMatcherOptions);
+        matcher.track(fs.events, ...fileSystemEventNames);
+        const correlation = await fs.saveFile('src/added.ts', 'added');
+        await matcher.expect([{type: 'fileCreated', fullPath: 'src/added.ts', newContent: 'added', correlation}]);
+        const deletion = await fs.deleteDirectory('src', true);
+        await matcher.expect([
+            {type: 'directoryDeleted', fullPath: 'src', correlation: deletion},
+            {type: 'fileDeleted', fullPath: 'src/index.ts', correlation: deletion},
+            {type: 'fileDeleted', fullPath: 'src/added.ts', correlation: deletion}
+        ]);
+    });
+
+    it(`reads the times of the entries`, async () => {
+        const fs = await new ZipFileSystem(fixture).init();
+        const date = new Date(2020, 0, 1);
+        expect(fs.statSync('readme.md')).to.containSubset({mtime: date, birthtime: date});
+        expect(fs.statSync('empty').mtime).to.eql(date);
+    });
+
+    it(`reads names that are not marked as UTF-8 as code page 437`, async () => {
+        const data = writeZip([{name: 'caf\u00E9.txt', content: new Uint8Array([1])}]);
+        const buffer = Buffer.from(data.buffer as ArrayBuffer);
+        // the name is 'caf' followed by the UTF-8 bytes of 'é', which are '├⌐' in code page 437
+        buffer.writeUInt16LE(0, 6);
+        buffer.writeUInt16LE(0, buffer.indexOf('PK\u0001\u0002') + 8);
+        const fs = await new ZipFileSystem(data).init();
+        expect(fs.loadDirectoryContentSync()).to.have.all.keys('caf\u251C\u2310.txt');
+    });
+
+    it(`rejects archives with corrupt entries`, async () => {
+        const data = writeZip([{name: 'file.txt', content: new Uint8Array([1])}]);
+        data[30 + 'file.txt'.length] = 2;
+        await expect(new ZipFileSystem(data).init()).to.be.rejectedWith(`Corrupt zip entry 'file.txt'`);
+    });
+
+    it(`rejects archives with entries outside of the root`, async () => {
+        const data = writeZip([{name: '../outside.txt', content: new Uint8Array([1])}]);
+        await expect(new ZipFileSystem(data).init()).to.be.rejectedWith(`Illegal zip entry path '../outside.txt'`);
+    });
+
+    it(`rejects entries that would reach the object prototype`, async () => {
+        for (const name of ['__proto__/polluted', 'constructor/prototype/polluted']) {
+            const data = writeZip([{name, content: new Uint8Array([1])}]);
+            await expect(new ZipFileSystem(data).init()).to.be.rejectedWith(`Illegal zip entry path '${name}'`);
+        }
+        expect(({} as any).polluted).to.equal(undefined);
+    });
+});